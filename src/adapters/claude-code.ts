@@ -0,0 +1,8 @@
+import { createSectionAdapter } from './shared.js';
+
+// CLAUDE.md: one `## name` section per rule
+export const claudeCodeAdapter = createSectionAdapter({
+  editor: 'claude-code',
+  header: '# CLAUDE.md\n\nThis file provides guidance to Claude Code when working with code in this repository.\n\n',
+  headingLevel: 2
+});
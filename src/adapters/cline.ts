@@ -0,0 +1,17 @@
+import { conversionNote, createFileAdapter, createRule } from './shared.js';
+
+// The title heading and conversion note serialize puts above a rule's content
+const DECORATION = /^\s*#[ \t]+(.+)\n+(?:\*Converted from \S+ rules\*\n+)?/;
+
+// .clinerules/*.md: plain Markdown, the first heading doubles as the description
+export const clineAdapter = createFileAdapter({
+  editor: 'cline',
+  parse: (content, filePath) => {
+    // A leading title is the description, not content, so round trips don't stack headings
+    const decoration = DECORATION.exec(content);
+    const title = decoration?.[1] ?? content.match(/^#\s+(.+)$/m)?.[1];
+    const body = decoration ? content.slice(decoration[0].length) : content;
+    return createRule('cline', filePath, content, { ...(title && { description: title.trim() }), content: body });
+  },
+  serialize: rule => `# ${rule.description || rule.name}\n\n${conversionNote(rule, 'cline')}${rule.content}`
+});
@@ -0,0 +1,21 @@
+import { getAgentsSharedDescription } from '../utils/index.js';
+import { createSectionAdapter } from './shared.js';
+
+const HEADER_TITLE = '# Project Agent Rules';
+
+// AGENTS.md: one `---- name ----` section per rule, or `## name` headings in hand-written files
+export const codexAdapter = createSectionAdapter({
+  editor: 'codex',
+  header: `${HEADER_TITLE}\n\n${getAgentsSharedDescription()}\n\n`,
+  headingLevel: 2,
+  delimiter: {
+    pattern: /^---- (.+?) ----$/gm,
+    heading: name => `---- ${name} ----`
+  },
+  // Older generated AGENTS.md files predate the shared-format note; hand-written ones are left as they are
+  prepareFile: content => {
+    const sharedDescription = getAgentsSharedDescription();
+    if (content.includes(sharedDescription) || !content.startsWith(HEADER_TITLE)) return content;
+    return content.replace(HEADER_TITLE, `${HEADER_TITLE}\n\n${sharedDescription}`);
+  }
+});
@@ -0,0 +1,25 @@
+import matter from 'gray-matter';
+import { BOOLEAN_VALUES, createFileAdapter, createRule, describeRule, isPatternRule, readCommonFrontmatter, readFrontmatter } from './shared.js';
+
+// .cursor/rules/*.mdc: description, globs and alwaysApply in frontmatter
+export const cursorAdapter = createFileAdapter({
+  editor: 'cursor',
+  frontmatter: {
+    keys: ['description', 'globs', 'alwaysApply'],
+    patternsKey: 'globs',
+    values: { alwaysApply: BOOLEAN_VALUES }
+  },
+  parse: (content, filePath) => {
+    const { body, data } = readFrontmatter(content);
+    return createRule('cursor', filePath, content, { ...readCommonFrontmatter(data), content: body });
+  },
+  serialize: rule => {
+    const frontmatter: Record<string, unknown> = { description: describeRule(rule, 'cursor') };
+    if (rule.type === 'always') {
+      frontmatter.alwaysApply = true;
+    } else if (isPatternRule(rule) && rule.patterns) {
+      frontmatter.globs = rule.patterns;
+    }
+    return matter.stringify(rule.content, frontmatter);
+  }
+});
@@ -0,0 +1,107 @@
+import { EditorAdapter, EditorType, FileSection } from '../types/index.js';
+import { registerEditorConfig, slugifyRuleName } from '../utils/index.js';
+import { PREAMBLE_RULE_NAME, wrapManagedRegion } from './shared.js';
+import { cursorAdapter } from './cursor.js';
+import { windsurfAdapter } from './windsurf.js';
+import { clineAdapter } from './cline.js';
+import { vscodeAdapter } from './vscode.js';
+import { codexAdapter } from './codex.js';
+import { claudeCodeAdapter } from './claude-code.js';
+import { qoderAdapter } from './qoder.js';
+import { traeAdapter } from './trae.js';
+import { qwencoderAdapter } from './qwencoder.js';
+
+const adapters = new Map<EditorType, EditorAdapter>(
+  [
+    cursorAdapter,
+    windsurfAdapter,
+    clineAdapter,
+    vscodeAdapter,
+    codexAdapter,
+    claudeCodeAdapter,
+    qoderAdapter,
+    traeAdapter,
+    qwencoderAdapter
+  ].map(adapter => [adapter.editor, adapter])
+);
+
+// Adds an editor contributed by a plugin; its config becomes visible through EDITOR_CONFIGS too
+export function registerAdapter(adapter: EditorAdapter): void {
+  if (adapters.has(adapter.editor)) {
+    throw new Error(`Editor "${adapter.editor}" is already registered`);
+  }
+  registerEditorConfig(adapter.editor, adapter.config);
+  adapters.set(adapter.editor, adapter);
+}
+
+// `headingLevel` replaces the level single-file editors start their sections at
+export function getAdapter(editor: EditorType, headingLevel?: number): EditorAdapter {
+  const adapter = adapters.get(editor);
+  if (!adapter) {
+    throw new Error(`Unsupported editor: ${editor}`);
+  }
+  return headingLevel !== undefined && adapter.withHeadingLevel ? adapter.withHeadingLevel(headingLevel) : adapter;
+}
+
+export function getAdapters(): EditorAdapter[] {
+  return Array.from(adapters.values());
+}
+
+// Editors that keep every rule in one Markdown file (AGENTS.md, CLAUDE.md, QWEN.md)
+export function isSingleFileEditor(editor: EditorType): boolean {
+  return getAdapter(editor).singleFile;
+}
+
+export function findFileSections(editor: EditorType, content: string, headingLevel?: number): FileSection[] {
+  return getAdapter(editor, headingLevel).findSections?.(content) ?? [];
+}
+
+/**
+ * Adds a section to a single file inside a managed region keyed by the rule's
+ * slug, replacing that region if it exists. A hand-written section with the
+ * same slug is taken over; any other text is left untouched. A missing file
+ * starts from the editor's header, and the section's heading follows the style
+ * the file already uses. A `preamble` rule goes in a region of its own at the
+ * top, without a heading; it is only added while the text above the first
+ * section is the editor's own header, so a hand-written introduction stays.
+ */
+export function upsertSection(adapter: EditorAdapter, existing: string | null, name: string, section: string): string {
+  let content = existing ?? adapter.header ?? '';
+  content = adapter.prepareFile?.(content) ?? content;
+  const sections = adapter.findSections?.(content) ?? [];
+
+  const slug = slugifyRuleName(name);
+  if (slug === PREAMBLE_RULE_NAME) {
+    section = section.slice(section.indexOf('\n\n') + 2);
+    if (!sections.some(candidate => candidate.id === slug)) {
+      const top = content.slice(0, sections[0]?.start ?? content.length);
+      if (top.trim() && top.trim() !== (adapter.header ?? '').trim()) return content;
+      const rest = content.slice(top.length);
+      const region = wrapManagedRegion(slug, section);
+      return rest ? `${region}\n\n${rest}` : `${region}\n`;
+    }
+  } else {
+    const defaultHeading = adapter.sectionHeading?.(name);
+    const fileHeading = adapter.sectionHeading?.(name, content);
+    if (defaultHeading && fileHeading && fileHeading !== defaultHeading && section.startsWith(defaultHeading)) {
+      section = fileHeading + section.slice(defaultHeading.length);
+    }
+  }
+
+  const region = wrapManagedRegion(slug, section);
+  const match = sections.find(candidate => candidate.id === slug)
+    ?? sections.find(candidate => !candidate.id && slugifyRuleName(candidate.name) === slug);
+  if (match) {
+    const after = content.slice(match.end).trimStart();
+    return after ? `${content.slice(0, match.start)}${region}\n\n${after}` : `${content.slice(0, match.start)}${region}\n`;
+  }
+  return content.trim() ? `${content.trimEnd()}\n\n${region}\n` : `${region}\n`;
+}
+
+// Cuts a section out of a file, closing up the blank lines around it
+export function removeSection(content: string, section: FileSection): string {
+  const before = content.slice(0, section.start).trimEnd();
+  const after = content.slice(section.end).trimStart();
+  if (!after) return `${before}\n`;
+  return before ? `${before}\n\n${after}` : after;
+}
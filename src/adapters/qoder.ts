@@ -0,0 +1,77 @@
+import matter from 'gray-matter';
+import { RuleType } from '../types/index.js';
+import { BOOLEAN_VALUES, createFileAdapter, createRule, describeRule, isPatternRule, readCommonFrontmatter, readFrontmatter } from './shared.js';
+
+// `glob` reads back as Qoder's own pattern type, so Qoder rules round-trip
+const TRIGGER_TO_RULE_TYPE: Record<string, RuleType> = {
+  manual: 'manual',
+  model_decision: 'model-decision',
+  always_on: 'always',
+  glob: 'specific-files'
+};
+
+// Files referenced in prose: `*.ts`, `*.test.ts`, `**/*.tsx`, `src/**`
+const MENTIONED_PATTERN = /\*\*\/\*\.[a-zA-Z]+(?:\.[a-zA-Z]+)*|\*\.[a-zA-Z]+(?:\.[a-zA-Z]+)*|src\/\*+/g;
+
+// .qoder/rules/*.md: a `trigger` picks the activation mode
+export const qoderAdapter = createFileAdapter({
+  editor: 'qoder',
+  frontmatter: {
+    keys: ['trigger', 'description', 'alwaysApply', 'glob'],
+    patternsKey: 'glob',
+    values: { trigger: Object.keys(TRIGGER_TO_RULE_TYPE), alwaysApply: BOOLEAN_VALUES }
+  },
+  parse: (content, filePath) => {
+    const { body, data } = readFrontmatter(content);
+    const fields = readCommonFrontmatter(data);
+    const triggerType = TRIGGER_TO_RULE_TYPE[data.trigger];
+    if (triggerType) {
+      fields.type = triggerType;
+    }
+    if (data.glob) {
+      // serialize joins several globs with commas; commas inside `{ts,tsx}` belong to the glob
+      const globs: unknown[] = Array.isArray(data.glob) ? data.glob : String(data.glob).split(/,(?![^{]*\})/);
+      fields.patterns = globs.map(glob => String(glob).trim()).filter(Boolean);
+      fields.type = triggerType ?? 'specific-files';
+    }
+
+    // Natural language rules without a trigger or glob mention the files they are about
+    if (!data.trigger && !data.glob) {
+      const mentioned = body.match(MENTIONED_PATTERN);
+      if (mentioned) {
+        fields.type = 'specific-files';
+        fields.patterns = Array.from(new Set(mentioned));
+      }
+    }
+    return createRule('qoder', filePath, content, { ...fields, content: body });
+  },
+  serialize: rule => {
+    const frontmatter: Record<string, unknown> = {
+      trigger: toQoderTrigger(rule.type),
+      description: describeRule(rule, 'qoder')
+    };
+    if (rule.type === 'always') {
+      frontmatter.alwaysApply = true;
+    }
+    if (isPatternRule(rule) && rule.patterns && rule.patterns.length > 0) {
+      frontmatter.glob = rule.patterns.length === 1 ? rule.patterns[0] : rule.patterns.join(',');
+    }
+    return matter.stringify(rule.content, frontmatter);
+  }
+});
+
+function toQoderTrigger(ruleType: RuleType): string {
+  switch (ruleType) {
+    case 'model-decision':
+    case 'agent-requested':
+      return 'model_decision';
+    case 'always':
+      return 'always_on';
+    case 'auto-attached':
+    case 'glob-pattern':
+    case 'specific-files':
+      return 'glob';
+    default:
+      return 'manual';
+  }
+}
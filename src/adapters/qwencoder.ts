@@ -0,0 +1,12 @@
+import { createSectionAdapter } from './shared.js';
+
+// QWEN.md: the same `---- name ----` sections as AGENTS.md, or `## name` headings in hand-written files
+export const qwencoderAdapter = createSectionAdapter({
+  editor: 'qwencoder',
+  header: '# Project Context Rules\n\n*AI coding assistant guidance*\n\n',
+  headingLevel: 2,
+  delimiter: {
+    pattern: /^---- (.+?) ----$/gm,
+    heading: name => `---- ${name} ----`
+  }
+});
@@ -0,0 +1,322 @@
+import { basename } from 'path';
+import matter from 'gray-matter';
+import { EditorAdapter, EditorType, FileSection, FrontmatterSchema, Rule, RuleType, UniversalRule } from '../types/index.js';
+import { getEditorConfig, slugifyRuleName } from '../utils/index.js';
+import { toRuleType } from '../converters/warnings.js';
+
+export const PATTERN_RULE_TYPES: RuleType[] = ['auto-attached', 'glob-pattern', 'specific-files'];
+
+export function isPatternRule(rule: Pick<Rule, 'type'>): boolean {
+  return PATTERN_RULE_TYPES.includes(rule.type);
+}
+
+// Universal rules are written by the editor they target, so nothing was converted
+export function fromUniversalRule(rule: UniversalRule, editor: EditorType): Rule {
+  const description = rule.description || rule.context;
+  return {
+    name: rule.name,
+    ...(description && { description }),
+    content: rule.content,
+    type: toRuleType(rule.type),
+    ...(rule.patterns && rule.patterns.length > 0 && { patterns: rule.patterns }),
+    source: editor,
+    metadata: { id: rule.id }
+  };
+}
+
+export function describeRule(rule: Rule, editor: EditorType): string {
+  return rule.description || (rule.source === editor ? rule.name : `Converted from ${rule.source}`);
+}
+
+export function conversionNote(rule: Rule, editor: EditorType): string {
+  return rule.source === editor ? '' : `*Converted from ${rule.source} rules*\n\n`;
+}
+
+export function ruleNameFromPath(filePath: string): string {
+  return basename(filePath).replace(/\.[^/.]+$/, '') || 'unnamed';
+}
+
+export interface ParsedFrontmatter {
+  body: string;
+  data: Record<string, any>;
+}
+
+export function readFrontmatter(content: string): ParsedFrontmatter {
+  try {
+    const parsed = matter(content);
+    return { body: parsed.content, data: parsed.data };
+  } catch {
+    // Reported by detection; the whole file is kept as the rule body
+    return { body: content, data: {} };
+  }
+}
+
+// The keys Cursor introduced and most frontmatter-based editors share
+export function readCommonFrontmatter(data: Record<string, any>): Pick<Rule, 'type'> & { description: string; patterns: string[] } {
+  let type: RuleType = 'always';
+  let patterns: string[] = [];
+  if (data.globs) {
+    patterns = Array.isArray(data.globs) ? data.globs : [data.globs];
+    type = 'auto-attached';
+  }
+  if (data.alwaysApply === true) {
+    type = 'always';
+  }
+  return { description: data.description ?? '', type, patterns };
+}
+
+export function createRule(
+  editor: EditorType,
+  filePath: string,
+  rawContent: string,
+  fields: { name?: string; description?: string; content: string; type?: RuleType; patterns?: string[]; section?: string }
+): Rule {
+  return {
+    name: fields.name ?? ruleNameFromPath(filePath),
+    description: fields.description ?? '',
+    content: fields.content.trim(),
+    type: fields.type ?? 'always',
+    ...(fields.patterns && fields.patterns.length > 0 && { patterns: fields.patterns }),
+    source: editor,
+    metadata: {
+      filePath,
+      size: rawContent.length,
+      ...(fields.section && { section: fields.section })
+    }
+  };
+}
+
+export interface FileAdapterSpec {
+  editor: EditorType;
+  parse(content: string, filePath: string): Rule;
+  serialize(rule: Rule): string;
+  frontmatter?: FrontmatterSchema;
+}
+
+// Editors that keep one rule per file in a rules directory
+export function createFileAdapter(spec: FileAdapterSpec): EditorAdapter {
+  const config = getEditorConfig(spec.editor);
+  return {
+    editor: spec.editor,
+    config,
+    singleFile: false,
+    parse: (content, filePath) => [spec.parse(content, filePath)],
+    serialize: spec.serialize,
+    serializeUniversal: rule => spec.serialize(fromUniversalRule(rule, spec.editor)),
+    fileName: rule => `${slugifyRuleName(rule.name)}${config.fileFormats[0] ?? '.md'}`,
+    ...(spec.frontmatter && { frontmatter: spec.frontmatter })
+  };
+}
+
+export const BOOLEAN_VALUES = ['true', 'false'];
+
+// The rule holding whatever a single file says before its first section
+export const PREAMBLE_RULE_NAME = 'preamble';
+
+export function isPreambleRule(rule: Pick<Rule, 'name'>): boolean {
+  return slugifyRuleName(rule.name) === PREAMBLE_RULE_NAME;
+}
+
+// Heading levels single files can be split at; `#` is the file's title
+export const HEADING_LEVELS = [2, 3, 4, 5, 6];
+
+export interface SectionAdapterSpec {
+  editor: EditorType;
+  header: string;
+  headingLevel: number;         // Markdown heading level that starts a section, e.g. 2 for `## name`
+  // crossrule's own delimiter; files containing it are split on it instead of on headings
+  delimiter?: {
+    pattern: RegExp;            // Global, multiline; group 1 captures the section name
+    heading(name: string): string;
+  };
+  prepareFile?(content: string): string;
+}
+
+/**
+ * Editors that keep every rule as a named section of one Markdown file. Each
+ * section becomes a rule, sub-headings included; text above the first section
+ * becomes a `preamble` rule unless it is just the editor's own header.
+ */
+export function createSectionAdapter(spec: SectionAdapterSpec): EditorAdapter {
+  const config = getEditorConfig(spec.editor);
+  const headingPattern = new RegExp(`^#{${spec.headingLevel}} (.+?)[ \\t]*$`, 'gm');
+  const markdownHeading = (name: string) => `${'#'.repeat(spec.headingLevel)} ${name}`;
+  const findDelimited = (content: string) => spec.delimiter ? findSectionsByPattern(content, spec.delimiter.pattern) : [];
+  const findUnmanaged = (content: string) => {
+    const delimited = findDelimited(content);
+    return delimited.length > 0 ? delimited : findSectionsByPattern(content, headingPattern);
+  };
+  const findSections = (content: string): FileSection[] => {
+    const regions = findManagedRegions(content);
+    // Headings inside managed regions belong to them, and hand-written sections stop where a region starts
+    const masked = regions.reduce(
+      (text, region) => text.slice(0, region.start) + text.slice(region.start, region.end).replace(/[^\n]/g, ' ') + text.slice(region.end),
+      content
+    );
+    const unmanaged = findUnmanaged(masked).map(section => {
+      const next = regions.find(region => region.start > section.start);
+      const end = next && next.start < section.end ? next.start : section.end;
+      return { ...section, end, body: content.slice(section.start + section.heading.length, end) };
+    });
+    const managed = regions.map((region): FileSection => {
+      // The preamble region has no heading; any headings in it are part of the introduction
+      const [section] = region.id === PREAMBLE_RULE_NAME ? [] : findUnmanaged(region.inner);
+      return {
+        name: section?.name ?? region.id,
+        start: region.start,
+        end: region.end,
+        heading: section?.heading ?? '',
+        body: section ? region.inner.slice(section.start + section.heading.length) : region.inner,
+        id: region.id
+      };
+    });
+    return [...unmanaged, ...managed].sort((a, b) => a.start - b.start);
+  };
+  // New files use the delimiter when there is one; existing files keep the style they use
+  const sectionHeading = (name: string, content?: string) => {
+    if (!spec.delimiter) return markdownHeading(name);
+    const usesHeadings = content !== undefined && findDelimited(content).length === 0 && findSectionsByPattern(content, headingPattern).length > 0;
+    return usesHeadings ? markdownHeading(name) : spec.delimiter.heading(name);
+  };
+  const serialize = (rule: Rule) => `${sectionHeading(getSectionTitle(rule))}\n\n${rule.content}`;
+
+  const parse = (content: string, filePath: string): Rule[] => {
+    const sections = findSections(content);
+    const preamble = content.slice(0, sections[0]?.start ?? content.length);
+    const createPreamble = (text: string) => createRule(spec.editor, filePath, content, {
+      name: PREAMBLE_RULE_NAME,
+      description: `Introduction from ${config.displayName}`,
+      content: text
+    });
+    const rules = sections
+      .filter(section => section.name && section.body.trim())
+      .map(section => section.id === PREAMBLE_RULE_NAME ? createPreamble(section.body) : createRule(spec.editor, filePath, content, {
+        name: section.name,
+        description: section.name,
+        content: section.body,
+        section: section.name
+      }));
+    return isOwnPreamble(preamble, spec.header) ? rules : [createPreamble(preamble), ...rules];
+  };
+
+  const adapter: EditorAdapter = {
+    editor: spec.editor,
+    config,
+    singleFile: true,
+    parse,
+    serialize,
+    serializeUniversal: rule => serialize(fromUniversalRule(rule, spec.editor)),
+    fileName: () => basename(config.locations[0] ?? 'rules.md'),
+    header: spec.header,
+    findSections,
+    sectionHeading,
+    ...(spec.prepareFile && { prepareFile: spec.prepareFile }),
+    withHeadingLevel: level => level === spec.headingLevel ? adapter : createSectionAdapter({ ...spec, headingLevel: level })
+  };
+  return adapter;
+}
+
+/**
+ * Wraps a section crossrule writes into a single file, so later runs update
+ * only their own regions and leave the text around them alone. Regions are
+ * keyed by the rule's slug, the id `remove`, `rename` and the registry use.
+ */
+export function wrapManagedRegion(id: string, section: string): string {
+  return `<!-- crossrule:begin ${id} -->\n${section.trim()}\n<!-- crossrule:end ${id} -->`;
+}
+
+// Points the markers of a managed region at a new rule id
+export function renameManagedRegion(region: string, id: string): string {
+  return region
+    .replace(/^<!-- crossrule:begin \S+ -->$/m, `<!-- crossrule:begin ${id} -->`)
+    .replace(/^<!-- crossrule:end \S+ -->$/m, `<!-- crossrule:end ${id} -->`);
+}
+
+interface ManagedRegion {
+  id: string;
+  start: number;                // Offset of the begin marker
+  end: number;                  // Offset just after the end marker
+  inner: string;                // The text between the markers
+}
+
+/**
+ * The part of a file crossrule owns: its managed regions, or the whole file when
+ * it has none. Text outside the regions belongs to the user and may change freely.
+ */
+export function getGeneratedContent(content: string): string {
+  const regions = findManagedRegions(content);
+  if (regions.length === 0) return content;
+  return regions.map(region => content.slice(region.start, region.end)).join('\n');
+}
+
+// A begin marker without its end marker, or inside a code block, is left as hand-written text
+function findManagedRegions(content: string): ManagedRegion[] {
+  const regions: ManagedRegion[] = [];
+  const fences = findCodeFences(content);
+  const beginPattern = /^<!-- crossrule:begin (\S+) -->\r?\n/gm;
+  let match: RegExpExecArray | null;
+  while ((match = beginPattern.exec(content)) !== null) {
+    const offset = match.index;
+    if (fences.some(([start, end]) => offset > start && offset < end)) continue;
+    const id = match[1] ?? '';
+    const innerStart = match.index + match[0].length;
+    const endMarker = `<!-- crossrule:end ${id} -->`;
+    const endIndex = content.indexOf(endMarker, innerStart);
+    if (endIndex === -1) continue;
+    regions.push({ id, start: match.index, end: endIndex + endMarker.length, inner: content.slice(innerStart, endIndex) });
+    beginPattern.lastIndex = endIndex + endMarker.length;
+  }
+  return regions;
+}
+
+// Multi-file editors name rules after their file, so "Code Style" comes back as code-style.
+// Sections keep the heading as description, which restores the original spelling.
+function getSectionTitle(rule: Rule): string {
+  const description = rule.description?.trim();
+  return description && slugifyRuleName(description) === slugifyRuleName(rule.name) ? description : rule.name;
+}
+
+// Nothing but our header, titles and blank lines is no instruction worth keeping as a rule
+function isOwnPreamble(preamble: string, header: string): boolean {
+  const text = preamble.trim();
+  return text === header.trim() || text.split('\n').every(line => !line.trim() || /^#{1,6}\s/.test(line));
+}
+
+function findSectionsByPattern(content: string, pattern: RegExp): FileSection[] {
+  // A heading inside a fenced code block is an example, not a section
+  const fences = findCodeFences(content);
+  const matches = Array.from(content.matchAll(pattern))
+    .filter(match => !fences.some(([start, end]) => (match.index ?? 0) > start && (match.index ?? 0) < end));
+
+  return matches.map((match, index) => {
+    const start = match.index ?? 0;
+    const end = matches[index + 1]?.index ?? content.length;
+    const heading = match[0];
+    return {
+      name: match[1]?.trim() ?? '',
+      start,
+      end,
+      heading,
+      body: content.slice(start + heading.length, end)
+    };
+  });
+}
+
+// Offsets of each ``` or ~~~ block, from its opening fence to its closing one (or the end of the file)
+export function findCodeFences(content: string): [number, number][] {
+  const fences: [number, number][] = [];
+  let open: { offset: number; marker: string } | null = null;
+  let offset = 0;
+  for (const line of content.split('\n')) {
+    const marker = /^\s*(`{3,}|~{3,})/.exec(line)?.[1];
+    if (marker && !open) {
+      open = { offset, marker };
+    } else if (marker && open && marker.startsWith(open.marker.charAt(0)) && marker.length >= open.marker.length) {
+      fences.push([open.offset, offset + line.length]);
+      open = null;
+    }
+    offset += line.length + 1;
+  }
+  if (open) fences.push([open.offset, content.length]);
+  return fences;
+}
@@ -0,0 +1,26 @@
+import matter from 'gray-matter';
+import { BOOLEAN_VALUES, createFileAdapter, createRule, describeRule, readCommonFrontmatter, readFrontmatter } from './shared.js';
+
+// .trae/rules/*.md: Cursor-style frontmatter with comma-separated globs
+export const traeAdapter = createFileAdapter({
+  editor: 'trae',
+  frontmatter: {
+    keys: ['description', 'globs', 'alwaysApply'],
+    patternsKey: 'globs',
+    values: { alwaysApply: BOOLEAN_VALUES }
+  },
+  parse: (content, filePath) => {
+    const { body, data } = readFrontmatter(content);
+    return createRule('trae', filePath, content, { ...readCommonFrontmatter(data), content: body });
+  },
+  serialize: rule => {
+    const frontmatter: Record<string, unknown> = { description: describeRule(rule, 'trae') };
+    if (rule.type === 'always') {
+      frontmatter.alwaysApply = true;
+    }
+    if (rule.patterns) {
+      frontmatter.globs = rule.patterns.join(',');
+    }
+    return matter.stringify(rule.content, frontmatter);
+  }
+});
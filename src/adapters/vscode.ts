@@ -0,0 +1,24 @@
+import matter from 'gray-matter';
+import { createFileAdapter, createRule, describeRule, readCommonFrontmatter, readFrontmatter } from './shared.js';
+
+// .github/instructions/*.md: `applyTo` scopes an instruction file to a glob
+export const vscodeAdapter = createFileAdapter({
+  editor: 'vscode',
+  frontmatter: { keys: ['description', 'applyTo'], patternsKey: 'applyTo' },
+  parse: (content, filePath) => {
+    const { body, data } = readFrontmatter(content);
+    const fields = readCommonFrontmatter(data);
+    if (typeof data.applyTo === 'string' && data.applyTo.trim()) {
+      fields.patterns = data.applyTo.split(',').map((pattern: string) => pattern.trim()).filter(Boolean);
+      fields.type = 'glob-pattern';
+    }
+    return createRule('vscode', filePath, content, { ...fields, content: body });
+  },
+  serialize: rule => {
+    const frontmatter: Record<string, unknown> = { description: describeRule(rule, 'vscode') };
+    if (rule.patterns) {
+      frontmatter.applyTo = rule.patterns.join(',');
+    }
+    return matter.stringify(rule.content, frontmatter);
+  }
+});
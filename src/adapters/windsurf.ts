@@ -0,0 +1,56 @@
+import matter from 'gray-matter';
+import { RuleType } from '../types/index.js';
+import { createFileAdapter, createRule, describeRule, isPatternRule, readCommonFrontmatter, readFrontmatter } from './shared.js';
+
+const TRIGGER_TO_RULE_TYPE: Record<string, RuleType> = {
+  always_on: 'always',
+  manual: 'manual',
+  model_decision: 'model-decision',
+  glob: 'glob-pattern'
+};
+
+// .windsurf/rules/*.md: a `trigger` picks the activation mode; Cursor-style keys and `filesToApplyRule` in older files
+export const windsurfAdapter = createFileAdapter({
+  editor: 'windsurf',
+  frontmatter: {
+    keys: ['description', 'globs', 'filesToApplyRule', 'trigger'],
+    patternsKey: 'globs',
+    values: { trigger: Object.keys(TRIGGER_TO_RULE_TYPE) }
+  },
+  parse: (content, filePath) => {
+    const { body, data } = readFrontmatter(content);
+    const fields = readCommonFrontmatter(data);
+    if (data.filesToApplyRule) {
+      fields.patterns = [data.filesToApplyRule];
+      fields.type = 'glob-pattern';
+    }
+    const triggerType = TRIGGER_TO_RULE_TYPE[data.trigger];
+    if (triggerType) {
+      fields.type = triggerType;
+    }
+    return createRule('windsurf', filePath, content, { ...fields, content: body });
+  },
+  serialize: rule => {
+    const frontmatter: Record<string, unknown> = { trigger: toWindsurfTrigger(rule.type), description: describeRule(rule, 'windsurf') };
+    if (isPatternRule(rule) && rule.patterns) {
+      frontmatter.globs = rule.patterns.join(',');
+    }
+    return matter.stringify(rule.content, frontmatter);
+  }
+});
+
+function toWindsurfTrigger(ruleType: RuleType): string {
+  switch (ruleType) {
+    case 'model-decision':
+    case 'agent-requested':
+      return 'model_decision';
+    case 'manual':
+      return 'manual';
+    case 'auto-attached':
+    case 'glob-pattern':
+    case 'specific-files':
+      return 'glob';
+    default:
+      return 'always_on';
+  }
+}
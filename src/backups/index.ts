@@ -0,0 +1,106 @@
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import { basename, dirname, join, relative, resolve } from 'path';
+import { BackupEntry, BackupManifest, PlannedFile } from '../types/index.js';
+
+export const BACKUPS_DIR = '.crossrule/backups';
+const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Snapshots the on-disk state of every file a plan is about to create or modify.
+ * Returns null when the plan would not touch anything.
+ */
+export async function createBackup(
+  files: PlannedFile[],
+  projectPath = '.',
+  command = 'convert'
+): Promise<BackupManifest | null> {
+  const changed = files.filter(file => file.status !== 'unchanged');
+  if (changed.length === 0) return null;
+
+  const createdAt = new Date();
+  const id = createRunId(createdAt);
+  const runDir = resolve(projectPath, BACKUPS_DIR, id);
+  const entries: BackupEntry[] = [];
+
+  await fs.mkdir(join(runDir, 'files'), { recursive: true });
+
+  for (const [index, file] of changed.entries()) {
+    const entry: BackupEntry = {
+      path: relative(resolve(projectPath), resolve(file.path)),
+      existed: file.previousContent !== null,
+      ...(file.status === 'delete' && { deleted: true })
+    };
+
+    if (file.previousContent !== null) {
+      // Flat, indexed names keep snapshots of files outside the project root inside the run directory
+      entry.backupFile = join('files', `${index}-${basename(file.path)}`);
+      await fs.writeFile(join(runDir, entry.backupFile), file.previousContent, 'utf8');
+    }
+
+    entries.push(entry);
+  }
+
+  const manifest: BackupManifest = {
+    id,
+    createdAt: createdAt.toISOString(),
+    command,
+    files: entries
+  };
+  await fs.writeFile(join(runDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2), 'utf8');
+
+  return manifest;
+}
+
+// Newest first
+export async function listBackups(projectPath = '.'): Promise<BackupManifest[]> {
+  const backupsDir = resolve(projectPath, BACKUPS_DIR);
+  if (!existsSync(backupsDir)) return [];
+
+  const manifests: BackupManifest[] = [];
+  for (const runId of await fs.readdir(backupsDir)) {
+    const manifestPath = join(backupsDir, runId, MANIFEST_FILE);
+    if (!existsSync(manifestPath)) continue;
+    try {
+      manifests.push(JSON.parse(await fs.readFile(manifestPath, 'utf8')) as BackupManifest);
+    } catch {
+      // Ignore partially written or hand-edited manifests
+    }
+  }
+
+  return manifests.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getBackup(projectPath = '.', runId?: string): Promise<BackupManifest | null> {
+  const backups = await listBackups(projectPath);
+  if (!runId) return backups[0] ?? null;
+  return backups.find(backup => backup.id === runId) ?? null;
+}
+
+/**
+ * Puts every file recorded in a run back to its pre-run state: snapshots are
+ * restored and files the run created are deleted. The run is removed afterwards
+ * so the next undo steps further back.
+ */
+export async function restoreBackup(manifest: BackupManifest, projectPath = '.'): Promise<BackupEntry[]> {
+  const runDir = resolve(projectPath, BACKUPS_DIR, manifest.id);
+
+  for (const entry of manifest.files) {
+    const targetPath = resolve(projectPath, entry.path);
+    if (entry.existed && entry.backupFile) {
+      const previousContent = await fs.readFile(join(runDir, entry.backupFile), 'utf8');
+      await fs.mkdir(dirname(targetPath), { recursive: true });
+      await fs.writeFile(targetPath, previousContent, 'utf8');
+    } else {
+      await fs.rm(targetPath, { force: true });
+    }
+  }
+
+  await fs.rm(runDir, { recursive: true, force: true });
+  return manifest.files;
+}
+
+function createRunId(date: Date): string {
+  // 2025-01-18T10:22:33.123Z -> 2025-01-18T10-22-33-123Z (safe as a directory name)
+  return date.toISOString().replace(/[:.]/g, '-');
+}
@@ -0,0 +1,67 @@
+import { resolve } from 'path';
+import { ConvertRulesOptions, DriftedFile, DriftResult, EditorType, Rule } from '../types/index.js';
+import { convertRules } from '../converters/index.js';
+import { createPlannedFileDiff } from '../plan/index.js';
+import { getEditorConfig } from '../utils/index.js';
+
+export type CheckDriftOptions = Pick<ConvertRulesOptions, 'onUnsupported' | 'onSizeLimit' | 'outputs' | 'emitImportsAbove' | 'headingLevel'>;
+
+/**
+ * Plans the conversion of `rules` to every target, exactly as `convertRules`
+ * would, and reports generated files that are missing on disk or differ from
+ * the planned content. Differences in whitespace alone (line endings, trailing
+ * spaces, blank lines) don't count. Nothing is written.
+ */
+export async function checkDrift(
+  rules: Rule[],
+  source: EditorType,
+  targets: EditorType[],
+  projectPath = '.',
+  options: CheckDriftOptions = {}
+): Promise<DriftResult> {
+  const result = await convertRules(rules, targets.map(editor => getEditorConfig(editor).displayName), projectPath, {
+    ...options,
+    dryRun: true
+  });
+
+  const editorsByFile = new Map<string, EditorType[]>();
+  for (const [editor, files] of Object.entries(result.perEditorOutputFiles ?? {}) as [EditorType, string[]][]) {
+    for (const file of files) {
+      editorsByFile.set(resolve(file), [...(editorsByFile.get(resolve(file)) ?? []), editor]);
+    }
+  }
+
+  const drifted: DriftedFile[] = [];
+  const plannedFiles = result.plannedFiles ?? [];
+  for (const file of plannedFiles) {
+    const previousContent = file.previousContent === null ? null : normalizeWhitespace(file.previousContent);
+    const content = normalizeWhitespace(file.content);
+    if (previousContent === content) continue;
+    drifted.push({
+      path: file.path,
+      editors: editorsByFile.get(resolve(file.path)) ?? [],
+      status: previousContent === null ? 'missing' : 'outdated',
+      // Diffed after normalising so whitespace-only lines don't bury the real change
+      diff: createPlannedFileDiff({ ...file, previousContent, content })
+    });
+  }
+
+  return {
+    source,
+    targets,
+    rules: rules.length,
+    checked: plannedFiles.length,
+    drifted,
+    errors: result.errors
+  };
+}
+
+// Blank lines are dropped entirely, so adding or removing one between sections isn't drift
+function normalizeWhitespace(content: string): string {
+  return content
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .filter(line => line !== '')
+    .join('\n') + '\n';
+}
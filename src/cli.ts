@@ -2,54 +2,290 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { initCommand, addCommand } from './commands/index.js';
+import {
+  initCommand,
+  addCommand,
+  convertCommand,
+  undoCommand,
+  backupsListCommand,
+  listCommand,
+  showCommand,
+  removeCommand,
+  renameCommand,
+  syncCommand,
+  syncWatchCommand,
+  configShowCommand,
+  verifyCommand,
+  doctorCommand,
+  checkCommand,
+  conflictsCommand,
+  pluginsListCommand
+} from './commands/index.js';
+import { loadPlugins } from './plugins/index.js';
+import { enableJsonOutput, isJsonOutput, writeJsonOutput } from './commands/output.js';
 
 const program = new Command();
 
 program
   .name('crossrule')
   .description('Convert AI editor rules between different formats')
-  .version('1.0.3', '-v, --version', 'Display version number');
+  .version('1.0.3', '-v, --version', 'Display version number')
+  .option('--json', 'Print a single JSON document instead of formatted output; never prompts', false);
+
+// Editors from adapter plugins must be registered before any command looks up editors
+program.hook('preAction', async (_program, actionCommand) => {
+  if (program.opts().json) {
+    enableJsonOutput();
+  }
+  try {
+    const plugins = await loadPlugins(actionCommand.opts().project ?? '.');
+    if (actionCommand.parent?.name() === 'plugins') return;
+    for (const plugin of plugins.filter(plugin => plugin.error)) {
+      console.error(chalk.yellow(`Warning: adapter plugin ${plugin.from} was not loaded: ${plugin.error}`));
+    }
+  } catch {
+    // An unreadable config is reported by the command itself
+  }
+});
+
+/**
+ * Runs a command action and reports how it went: a failure prints `errorLabel`
+ * with the message, and with --json the result (or the error) becomes the single
+ * JSON document on stdout. `check` decides whether a returned result failed.
+ */
+async function run<T>(
+  command: string,
+  errorLabel: string,
+  action: () => Promise<T>,
+  check: (result: T) => { success: boolean; errors: string[] } = result => ({
+    success: (result as { success?: boolean } | null)?.success !== false,
+    errors: (result as { errors?: string[] } | null)?.errors ?? []
+  })
+): Promise<void> {
+  let result: T;
+  try {
+    result = await action();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (isJsonOutput()) {
+      writeJsonOutput({ command, success: false, data: null, errors: [message] });
+    } else {
+      console.error(chalk.red(errorLabel));
+      console.error(chalk.red(message));
+    }
+    // exitCode instead of exit() so a JSON document piped to another process is flushed first
+    process.exitCode = 1;
+    return;
+  }
+
+  const { success, errors } = check(result);
+  if (isJsonOutput()) {
+    writeJsonOutput({ command, success, data: result, errors });
+  }
+  if (!success) {
+    process.exitCode = 1;
+  }
+}
 
 program
   .command('init')
   .description('Detect existing rules and convert to other AI editors')
-  .action(async () => {
-    try {
-      await initCommand();
-    } catch (error) {
-      console.error(chalk.red('Error during initialization:'));
-      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
-      process.exit(1);
-    }
-  });
+  .option('--from <editor>', 'Source editor, instead of choosing one (with --json: default config sourceOfTruth)')
+  .option('--to <editors>', 'Target editors (comma-separated ids or names) or "all", instead of choosing them (with --json: default config targets)')
+  .option('-y, --yes', 'Convert without asking for confirmation', false)
+  .option('--dry-run', 'Show a diff of every file that would be written without touching the filesystem', false)
+  .option('--no-backup', 'Do not snapshot overwritten files into .crossrule/backups')
+  .option('--on-conflict <policy>', 'Hand-edited targets: prompt, skip, overwrite or keep-both')
+  .option('--on-unsupported <policy>', 'Rule types a target lacks: skip, downgrade-to-always, embed-as-text or error')
+  .option('--on-size-limit <policy>', 'Output over a target\'s size limits: warn or error')
+  .option('--merge', 'Merge the rules of every detected editor instead of choosing one', false)
+  .option('--on-duplicate <policy>', 'Duplicate rules when merging: prompt, keep-first, keep-both or combine')
+  .action((options) => run('init', 'Error during initialization:', () => initCommand(options), ({ result }) => ({
+    success: result?.success !== false,
+    errors: result?.errors ?? []
+  })));
 
 program
   .command('add')
   .description('Add a new rule to specified AI editors')
   .argument('[content]', 'Rule content (or use --from-file)')
-  .option('-t, --type <type>', 'Rule type: always, pattern, manual, ai-decision', 'always')
+  .option('-t, --type <type>', 'Rule type: always, pattern, manual, ai-decision (default: config defaultRuleType or always)')
   .option('-p, --patterns <patterns>', 'File patterns (comma-separated) for pattern-based rules')
   .option('-c, --context <context>', 'Context description for AI-decision rules')  
   .option('-d, --description <description>', 'Rule description')
-  .option('--to <editors>', 'Target editors (comma-separated) or "all"', 'all')
+  .option('--to <editors>', 'Target editors (comma-separated) or "all" (default: config targets or all)')
   .option('-f, --from-file <file>', 'Read rule content from file')
   .option('-n, --name <name>', 'Rule name (auto-generated if not provided)')
   .option('--preserve-markdown', 'Preserve markdown formatting', false)
   .option('--author <author>', 'Rule author name')
-  .action(async (content, options) => {
-    try {
-      await addCommand(content, options);
-    } catch (error) {
-      console.error(chalk.red('Error adding rule:'));
-      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
-      process.exit(1);
+  .option('-y, --yes', 'Add the rule without asking for confirmation', false)
+  .option('--dry-run', 'Show a diff of every file that would be written without touching the filesystem', false)
+  .option('--no-backup', 'Do not snapshot overwritten files into .crossrule/backups')
+  .option('--on-conflict <policy>', 'Hand-edited targets: prompt, skip, overwrite or keep-both')
+  .option('--on-unsupported <policy>', 'Rule types a target lacks: skip, downgrade-to-always, embed-as-text or error')
+  .action((content, options) => run('add', 'Error adding rule:', () => addCommand(content, options)));
+
+program
+  .command('convert')
+  .description('Convert rules from one editor to others without prompts')
+  .option('--from <editor>', 'Source editor, e.g. cursor or claude-code (default: config sourceOfTruth)')
+  .option('--to <editors>', 'Target editors (comma-separated ids or names) or "all" (default: config targets or all)')
+  .option('--project <path>', 'Project directory to read rules from', '.')
+  .option('-o, --output <path>', 'Directory to write converted rules to (defaults to the project directory)')
+  .option('--dry-run', 'Show a diff of every file that would be written without touching the filesystem', false)
+  .option('--no-backup', 'Do not snapshot overwritten files into .crossrule/backups')
+  .option('--on-conflict <policy>', 'Hand-edited targets: prompt, skip, overwrite or keep-both')
+  .option('--on-unsupported <policy>', 'Rule types a target lacks: skip, downgrade-to-always, embed-as-text or error')
+  .option('--on-size-limit <policy>', 'Output over a target\'s size limits: warn or error')
+  .option('--imports <mode>', 'CLAUDE.md @path imports: inline into the importing rule, or separate rules')
+  .option('--emit-imports-above <bytes>', 'Write Claude Code rules larger than this to their own file, imported with @')
+  .option('--heading-level <level>', 'Heading level of sections in CLAUDE.md, AGENTS.md and QWEN.md, e.g. 3 for ### (default: config headingLevel or 2)')
+  .action((options) => run('convert', 'Error during conversion:', () => convertCommand(options), ({ result }) => ({
+    success: result.success && result.errors.length === 0,
+    errors: result.errors
+  })));
+
+program
+  .command('list')
+  .description('List rules stored in the .crossrule registry')
+  .option('-e, --editor <editor>', 'Only rules targeting this editor')
+  .option('-t, --type <type>', 'Only rules of this type: always, pattern, manual, ai-decision')
+  .action((options) => run('list', 'Error listing rules:', () => listCommand(options)));
+
+program
+  .command('show')
+  .description('Show a rule from the .crossrule registry')
+  .argument('<name-or-id>', 'Rule name, slug or id')
+  .action((nameOrId) => run('show', 'Error showing rule:', () => showCommand(nameOrId)));
+
+program
+  .command('remove')
+  .description('Remove a rule from every editor and the registry')
+  .argument('<name>', 'Rule name')
+  .option('--project <path>', 'Project directory holding the rules', '.')
+  .option('--dry-run', 'Show a diff of every file that would change without touching the filesystem', false)
+  .option('-y, --yes', 'Skip the confirmation prompt', false)
+  .option('--no-backup', 'Do not snapshot changed files into .crossrule/backups')
+  .action((name, options) => run('remove', 'Error removing rule:', () => removeCommand(name, options)));
+
+program
+  .command('rename')
+  .description('Rename a rule in every editor and the registry')
+  .argument('<old-name>', 'Current rule name')
+  .argument('<new-name>', 'New rule name')
+  .option('--project <path>', 'Project directory holding the rules', '.')
+  .option('--dry-run', 'Show a diff of every file that would change without touching the filesystem', false)
+  .option('-y, --yes', 'Skip the confirmation prompt', false)
+  .option('--no-backup', 'Do not snapshot changed files into .crossrule/backups')
+  .action((oldName, newName, options) => run('rename', 'Error renaming rule:', () => renameCommand(oldName, newName, options)));
+
+program
+  .command('sync')
+  .description('Propagate rule changes between editors since the last sync')
+  .option('-s, --strategy <strategy>', 'source-of-truth or bidirectional (default: bidirectional, or source-of-truth with --source)')
+  .option('--source <editor>', 'Source-of-truth editor whose rules always win')
+  .option('-e, --editors <editors>', 'Comma-separated editors to keep in sync (default: every editor with rules)')
+  .option('--prefer <editor>', 'Resolve conflicts by keeping this editor\'s version')
+  .option('-r, --rule <name>', 'Only sync this rule')
+  .option('--dry-run', 'Show a diff of every file that would change without touching the filesystem', false)
+  .option('--no-backup', 'Do not snapshot changed files into .crossrule/backups')
+  .option('-w, --watch', 'Keep running and sync whenever a rule file changes', false)
+  .option('--heading-level <level>', 'Heading level of sections in CLAUDE.md, AGENTS.md and QWEN.md, e.g. 3 for ### (default: config headingLevel or 2)')
+  .action((options) => run('sync', 'Error during sync:', async () => {
+    if (options.watch) {
+      await syncWatchCommand(options);
+      return null;
     }
-  });
+    return syncCommand(options);
+  }, result => ({
+    success: result === null || (result.success && result.conflicts.length === 0),
+    errors: result?.errors ?? []
+  })));
+
+program
+  .command('verify')
+  .description('Convert a rule set between every pair of editors and report which fields survive')
+  .option('--from <editor>', 'Editor whose rules to verify (default: config sourceOfTruth or the editor with most rules)')
+  .option('--sources <editors>', 'Only verify conversions from these editors (comma-separated)')
+  .option('--targets <editors>', 'Only verify conversions to these editors (comma-separated)')
+  .option('--project <path>', 'Project directory to read rules from', '.')
+  .option('--details', 'List every changed or dropped field', false)
+  .action((options) => run('verify', 'Error during verification:', () => verifyCommand(options)));
+
+program
+  .command('doctor')
+  .description('Check existing rule files for broken frontmatter, misspelled keys and rules their editor would ignore')
+  .option('--project <path>', 'Project directory to check', '.')
+  .option('-e, --editors <editors>', 'Only check these editors (comma-separated)')
+  .action((options) => run('doctor', 'Error running doctor:', () => doctorCommand(options), result => ({
+    success: result.diagnostics.every(diagnostic => diagnostic.severity !== 'error'),
+    errors: []
+  })));
+
+program
+  .command('check')
+  .description('Fail when generated rule files no longer match the source of truth; writes nothing')
+  .option('--from <editor>', 'Source editor (default: config sourceOfTruth)')
+  .option('--to <editors>', 'Target editors to check (comma-separated, default: config targets or all)')
+  .option('--project <path>', 'Project directory to check', '.')
+  .option('--emit-imports-above <bytes>', 'Expect Claude Code rules larger than this in their own file, as convert writes them')
+  .option('--heading-level <level>', 'Heading level of sections in CLAUDE.md, AGENTS.md and QWEN.md, e.g. 3 for ### (default: config headingLevel or 2)')
+  .action((options) => run('check', 'Error checking rule files:', () => checkCommand(options), result => ({
+    success: result.drifted.length === 0 && result.errors.length === 0,
+    errors: result.errors
+  })));
+
+program
+  .command('conflicts')
+  .description('Find rules that contradict each other across editors, e.g. tabs vs 2-space indentation')
+  .option('--project <path>', 'Project directory to analyse', '.')
+  .option('-e, --editors <editors>', 'Only analyse rules from these editors (comma-separated)')
+  .action((options) => run('conflicts', 'Error analysing rules:', () => conflictsCommand(options), result => ({
+    success: result.conflicts.length === 0,
+    errors: []
+  })));
+
+const config = program
+  .command('config')
+  .description('Inspect crossrule.config settings');
+
+config
+  .command('show')
+  .description('Print the effective settings merged from the user and project config')
+  .option('--project <path>', 'Project directory to read the config from', '.')
+  .action((options) => run('config show', 'Error reading config:', () => configShowCommand(options)));
+
+program
+  .command('undo')
+  .description('Restore the files changed by a previous run (defaults to the latest)')
+  .argument('[run-id]', 'Backup run id (see `crossrule backups list`)')
+  .option('--project <path>', 'Project directory containing .crossrule/backups', '.')
+  .option('-y, --yes', 'Restore without asking for confirmation', false)
+  .action((runId, options) => run('undo', 'Error during undo:', () => undoCommand(runId, options)));
+
+const backups = program
+  .command('backups')
+  .description('Inspect backups taken before crossrule overwrote files');
+
+backups
+  .command('list')
+  .description('List backup runs, newest first')
+  .option('--project <path>', 'Project directory containing .crossrule/backups', '.')
+  .action((options) => run('backups list', 'Error listing backups:', () => backupsListCommand(options)));
+
+const plugins = program
+  .command('plugins')
+  .description('Inspect editor adapter plugins');
+
+plugins
+  .command('list')
+  .description('List the adapter plugins that were loaded and where they came from')
+  .option('--project <path>', 'Project directory whose node_modules and config are searched', '.')
+  .action((options) => run('plugins list', 'Error listing plugins:', () => pluginsListCommand(options)));
 
 // Legacy support - if no command is provided, default to init
 if (process.argv.length === 2) {
   process.argv.push('init');
 }
 
-program.parse();
\ No newline at end of file
+await program.parseAsync();
\ No newline at end of file
@@ -1,50 +1,68 @@
 import fs from 'fs/promises';
-import crypto from 'crypto';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
 import { UniversalRule, AddRuleOptions, AddRuleResult, EditorType, UniversalRuleType } from '../types/index.js';
-import { convertUniversalRule } from '../converters/universal.js';
+import { addUniversalRule, createUniversalRule } from '../converters/universal.js';
+import { getAllEditorTypes } from '../utils/index.js';
+import { loadRegistry } from '../registry/index.js';
+import { loadConfig, getDefaultTargets } from '../config/index.js';
+import { canPrompt, requireInteractive } from './output.js';
+import {
+  displayWritePlan,
+  displayFileReports,
+  displayConversionWarnings,
+  displayRegistryWarnings,
+  parseConflictPolicy,
+  parseUnsupportedPolicy,
+  promptConflictDecision
+} from './preview.js';
 
-export async function addCommand(content?: string, options: any = {}): Promise<void> {
+// Returns null when the rule was not confirmed; invalid options throw
+export async function addCommand(content?: string, options: any = {}): Promise<AddRuleResult | null> {
   console.log(chalk.cyan.bold('\nAdding new rule to AI editors...'));
   
   // Parse and validate options
   const addOptions = await parseAddOptions(content, options);
   
-  if (!addOptions) {
-    console.log(chalk.yellow('Operation cancelled.'));
-    return;
-  }
-  
-  // Create the universal rule
-  const universalRule = await createUniversalRule(addOptions);
+  // Create the universal rule; re-adding a rule with the same name updates its registry entry
+  const registry = await loadRegistry();
+  displayRegistryWarnings(registry.warnings);
+  const universalRule = createUniversalRule(addOptions, registry.rules);
   
-  // Show preview and get confirmation
-  const shouldProceed = await showPreviewAndConfirm(universalRule);
+  // Show preview and get confirmation (a dry run writes nothing)
+  const shouldProceed = await showPreviewAndConfirm(universalRule, !addOptions.dryRun && !options.yes);
   
   if (!shouldProceed) {
     console.log(chalk.yellow('Operation cancelled.'));
-    return;
+    return null;
   }
   
   // Convert and write to target editors
-  const result = await addRuleToEditors(universalRule);
+  console.log(chalk.blue('\nConverting rule to editor formats...'));
+  universalRule.targetEditors.forEach(editor => console.log(`  ${chalk.gray('→')} ${editor}`));
+  const result = await addUniversalRule(universalRule, { ...addOptions, resolveConflict: promptConflictDecision });
   
   // Display results
+  if (addOptions.dryRun && result.success) {
+    displayWritePlan(result.plannedFiles ?? []);
+    displayConversionWarnings(result.warnings);
+    return result;
+  }
   displayResults(result);
+  return result;
 }
 
-async function parseAddOptions(content?: string, options: any = {}): Promise<AddRuleOptions | null> {
+async function parseAddOptions(content?: string, options: any = {}): Promise<AddRuleOptions> {
   const addOptions: Partial<AddRuleOptions> = {};
+  const { config } = await loadConfig();
   
   // Validate rule type
   const validTypes: UniversalRuleType[] = ['always', 'pattern', 'manual', 'ai-decision'];
-  if (!validTypes.includes(options.type)) {
-    console.error(chalk.red(`Invalid rule type: ${options.type}`));
-    console.error(chalk.gray(`Valid types: ${validTypes.join(', ')}`));
-    return null;
+  const type = options.type ?? config.defaultRuleType ?? 'always';
+  if (!validTypes.includes(type)) {
+    throw new Error(`Invalid rule type: ${type}\nValid types: ${validTypes.join(', ')}`);
   }
-  addOptions.type = options.type;
+  addOptions.type = type;
   
   // Get content from various sources
   if (options.fromFile) {
@@ -52,47 +70,48 @@ async function parseAddOptions(content?: string, options: any = {}): Promise<Add
       addOptions.content = await fs.readFile(options.fromFile, 'utf8');
       console.log(chalk.gray(`Read content from: ${options.fromFile}`));
     } catch (error) {
-      console.error(chalk.red(`Cannot read file: ${options.fromFile}`));
-      return null;
+      throw new Error(`Cannot read file: ${options.fromFile}`);
     }
   } else if (content) {
     addOptions.content = content;
   } else {
     // Interactive content input
+    requireInteractive('Pass the rule content as an argument or with --from-file');
     const { ruleContent } = await inquirer.prompt({
       type: 'editor',
       name: 'ruleContent',
       message: 'Enter rule content (opens editor):',
-      default: `# New ${options.type} Rule\n\nEnter your rule content here...`
+      default: `# New ${type} Rule\n\nEnter your rule content here...`
     });
     addOptions.content = ruleContent;
   }
   
   if (!addOptions.content?.trim()) {
-    console.error(chalk.red('Rule content cannot be empty'));
-    return null;
+    throw new Error('Rule content cannot be empty');
   }
   
-  // Parse target editors
-  if (options.to === 'all') {
+  // Parse target editors; without --to, the configured targets (minus exclusions) apply
+  const defaultTargets = getDefaultTargets(config);
+  if (options.to === 'all' || (!options.to && defaultTargets.length === getAllEditorTypes().length)) {
     addOptions.targetEditors = 'all';
+  } else if (!options.to) {
+    addOptions.targetEditors = defaultTargets;
   } else {
     const editorNames = options.to.split(',').map((e: string) => e.trim());
-    const validEditors: EditorType[] = ['cursor', 'windsurf', 'cline', 'vscode', 'codex', 'claude-code', 'qoder', 'trae', 'qwencoder'];
-    const invalidEditors = editorNames.filter((name: string) => !validEditors.includes(name as EditorType));
+    const validEditors = getAllEditorTypes();
+    const invalidEditors = editorNames.filter((name: string) => !validEditors.includes(name));
     
     if (invalidEditors.length > 0) {
-      console.error(chalk.red(`Invalid editors: ${invalidEditors.join(', ')}`));
-      console.error(chalk.gray(`Valid editors: ${validEditors.join(', ')}`));
-      return null;
+      throw new Error(`Invalid editors: ${invalidEditors.join(', ')}\nValid editors: ${validEditors.join(', ')}`);
     }
     
     addOptions.targetEditors = editorNames as EditorType[];
   }
   
   // Handle type-specific options
-  if (options.type === 'pattern') {
+  if (type === 'pattern') {
     if (!options.patterns) {
+      requireInteractive('Pass --patterns for pattern rules');
       const { patterns } = await inquirer.prompt({
         type: 'input',
         name: 'patterns',
@@ -106,7 +125,7 @@ async function parseAddOptions(content?: string, options: any = {}): Promise<Add
     }
   }
   
-  if (options.type === 'ai-decision' && !options.context) {
+  if (type === 'ai-decision' && !options.context && canPrompt()) {
     const { context } = await inquirer.prompt({
       type: 'input',
       name: 'context',
@@ -122,66 +141,24 @@ async function parseAddOptions(content?: string, options: any = {}): Promise<Add
   addOptions.name = options.name;
   addOptions.description = options.description;
   addOptions.preserveMarkdown = options.preserveMarkdown;
-  addOptions.author = options.author;
-  
-  return addOptions as AddRuleOptions;
-}
-
-async function createUniversalRule(options: AddRuleOptions): Promise<UniversalRule> {
-  const id = crypto.randomUUID();
-  const timestamp = new Date();
-  const contentHash = crypto.createHash('sha256').update(options.content ?? '').digest('hex').substring(0, 16);
-  const lineCount = (options.content || '').split('\\n').length;
-  
-  // Auto-generate name if not provided
-  let name = options.name;
-  if (!name) {
-    const firstLine = options.content?.split('\\n')[0]?.replace(/^#\\s*/, '').trim() || '';
-    if (firstLine && firstLine.length < 50) {
-      name = firstLine;
-    } else {
-      name = `${options.type}-rule-${timestamp.getTime().toString().slice(-6)}`;
-    }
+  addOptions.author = options.author ?? config.author;
+  addOptions.dryRun = options.dryRun;
+  addOptions.createBackup = options.backup !== false && config.policies?.backup !== false;
+  addOptions.onConflict = parseConflictPolicy(options.onConflict) ?? config.policies?.onConflict ?? 'prompt';
+  addOptions.onUnsupported = parseUnsupportedPolicy(options.onUnsupported) ?? config.policies?.onUnsupported ?? 'downgrade-to-always';
+  addOptions.onSizeLimit = config.policies?.onSizeLimit ?? 'warn';
+  if (config.outputs) {
+    addOptions.outputs = config.outputs;
   }
-  
-  // Resolve target editors
-  let targetEditors: EditorType[];
-  if (options.targetEditors === 'all') {
-    targetEditors = ['cursor', 'windsurf', 'cline', 'vscode', 'codex', 'claude-code', 'qoder', 'trae', 'qwencoder'];
-  } else {
-    targetEditors = options.targetEditors;
+  if (config.headingLevel !== undefined) {
+    addOptions.headingLevel = config.headingLevel;
   }
   
-  const universalRule: UniversalRule = {
-    id,
-    name,
-    type: options.type,
-    content: options.content || '',
-    ...(options.patterns && { patterns: options.patterns }),
-    ...(options.context && { context: options.context }),
-    ...(options.description && { description: options.description }),
-    formatting: {
-      preserveMarkdown: options.preserveMarkdown || false,
-      preserveLineBreaks: true,
-      indentationStyle: 'spaces',
-      indentationSize: 2
-    },
-    metadata: {
-      created: timestamp,
-      updated: timestamp,
-      ...(options.author && { author: options.author }),
-      version: 1,
-      contentHash,
-      lineCount
-    },
-    targetEditors
-  };
-  
-  return universalRule;
+  return addOptions as AddRuleOptions;
 }
 
-async function showPreviewAndConfirm(rule: UniversalRule): Promise<boolean> {
-  console.log(chalk.green.bold('\\nRule Preview:'));
+async function showPreviewAndConfirm(rule: UniversalRule, askConfirmation = true): Promise<boolean> {
+  console.log(chalk.green.bold('\nRule Preview:'));
   console.log(`${chalk.cyan('Name:')} ${rule.name}`);
   console.log(`${chalk.cyan('Type:')} ${rule.type}`);
   console.log(`${chalk.cyan('Target Editors:')} ${rule.targetEditors.join(', ')}`);
@@ -202,11 +179,16 @@ async function showPreviewAndConfirm(rule: UniversalRule): Promise<boolean> {
   const preview = rule.content.length > 200 
     ? rule.content.substring(0, 200) + '...'
     : rule.content;
-  console.log(chalk.gray(preview.split('\\n').map(line => `  ${line}`).join('\\n')));
+  console.log(chalk.gray(preview.split('\n').map(line => `  ${line}`).join('\n')));
   
-  console.log(`\\n${chalk.cyan('Lines:')} ${rule.metadata.lineCount}`);
+  console.log(`\n${chalk.cyan('Lines:')} ${rule.metadata.lineCount}`);
   console.log(`${chalk.cyan('Author:')} ${rule.metadata.author || 'Not specified'}`);
   
+  if (!askConfirmation) {
+    return true;
+  }
+  
+  requireInteractive('Pass --yes to add the rule');
   const { proceed } = await inquirer.prompt({
     type: 'confirm',
     name: 'proceed',
@@ -217,35 +199,9 @@ async function showPreviewAndConfirm(rule: UniversalRule): Promise<boolean> {
   return proceed;
 }
 
-async function addRuleToEditors(rule: UniversalRule): Promise<AddRuleResult> {
-  const result: AddRuleResult = {
-    success: true,
-    rule,
-    outputFiles: [],
-    errors: [],
-    warnings: []
-  };
-  
-  console.log(chalk.blue('\\nConverting rule to editor formats...'));
-  
-  for (const editor of rule.targetEditors) {
-    try {
-      console.log(`  ${chalk.gray('→')} ${editor}`);
-      const files = await convertUniversalRule(rule, editor);
-      result.outputFiles.push(...files);
-    } catch (error) {
-      const errorMessage = `Failed to convert rule for ${editor}: ${error instanceof Error ? error.message : String(error)}`;
-      result.errors.push(errorMessage);
-      result.success = false;
-    }
-  }
-  
-  return result;
-}
-
 function displayResults(result: AddRuleResult): void {
   if (result.success) {
-    console.log(chalk.green.bold('\\nRule successfully added!\\n'));
+    console.log(chalk.green.bold('\nRule successfully added!\n'));
     
     if (result.outputFiles.length > 0) {
       console.log(chalk.cyan('Created/modified files:'));
@@ -254,16 +210,20 @@ function displayResults(result: AddRuleResult): void {
       });
     }
     
+    displayFileReports(result.fileReports ?? []);
+    
+    if (result.backupId) {
+      console.log(chalk.gray(`\nPrevious versions saved. Run \`crossrule undo ${result.backupId}\` to revert.`));
+    }
+    
     if (result.warnings.length > 0) {
-      console.log(chalk.yellow('\\nWarnings:'));
-      result.warnings.forEach(warning => {
-        console.log(`  ${warning}`);
-      });
+      console.log();
+      displayConversionWarnings(result.warnings);
     }
     
-    console.log(chalk.green('\\nYour rule is now active in the specified AI editors!'));
+    console.log(chalk.green('\nYour rule is now active in the specified AI editors!'));
   } else {
-    console.log(chalk.red.bold('\\nFailed to add rule.\\n'));
+    console.log(chalk.red.bold('\nFailed to add rule.\n'));
     
     if (result.errors.length > 0) {
       console.log(chalk.red('Errors:'));
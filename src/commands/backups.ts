@@ -0,0 +1,72 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { BackupManifest, UndoResult } from '../types/index.js';
+import { getBackup, listBackups, restoreBackup } from '../backups/index.js';
+import { requireInteractive } from './output.js';
+
+export interface UndoCommandOptions {
+  project?: string;
+  yes?: boolean;
+}
+
+export async function undoCommand(runId?: string, options: UndoCommandOptions = {}): Promise<UndoResult> {
+  const projectPath = options.project ?? '.';
+  const manifest = await getBackup(projectPath, runId);
+
+  if (!manifest) {
+    throw new Error(runId ? `No backup found with id ${runId}` : 'No backups found to undo');
+  }
+
+  console.log(chalk.cyan.bold(`\nUndoing ${manifest.command} run ${manifest.id}`));
+  console.log(chalk.gray(`   From ${formatDate(manifest.createdAt)}\n`));
+  for (const entry of manifest.files) {
+    const action = entry.existed ? chalk.yellow('restore') : chalk.red('delete ');
+    console.log(`   ${action} ${entry.path}`);
+  }
+
+  if (!options.yes) {
+    requireInteractive('Pass --yes to confirm');
+    const { confirmUndo } = await inquirer.prompt({
+      type: 'confirm',
+      name: 'confirmUndo',
+      message: 'Restore these files?',
+      default: true
+    });
+    if (!confirmUndo) {
+      console.log(chalk.yellow('Operation cancelled. No files were changed.'));
+      return { backup: manifest, restored: [] };
+    }
+  }
+
+  const restored = await restoreBackup(manifest, projectPath);
+  console.log(chalk.green(`\nRestored ${restored.length} file(s) to their state before ${manifest.id}.`));
+  return { backup: manifest, restored };
+}
+
+export async function backupsListCommand(options: { project?: string } = {}): Promise<BackupManifest[]> {
+  const backups = await listBackups(options.project ?? '.');
+
+  if (backups.length === 0) {
+    console.log(chalk.yellow('No backups found.'));
+    return backups;
+  }
+
+  console.log(chalk.cyan.bold('\nBackups (newest first):\n'));
+  for (const backup of backups) {
+    console.log(`   ${chalk.bold(backup.id)}  ${chalk.gray(formatDate(backup.createdAt))}  ${backup.command}  ${describeFiles(backup)}`);
+  }
+  console.log(chalk.gray('\n   Run `crossrule undo <run-id>` to restore a run, or `crossrule undo` for the latest.\n'));
+  return backups;
+}
+
+function describeFiles(backup: BackupManifest): string {
+  const deleted = backup.files.filter(entry => entry.deleted).length;
+  const modified = backup.files.filter(entry => entry.existed && !entry.deleted).length;
+  const created = backup.files.filter(entry => !entry.existed).length;
+  const counts = [`${modified} modified`, ...(deleted > 0 ? [`${deleted} deleted`] : []), `${created} created`];
+  return chalk.gray(counts.join(', '));
+}
+
+function formatDate(isoDate: string): string {
+  return new Date(isoDate).toLocaleString();
+}
@@ -0,0 +1,94 @@
+import chalk from 'chalk';
+import { relative, resolve } from 'path';
+import { DriftResult } from '../types/index.js';
+import { checkDrift } from '../check/index.js';
+import { detectRulesForEditor } from '../parsers/index.js';
+import { filterExcludedRules, getDefaultTargets, loadConfig } from '../config/index.js';
+import { getEditorConfig } from '../utils/index.js';
+import { colorizeDiff, displayDetectionWarnings, parseEditor, parseEditors, parseHeadingLevel, parseImportSize } from './preview.js';
+
+export interface CheckCommandOptions {
+  from?: string;
+  to?: string;
+  project?: string;
+  emitImportsAbove?: string;
+  headingLevel?: string;
+}
+
+// Enough of each diff to see what changed; the full diff is in the --json output
+const MAX_DIFF_LINES = 20;
+
+export async function checkCommand(options: CheckCommandOptions = {}): Promise<DriftResult> {
+  const projectPath = resolve(options.project ?? '.');
+  const { config } = await loadConfig(projectPath);
+
+  const sourceName = options.from ?? config.sourceOfTruth;
+  if (!sourceName) {
+    throw new Error('No source editor: pass --from <editor> or set sourceOfTruth in crossrule.config');
+  }
+  const source = parseEditor(sourceName);
+  const emitImportsAbove = parseImportSize(options.emitImportsAbove) ?? config.imports?.emitAbove;
+  const headingLevel = parseHeadingLevel(options.headingLevel) ?? config.headingLevel;
+  const excluded = config.exclude?.editors ?? [];
+  const targets = (options.to ? parseEditors(options.to) : getDefaultTargets(config))
+    .filter(editor => editor !== source && !excluded.includes(editor));
+  if (targets.length === 0) {
+    throw new Error('No target editors to check');
+  }
+
+  const detection = await detectRulesForEditor(source, projectPath, {
+    ...(config.imports?.mode && { imports: config.imports.mode }),
+    ...(headingLevel !== undefined && { headingLevel }),
+    ...(config.outputs && { outputs: config.outputs })
+  });
+  displayDetectionWarnings([detection]);
+  const rules = await filterExcludedRules(detection.rules, config.exclude?.paths, projectPath);
+  if (rules.length === 0) {
+    throw new Error(`No ${getEditorConfig(source).displayName} rules found in ${projectPath}`);
+  }
+
+  const result = await checkDrift(rules, source, targets, projectPath, {
+    onUnsupported: config.policies?.onUnsupported ?? 'downgrade-to-always',
+    onSizeLimit: config.policies?.onSizeLimit ?? 'warn',
+    ...(config.outputs && { outputs: config.outputs }),
+    ...(emitImportsAbove !== undefined && { emitImportsAbove }),
+    ...(headingLevel !== undefined && { headingLevel })
+  });
+  displayDriftResult(result, projectPath);
+  return result;
+}
+
+function displayDriftResult(result: DriftResult, projectPath: string): void {
+  const sourceName = getEditorConfig(result.source).displayName;
+  const ruleText = result.rules === 1 ? 'rule' : 'rules';
+  console.log(chalk.cyan(`Checking ${result.checked} generated file(s) against ${result.rules} ${sourceName} ${ruleText}`));
+
+  for (const error of result.errors) {
+    console.log(`  ${chalk.red('•')} ${error}`);
+  }
+
+  if (result.drifted.length === 0) {
+    if (result.errors.length === 0) {
+      console.log(chalk.green('All generated rule files are up to date.'));
+    }
+    return;
+  }
+
+  console.log(chalk.red.bold(`\n${result.drifted.length} file(s) out of date:`));
+  for (const file of result.drifted) {
+    const label = file.status === 'missing' ? chalk.red('missing ') : chalk.yellow('outdated');
+    const editors = file.editors.map(editor => getEditorConfig(editor).displayName).join(', ');
+    console.log(`   ${label}  ${relative(projectPath, resolve(file.path)) || file.path} ${chalk.gray(`(${editors})`)}`);
+  }
+
+  for (const file of result.drifted) {
+    const lines = colorizeDiff(file.diff).split('\n');
+    console.log();
+    console.log(lines.slice(0, MAX_DIFF_LINES).join('\n'));
+    if (lines.length > MAX_DIFF_LINES) {
+      console.log(chalk.gray(`   ... ${lines.length - MAX_DIFF_LINES} more line(s)`));
+    }
+  }
+
+  console.log(chalk.gray(`\nRun \`crossrule convert --from ${result.source}\` to regenerate them.`));
+}
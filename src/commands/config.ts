@@ -0,0 +1,84 @@
+import chalk from 'chalk';
+import { relative, resolve } from 'path';
+import { homedir } from 'os';
+import { ConfigLayer, CrossRuleConfig, LoadedConfig } from '../types/index.js';
+import { CONFIG_FILES, getDefaultTargets, loadConfig } from '../config/index.js';
+import { getAllEditorTypes, getEditorConfig } from '../utils/index.js';
+
+export interface ConfigShowOptions {
+  project?: string;
+}
+
+type Setting = [key: string, value: string | undefined, fallback: string, pick: (config: CrossRuleConfig) => unknown];
+
+/**
+ * Prints every setting with its effective value and where it came from: the
+ * project config, the user config, or the built-in default.
+ */
+export async function configShowCommand(options: ConfigShowOptions = {}): Promise<LoadedConfig> {
+  const projectPath = resolve(options.project ?? '.');
+  const loaded = await loadConfig(projectPath);
+  const { config, layers } = loaded;
+
+  console.log(chalk.cyan.bold('\nConfiguration files:'));
+  if (layers.length === 0) {
+    console.log(chalk.gray(`   None found. Create ${CONFIG_FILES[0]} in the project or your home directory.`));
+  }
+  for (const layer of layers) {
+    console.log(`   ${describeLayer(layer, projectPath)}`);
+  }
+
+  const list = (values: string[] | undefined) => values && values.length > 0 ? values.join(', ') : undefined;
+  const settings: Setting[] = [
+    ['targets', list(getDefaultTargets(config)), 'none', c => c.targets],
+    ['sourceOfTruth', config.sourceOfTruth, 'none', c => c.sourceOfTruth],
+    ['exclude.editors', list(config.exclude?.editors), 'none', c => c.exclude?.editors],
+    ['exclude.paths', list(config.exclude?.paths), 'none', c => c.exclude?.paths],
+    ['defaultRuleType', config.defaultRuleType, 'always', c => c.defaultRuleType],
+    ['author', config.author, 'not set', c => c.author],
+    ...getAllEditorTypes().map((editor): Setting => [
+      `outputs.${editor}`,
+      config.outputs?.[editor],
+      getEditorConfig(editor).locations[0] ?? '.',
+      c => c.outputs?.[editor]
+    ]),
+    ['plugins', list(config.plugins), 'none', c => c.plugins],
+    ['policies.onConflict', config.policies?.onConflict, 'prompt (init, add), fail (convert)', c => c.policies?.onConflict],
+    ['policies.onUnsupported', config.policies?.onUnsupported, 'downgrade-to-always', c => c.policies?.onUnsupported],
+    ['policies.onSizeLimit', config.policies?.onSizeLimit, 'warn', c => c.policies?.onSizeLimit],
+    ['policies.backup', config.policies?.backup?.toString(), 'true', c => c.policies?.backup],
+    ['policies.syncStrategy', config.policies?.syncStrategy, 'bidirectional', c => c.policies?.syncStrategy],
+    ['imports.mode', config.imports?.mode, 'inline', c => c.imports?.mode],
+    ['imports.emitAbove', config.imports?.emitAbove?.toString(), 'never', c => c.imports?.emitAbove],
+    ['headingLevel', config.headingLevel?.toString(), '2', c => c.headingLevel]
+  ];
+
+  const rows = settings.map(([key, value, fallback, pick]) => {
+    // The last layer that sets a key is the one that won
+    const origin = [...layers].reverse().find(layer => pick(layer.config) !== undefined);
+    return [key, value ?? fallback, origin ? relativeToProject(origin.path, projectPath) : 'default'];
+  });
+  const headers = ['Setting', 'Value', 'Source'];
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map(row => (row[column] ?? '').length)));
+  const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column] ?? 0)).join('  ').trimEnd();
+
+  console.log(chalk.cyan.bold('\nEffective settings:'));
+  console.log(`   ${chalk.bold(formatRow(headers))}`);
+  for (const row of rows) {
+    const line = `   ${formatRow(row)}`;
+    console.log(row[2] === 'default' ? chalk.gray(line) : line);
+  }
+  console.log(chalk.gray('\nCommand-line flags override these values.\n'));
+  return loaded;
+}
+
+function describeLayer(layer: ConfigLayer, projectPath: string): string {
+  const scope = layer.path.startsWith(projectPath) ? 'project' : 'user';
+  return `${relativeToProject(layer.path, projectPath)} ${chalk.gray(`(${scope})`)}`;
+}
+
+function relativeToProject(filePath: string, projectPath: string): string {
+  if (filePath.startsWith(projectPath)) return relative(projectPath, filePath);
+  return filePath.replace(homedir(), '~');
+}
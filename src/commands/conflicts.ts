@@ -0,0 +1,61 @@
+import chalk from 'chalk';
+import { relative, resolve } from 'path';
+import { ConflictingDirective, ConflictsResult } from '../types/index.js';
+import { detectAllRules } from '../parsers/index.js';
+import { findRuleConflicts } from '../conflicts/index.js';
+import { filterExcludedRules, isEditorExcluded, loadConfig } from '../config/index.js';
+import { getEditorConfig } from '../utils/index.js';
+import { displayDetectionWarnings, parseEditors } from './preview.js';
+
+export interface ConflictsCommandOptions {
+  project?: string;
+  editors?: string;
+}
+
+export async function conflictsCommand(options: ConflictsCommandOptions = {}): Promise<ConflictsResult> {
+  const projectPath = resolve(options.project ?? '.');
+  const { config } = await loadConfig(projectPath);
+  const editors = options.editors ? parseEditors(options.editors) : null;
+
+  const detections = (await detectAllRules(projectPath, {
+    ...(config.outputs && { outputs: config.outputs }),
+    ...(config.headingLevel !== undefined && { headingLevel: config.headingLevel })
+  }))
+    .filter(detection => !isEditorExcluded(config, detection.editor))
+    .filter(detection => !editors || editors.includes(detection.editor));
+  displayDetectionWarnings(detections);
+  const rules = await filterExcludedRules(detections.flatMap(detection => detection.rules), config.exclude?.paths, projectPath);
+
+  const result = findRuleConflicts(rules);
+  displayConflicts(result, projectPath);
+  return result;
+}
+
+function displayConflicts(result: ConflictsResult, projectPath: string): void {
+  const ruleText = result.rules === 1 ? 'rule' : 'rules';
+  if (result.conflicts.length === 0) {
+    console.log(chalk.green(`\nNo contradictions found in ${result.rules} ${ruleText}.\n`));
+    return;
+  }
+
+  console.log();
+  for (const conflict of result.conflicts) {
+    console.log(chalk.bold(`${chalk.red('✗')} ${conflict.topic}`));
+    for (const directive of conflict.directives) {
+      console.log(`   ${chalk.yellow(directive.stance.padEnd(20))} ${formatLocation(directive, projectPath)}`);
+      console.log(`   ${' '.repeat(20)} ${chalk.gray(`"${directive.text}"`)}`);
+    }
+    console.log();
+  }
+
+  console.log(chalk.yellow(`${result.conflicts.length} likely contradiction(s) in ${result.rules} ${ruleText}. Reconcile them before converting.\n`));
+}
+
+// "CLAUDE.md:12 (Claude Code, "testing")" - `file:line` so terminals can jump to it
+function formatLocation(directive: ConflictingDirective, projectPath: string): string {
+  const editor = getEditorConfig(directive.editor).displayName;
+  if (!directive.file) return `${editor} "${directive.rule}"`;
+  const file = relative(projectPath, directive.file) || directive.file;
+  const location = directive.line !== undefined ? `${file}:${directive.line}` : file;
+  return `${location} ${chalk.gray(`(${editor}, "${directive.rule}")`)}`;
+}
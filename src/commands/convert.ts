@@ -0,0 +1,136 @@
+import { resolve } from 'path';
+import chalk from 'chalk';
+import { ConversionResult, ConvertCommandResult, EditorType } from '../types/index.js';
+import { detectRulesForEditor } from '../parsers/index.js';
+import { convertRules } from '../converters/index.js';
+import { getAllEditorTypes, getEditorConfig, resolveEditorName } from '../utils/index.js';
+import { filterExcludedRules, getDefaultTargets, loadConfig } from '../config/index.js';
+import {
+  displayWritePlan,
+  displayFileReports,
+  displayConversionWarnings,
+  displayDetectionWarnings,
+  displaySizeBudgets,
+  parseConflictPolicy,
+  parseImportMode,
+  parseImportSize,
+  parseHeadingLevel,
+  parseSizeLimitPolicy,
+  parseTargetEditors,
+  parseUnsupportedPolicy,
+  promptConflictDecision
+} from './preview.js';
+
+export interface ConvertCommandOptions {
+  from?: string;
+  to?: string;
+  project?: string;
+  output?: string;
+  dryRun?: boolean;
+  backup?: boolean;
+  onConflict?: string;
+  onUnsupported?: string;
+  onSizeLimit?: string;
+  imports?: string;
+  emitImportsAbove?: string;
+  headingLevel?: string;
+}
+
+export async function convertCommand(options: ConvertCommandOptions): Promise<ConvertCommandResult> {
+  const projectPath = resolve(options.project ?? '.');
+  const { config } = await loadConfig(projectPath);
+
+  const sourceName = options.from ?? config.sourceOfTruth;
+  if (!sourceName) {
+    throw new Error('No source editor: pass --from <editor> or set sourceOfTruth in crossrule.config');
+  }
+  const sourceEditor = resolveEditorName(sourceName);
+  if (!sourceEditor) {
+    throw new Error(`Unknown source editor: ${sourceName}\nValid editors: ${getAllEditorTypes().join(', ')}`);
+  }
+
+  const excluded = config.exclude?.editors ?? [];
+  const targetNames = options.to
+    ? parseTargetEditors(options.to, sourceEditor, excluded)
+    : getDefaultTargets(config)
+      .filter(editor => editor !== sourceEditor)
+      .map(editor => getEditorConfig(editor).displayName);
+  if (targetNames.length === 0) {
+    throw new Error('No target editors to convert to');
+  }
+
+  const outputPath = resolve(options.output ?? projectPath);
+  const sourceConfig = getEditorConfig(sourceEditor);
+
+  const imports = parseImportMode(options.imports) ?? config.imports?.mode;
+  const emitImportsAbove = parseImportSize(options.emitImportsAbove) ?? config.imports?.emitAbove;
+  const headingLevel = parseHeadingLevel(options.headingLevel) ?? config.headingLevel;
+  const detection = await detectRulesForEditor(sourceEditor, projectPath, {
+    ...(imports && { imports }),
+    ...(headingLevel !== undefined && { headingLevel }),
+    ...(config.outputs && { outputs: config.outputs })
+  });
+  displayDetectionWarnings([detection]);
+  const rules = await filterExcludedRules(detection.rules, config.exclude?.paths, projectPath);
+  if (rules.length === 0) {
+    throw new Error(`No ${sourceConfig.displayName} rules found in ${projectPath}`);
+  }
+
+  const ruleText = rules.length === 1 ? 'rule' : 'rules';
+  console.log(chalk.cyan(`Converting ${rules.length} ${sourceConfig.displayName} ${ruleText} from ${detection.location}`));
+
+  const result = await convertRules(rules, targetNames, outputPath, {
+    dryRun: options.dryRun ?? false,
+    createBackup: options.backup !== false && config.policies?.backup !== false,
+    // Without an explicit policy a non-interactive run refuses to touch hand-edited files
+    onConflict: parseConflictPolicy(options.onConflict) ?? config.policies?.onConflict ?? 'fail',
+    resolveConflict: promptConflictDecision,
+    onUnsupported: parseUnsupportedPolicy(options.onUnsupported) ?? config.policies?.onUnsupported ?? 'downgrade-to-always',
+    onSizeLimit: parseSizeLimitPolicy(options.onSizeLimit) ?? config.policies?.onSizeLimit ?? 'warn',
+    ...(config.outputs && { outputs: config.outputs }),
+    ...(emitImportsAbove !== undefined && { emitImportsAbove }),
+    ...(headingLevel !== undefined && { headingLevel })
+  });
+  if (options.dryRun) {
+    displayWritePlan(result.plannedFiles ?? []);
+  }
+  displayConversionResult(result, options.dryRun ?? false);
+
+  return { source: { ...detection, rules, ruleCount: rules.length }, result };
+}
+
+function displayConversionResult(result: ConversionResult, dryRun: boolean): void {
+  const perEditorOutputs = result.perEditorOutputFiles ?? {};
+
+  // A dry run already listed every planned file alongside its diff
+  if (!dryRun) {
+    for (const [editor, files] of Object.entries(perEditorOutputs) as [EditorType, string[]][]) {
+      console.log(`  ${chalk.bold(getEditorConfig(editor).displayName)}`);
+      files.forEach(file => {
+        console.log(`    ${chalk.gray('→')} ${file}`);
+      });
+    }
+  }
+
+  displayFileReports(result.fileReports ?? []);
+  displaySizeBudgets(result.sizeBudgets);
+  displayConversionWarnings(result.warnings);
+
+  if (result.errors.length > 0) {
+    console.log(chalk.red('Errors:'));
+    result.errors.forEach(error => {
+      console.log(`  ${chalk.red('•')} ${error}`);
+    });
+  }
+
+  if (result.success && result.errors.length === 0) {
+    console.log(chalk.green(dryRun
+      ? `Dry run: ${result.converted} file(s) would be written.`
+      : `Converted ${result.converted} file(s).`));
+    if (result.backupId) {
+      console.log(chalk.gray(`Previous versions saved. Run \`crossrule undo ${result.backupId}\` to revert.`));
+    }
+  } else {
+    console.log(chalk.red('Conversion finished with errors.'));
+  }
+}
@@ -0,0 +1,57 @@
+import chalk from 'chalk';
+import { relative, resolve } from 'path';
+import { Diagnostic, DoctorResult } from '../types/index.js';
+import { runDoctor } from '../doctor/index.js';
+import { loadConfig } from '../config/index.js';
+import { getAllEditorTypes, getEditorConfig } from '../utils/index.js';
+import { parseEditors } from './preview.js';
+
+export interface DoctorCommandOptions {
+  project?: string;
+  editors?: string;
+}
+
+export async function doctorCommand(options: DoctorCommandOptions = {}): Promise<DoctorResult> {
+  const projectPath = resolve(options.project ?? '.');
+  const { config } = await loadConfig(projectPath);
+  const excluded = config.exclude?.editors ?? [];
+  const editors = (options.editors ? parseEditors(options.editors) : getAllEditorTypes())
+    .filter(editor => !excluded.includes(editor));
+
+  const result = await runDoctor(projectPath, editors, {
+    ...(config.outputs && { outputs: config.outputs }),
+    ...(config.headingLevel !== undefined && { headingLevel: config.headingLevel })
+  });
+  displayDiagnostics(result, projectPath);
+  return result;
+}
+
+// Grouped by file, in the `file:line` form editors and terminals can jump to
+function displayDiagnostics(result: DoctorResult, projectPath: string): void {
+  const fileText = result.files === 1 ? 'file' : 'files';
+  if (result.diagnostics.length === 0) {
+    console.log(chalk.green(`\nChecked ${result.files} rule ${fileText}: no problems found.\n`));
+    return;
+  }
+
+  const byFile = new Map<string, Diagnostic[]>();
+  for (const diagnostic of result.diagnostics) {
+    byFile.set(diagnostic.file, [...(byFile.get(diagnostic.file) ?? []), diagnostic]);
+  }
+
+  console.log();
+  for (const [file, diagnostics] of byFile) {
+    const editor = diagnostics[0]?.editor;
+    console.log(`${chalk.bold(relative(projectPath, file) || file)} ${chalk.gray(`(${editor ? getEditorConfig(editor).displayName : ''})`)}`);
+    for (const diagnostic of diagnostics.sort((a, b) => a.line - b.line)) {
+      const severity = diagnostic.severity === 'error' ? chalk.red('error  ') : chalk.yellow('warning');
+      console.log(`   ${chalk.gray(`line ${diagnostic.line}`.padEnd(9))} ${severity} ${diagnostic.message}`);
+      console.log(`   ${' '.repeat(9)} ${chalk.gray(`fix: ${diagnostic.fix}`)}`);
+    }
+    console.log();
+  }
+
+  const errors = result.diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+  const warnings = result.diagnostics.length - errors;
+  console.log(`Checked ${result.files} rule ${fileText}: ${chalk.red(`${errors} error(s)`)}, ${chalk.yellow(`${warnings} warning(s)`)}\n`);
+}
@@ -1,13 +1,81 @@
 import inquirer from 'inquirer';
 import chalk from 'chalk';
-import { DetectionResult, EditorType } from '../types/index.js';
+import { ConversionResult, CrossRuleConfig, DetectionResult, EditorType, InitResult, SizeLimitPolicy, UnsupportedPolicy } from '../types/index.js';
 import { detectAllRules } from '../parsers/index.js';
-import { EDITOR_CONFIGS, getEditorDisplayNames, getDisplayNamesForEditor, getEditorByDisplayName } from '../utils/index.js';
+import { getDisplayNamesForEditor, getEditorByDisplayName, getEditorConfig, getEditorDisplayNames } from '../utils/index.js';
+import { filterExcludedRules, isEditorExcluded, loadConfig } from '../config/index.js';
+import {
+  displayWritePlan,
+  displayFileReports,
+  displayConversionWarnings,
+  displayDetectionWarnings,
+  displaySizeBudgets,
+  displayDuplicates,
+  parseConflictPolicy,
+  parseDuplicatePolicy,
+  parseEditor,
+  parseSizeLimitPolicy,
+  parseTargetEditors,
+  parseUnsupportedPolicy,
+  promptConflictDecision,
+  promptDuplicateDecision
+} from './preview.js';
+import { canPrompt, isJsonOutput, requireInteractive } from './output.js';
+import { mergeDetections } from '../merge/index.js';
 
-// Export add command
+// Export add, convert, backup, registry, rule management, sync, config, verify, doctor, check, conflicts and plugin commands
 export { addCommand } from './add.js';
+export { convertCommand } from './convert.js';
+export { undoCommand, backupsListCommand } from './backups.js';
+export { listCommand, showCommand } from './registry.js';
+export { removeCommand, renameCommand } from './manage.js';
+export { syncCommand, syncWatchCommand } from './sync.js';
+export { configShowCommand } from './config.js';
+export { verifyCommand } from './verify.js';
+export { doctorCommand } from './doctor.js';
+export { checkCommand } from './check.js';
+export { conflictsCommand } from './conflicts.js';
+export { pluginsListCommand } from './plugins.js';
+
+export interface InitCommandOptions {
+  from?: string;                // Source editor, instead of choosing one
+  to?: string;                  // Comma-separated target editors or "all", instead of choosing them
+  yes?: boolean;                // Convert without asking for confirmation
+  dryRun?: boolean;
+  backup?: boolean;
+  onConflict?: string;
+  onUnsupported?: string;
+  onSizeLimit?: string;
+  merge?: boolean;              // Merge every detected source instead of choosing one
+  onDuplicate?: string;
+  config?: CrossRuleConfig;     // Loaded from crossrule.config when not given
+}
+
+// What init converted after detection; source is null when it stopped before choosing one
+type InitOutcome = Omit<InitResult, 'detections'>;
+
+const NOTHING_CONVERTED: InitOutcome = { source: null, targets: [], result: null };
+
+/**
+ * Detects rules and walks through choosing a source and targets; --from, --to
+ * and --yes answer those questions up front. With --json nothing is asked, so
+ * the source (--from, the configured sourceOfTruth or --merge), the targets
+ * (--to or the configured targets) and --yes must all be given.
+ */
+export async function initCommand(options: InitCommandOptions = {}): Promise<InitResult> {
+  // Validate flags before any prompts so a typo fails fast
+  parseConflictPolicy(options.onConflict);
+  parseUnsupportedPolicy(options.onUnsupported);
+  parseSizeLimitPolicy(options.onSizeLimit);
+  parseDuplicatePolicy(options.onDuplicate);
+  const config = options.config ?? (await loadConfig()).config;
+  options = { ...options, config };
+  // --json never picks a source by itself
+  const sourceEditor = options.from !== undefined
+    ? parseEditor(options.from)
+    : isJsonOutput() ? config.sourceOfTruth : undefined;
+  if (options.to !== undefined) parseTargetEditors(options.to, sourceEditor);
 
-export async function initCommand(): Promise<void> {
   // Welcome message
   console.log(chalk.cyan.bold('\nWelcome to CrossRule!'));
   console.log(chalk.gray('Let me help you sync your AI editor rules across different tools.\n'));
@@ -17,12 +85,21 @@ export async function initCommand(): Promise<void> {
   spinner.start('Scanning your project for existing AI editor rules...');
   
   // Detect all existing rules in the current project
-  const detectedRules = await detectAllRules('.');
+  const detections = await detectAllRules('.', {
+    ...(config.imports?.mode && { imports: config.imports.mode }),
+    ...(config.headingLevel !== undefined && { headingLevel: config.headingLevel }),
+    ...(config.outputs && { outputs: config.outputs })
+  });
   spinner.stop();
+  displayDetectionWarnings(detections);
+  const detectedRules = await applyConfigToDetections(detections, config);
   
   if (detectedRules.length === 0) {
     console.log(chalk.yellow('\nNo AI editor rules found in this project.'));
     console.log(chalk.gray('   I looked for: Cursor, Windsurf, Cline, VSCode, Codex CLI, Claude Code, Qoder, Trae, QwenCoder'));
+    if (!canPrompt()) {
+      return { detections, ...NOTHING_CONVERTED };
+    }
     
     const { shouldCreateNew } = await inquirer.prompt({
       type: 'confirm',
@@ -36,14 +113,14 @@ export async function initCommand(): Promise<void> {
     } else {
       console.log(chalk.gray('\nNo worries! Come back anytime when you have some rules to convert.'));
     }
-    return;
+    return { detections, ...NOTHING_CONVERTED };
   }
 
   // Display detected rules in a friendly way
   console.log(chalk.green('\nFound existing rules:'));
   
   for (const detection of detectedRules) {
-    const config = EDITOR_CONFIGS[detection.editor as keyof typeof EDITOR_CONFIGS];
+    const config = getEditorConfig(detection.editor);
     const ruleText = detection.ruleCount === 1 ? 'rule' : 'rules';
     const aliasNote = config.aliasDisplayNames && config.aliasDisplayNames.length > 0
       ? chalk.gray(` (also: ${config.aliasDisplayNames.join(', ')})`)
@@ -55,14 +132,37 @@ export async function initCommand(): Promise<void> {
   console.log(); // Empty line for spacing
 
   // Handle single or multiple rule sources
-  if (detectedRules.length === 1) {
-    const singleResult = detectedRules[0];
-    if (singleResult) {
-      await handleSingleRuleSource(singleResult);
+  const [firstSource] = detectedRules;
+  if (detectedRules.length > 1 && options.merge) {
+    return { detections, ...await handleMergedRuleSources(detectedRules, options) };
+  }
+  if (sourceEditor) {
+    const source = detectedRules.find(detection => detection.editor === sourceEditor);
+    if (!source) {
+      throw new Error(`No ${getEditorConfig(sourceEditor).displayName} rules found in this project`);
+    }
+    return { detections, ...await handleSingleRuleSource(source, options) };
+  }
+  if (isJsonOutput() && !options.merge) {
+    requireInteractive('Pass --from <editor> or set sourceOfTruth in crossrule.config');
+  }
+  if (firstSource && detectedRules.length === 1) {
+    return { detections, ...await handleSingleRuleSource(firstSource, options) };
+  }
+  return { detections, ...await handleMultipleRuleSources(detectedRules, options) };
+}
+
+// Drops excluded editors and rule files, and lists the configured source of truth first
+async function applyConfigToDetections(detections: DetectionResult[], config: CrossRuleConfig): Promise<DetectionResult[]> {
+  const filtered: DetectionResult[] = [];
+  for (const detection of detections) {
+    if (isEditorExcluded(config, detection.editor)) continue;
+    const rules = await filterExcludedRules(detection.rules, config.exclude?.paths);
+    if (rules.length > 0) {
+      filtered.push({ ...detection, rules, ruleCount: rules.length });
     }
-  } else {
-    await handleMultipleRuleSources(detectedRules);
   }
+  return filtered.sort((a, b) => Number(b.editor === config.sourceOfTruth) - Number(a.editor === config.sourceOfTruth));
 }
 
 function createSpinner() {
@@ -72,6 +172,7 @@ function createSpinner() {
   
   return {
     start: (message: string) => {
+      if (isJsonOutput()) return;
       process.stdout.write('\x1B[?25l'); // Hide cursor
       interval = setInterval(() => {
         process.stdout.write('\r' + chalk.cyan(frames[frame]) + ' ' + message);
@@ -79,6 +180,7 @@ function createSpinner() {
       }, 80);
     },
     stop: () => {
+      if (isJsonOutput()) return;
       clearInterval(interval);
       process.stdout.write('\r\x1B[K'); // Clear line
       process.stdout.write('\x1B[?25h'); // Show cursor
@@ -86,29 +188,31 @@ function createSpinner() {
   };
 }
 
-async function handleSingleRuleSource(detection: DetectionResult): Promise<void> {
-  const config = EDITOR_CONFIGS[detection.editor];
+async function handleSingleRuleSource(detection: DetectionResult, options: InitCommandOptions): Promise<InitOutcome> {
+  const config = getEditorConfig(detection.editor);
   const ruleText = detection.ruleCount === 1 ? 'rule' : 'rules';
   
   console.log(chalk.blue(`Perfect! I'll use your ${config.displayName} ${ruleText} as the source.`));
   console.log(chalk.gray(`That's ${detection.ruleCount} ${ruleText} from: ${detection.location}\n`));
   
-  await selectTargetEditors(detection);
+  return selectTargetEditors(detection, options);
 }
 
-async function handleMultipleRuleSources(detections: DetectionResult[]): Promise<void> {
+async function handleMultipleRuleSources(detections: DetectionResult[], options: InitCommandOptions): Promise<InitOutcome> {
   console.log(chalk.blue('Multiple rule sources detected. Select which one to convert from:'));
   
   const choices = detections.map(detection => {
-    const config = EDITOR_CONFIGS[detection.editor as keyof typeof EDITOR_CONFIGS];
+    const config = getEditorConfig(detection.editor);
     const ruleText = detection.ruleCount === 1 ? 'rule' : 'rules';
     return {
       name: `${config.displayName} - ${detection.ruleCount} ${ruleText}`,
-      value: detection,
+      value: detection as DetectionResult | 'merge',
       short: config.displayName
     };
   });
+  choices.push({ name: 'Merge rules from all of them', value: 'merge', short: 'Merge all' });
 
+  requireInteractive('Pass --from <editor> or --merge to choose a source');
   const { selectedSource } = await inquirer.prompt({
     type: 'list',
     name: 'selectedSource',
@@ -116,25 +220,72 @@ async function handleMultipleRuleSources(detections: DetectionResult[]): Promise
     choices,
     pageSize: Math.min(choices.length, 10)
   });
+  if (selectedSource === 'merge') {
+    return handleMergedRuleSources(detections, options);
+  }
 
-  const config = EDITOR_CONFIGS[selectedSource.editor as keyof typeof EDITOR_CONFIGS];
+  const config = getEditorConfig(selectedSource.editor);
   console.log(chalk.green(`\n✨ Great choice! Using your ${config.displayName} rules.\n`));
 
-  await selectTargetEditors(selectedSource);
+  return selectTargetEditors(selectedSource, options);
 }
 
-async function selectTargetEditors(sourceDetection: DetectionResult): Promise<void> {
+/**
+ * Merges the rules of every detected source, settling duplicates by prompt or
+ * --on-duplicate. The merged set can be converted back to its own editors too,
+ * so each of them ends up with the rules of the others.
+ */
+async function handleMergedRuleSources(detections: DetectionResult[], options: InitCommandOptions): Promise<InitOutcome> {
+  const names = detections.map(detection => getEditorConfig(detection.editor).displayName);
+  console.log(chalk.blue(`Merging rules from ${names.join(', ')}.`));
+
+  const { rules, duplicates } = await mergeDetections(detections, {
+    onDuplicate: parseDuplicatePolicy(options.onDuplicate) ?? 'prompt',
+    resolveDuplicate: promptDuplicateDecision
+  });
+  console.log();
+  displayDuplicates(duplicates);
+
+  const [primary] = detections;
+  if (!primary) return NOTHING_CONVERTED;
+  const merged: DetectionResult = {
+    ...primary,
+    rules,
+    ruleCount: rules.length,
+    location: detections.map(detection => detection.location).join(', '),
+    warnings: detections.flatMap(detection => detection.warnings)
+  };
+  const ruleText = rules.length === 1 ? 'rule' : 'rules';
+  console.log(chalk.green(`✨ ${rules.length} ${ruleText} after merging.\n`));
+
+  return { ...await selectTargetEditors(merged, options, false), duplicates };
+}
+
+async function selectTargetEditors(sourceDetection: DetectionResult, options: InitCommandOptions, excludeSource = true): Promise<InitOutcome> {
   // Get all available editors except the source
   const allEditors = getEditorDisplayNames();
-  const namesToExclude = getDisplayNamesForEditor(sourceDetection.editor as EditorType);
+  const namesToExclude = excludeSource ? getDisplayNamesForEditor(sourceDetection.editor as EditorType) : [];
+  const configuredTargets = options.config?.targets ?? [];
   const targetChoices = allEditors
     .filter(name => !namesToExclude.includes(name))
+    .filter(name => !isExcludedName(name, options.config))
     .map(name => ({
       name,
       value: name,
-      checked: false
+      // Configured targets start out selected
+      checked: configuredTargets.some(editor => editor === getEditorByDisplayName(name))
     }));
 
+  if (options.to !== undefined) {
+    const excluded = options.config?.exclude?.editors ?? [];
+    return showConversionPreview(sourceDetection, parseTargetEditors(options.to, excludeSource ? sourceDetection.editor : undefined, excluded), options);
+  }
+  // Without prompts the configured targets are used
+  if (isJsonOutput() && options.config?.targets) {
+    return showConversionPreview(sourceDetection, targetChoices.filter(choice => choice.checked).map(choice => choice.value), options);
+  }
+
+  requireInteractive('Pass --to <editors> or set targets in crossrule.config');
   console.log(chalk.blue('Select target editors to convert to:'));
   console.log(chalk.gray('   (Use spacebar to select, enter when ready)\n'));
   
@@ -149,23 +300,38 @@ async function selectTargetEditors(sourceDetection: DetectionResult): Promise<vo
 
   if (targetEditors.length === 0) {
     console.log(chalk.yellow('No editors selected. Exiting.'));
-    return;
+    return { source: sourceDetection.editor, targets: [], result: null };
   }
 
   // Show preview of what will be converted
-  await showConversionPreview(sourceDetection, targetEditors);
+  return showConversionPreview(sourceDetection, targetEditors, options);
+}
+
+function getUnsupportedPolicy(options: InitCommandOptions): UnsupportedPolicy {
+  return parseUnsupportedPolicy(options.onUnsupported) ?? options.config?.policies?.onUnsupported ?? 'downgrade-to-always';
+}
+
+function getSizeLimitPolicy(options: InitCommandOptions): SizeLimitPolicy {
+  return parseSizeLimitPolicy(options.onSizeLimit) ?? options.config?.policies?.onSizeLimit ?? 'warn';
+}
+
+function isExcludedName(displayName: string, config: CrossRuleConfig | undefined): boolean {
+  const editor = getEditorByDisplayName(displayName);
+  return editor !== null && config !== undefined && isEditorExcluded(config, editor);
 }
 
 async function showConversionPreview(
   sourceDetection: DetectionResult, 
-  targetEditors: string[]
-): Promise<void> {
-  const sourceConfig = EDITOR_CONFIGS[sourceDetection.editor as keyof typeof EDITOR_CONFIGS];
+  targetEditors: string[],
+  options: InitCommandOptions
+): Promise<InitOutcome> {
+  // Rules keep the editor they were read from, so a merged set lists every source
+  const sourceNames = Array.from(new Set(sourceDetection.rules.map(rule => getEditorConfig(rule.source).displayName)));
   const ruleText = sourceDetection.ruleCount === 1 ? 'rule' : 'rules';
   
   console.log(chalk.green.bold('\nConversion preview:'));
   
-  console.log(`\n   ${chalk.cyan('From:')} ${sourceConfig.displayName} (${sourceDetection.ruleCount} ${ruleText})`);
+  console.log(`\n   ${chalk.cyan('From:')} ${sourceNames.join(' + ')} (${sourceDetection.ruleCount} ${ruleText})`);
   const groupedTargets = groupEditorsByType(targetEditors);
   const formattedTargets = groupedTargets.map(group => {
     const { base, aliases } = getEditorLabelParts(group);
@@ -190,6 +356,20 @@ async function showConversionPreview(
     console.log(`   ${chalk.gray(`... and ${sourceDetection.rules.length - 3} more`)}`);
   }
 
+  const outcome = (result: ConversionResult | null): InitOutcome => ({
+    source: sourceDetection.editor,
+    targets: groupEditorsByType(targetEditors).map(group => group.editorType),
+    result
+  });
+
+  if (options.dryRun) {
+    return outcome(await previewConversion(sourceDetection, targetEditors, options));
+  }
+  if (options.yes) {
+    return outcome(await performConversion(sourceDetection, targetEditors, options));
+  }
+
+  requireInteractive('Pass --yes to convert');
   const { confirmConversion } = await inquirer.prompt({
     type: 'confirm',
     name: 'confirmConversion',
@@ -198,23 +378,36 @@ async function showConversionPreview(
   });
 
   if (confirmConversion) {
-    await performConversion(sourceDetection, targetEditors);
-  } else {
-    console.log(chalk.yellow('Operation cancelled. Your rules are unchanged.'));
+    return outcome(await performConversion(sourceDetection, targetEditors, options));
   }
+  console.log(chalk.yellow('Operation cancelled. Your rules are unchanged.'));
+  return outcome(null);
 }
 
 async function performConversion(
   sourceDetection: DetectionResult,
-  targetEditors: string[]
-): Promise<void> {
+  targetEditors: string[],
+  options: InitCommandOptions
+): Promise<ConversionResult | null> {
   // Show a nice progress indicator
   const spinner = createSpinner();
   spinner.start('Converting your rules...');
   
   try {
     const { convertRules } = await import('../converters/index.js');
-    const result = await convertRules(sourceDetection.rules, targetEditors, '.');
+    const result = await convertRules(sourceDetection.rules, targetEditors, '.', {
+      createBackup: options.backup !== false && options.config?.policies?.backup !== false,
+      onConflict: parseConflictPolicy(options.onConflict) ?? options.config?.policies?.onConflict ?? 'prompt',
+      onUnsupported: getUnsupportedPolicy(options),
+      onSizeLimit: getSizeLimitPolicy(options),
+      ...(options.config?.outputs && { outputs: options.config.outputs }),
+      ...(options.config?.imports?.emitAbove !== undefined && { emitImportsAbove: options.config.imports.emitAbove }),
+      ...(options.config?.headingLevel !== undefined && { headingLevel: options.config.headingLevel }),
+      resolveConflict: async file => {
+        spinner.stop();
+        return promptConflictDecision(file);
+      }
+    });
     
     spinner.stop();
     
@@ -227,7 +420,7 @@ async function performConversion(
 
       groupedTargets.forEach(group => {
         const { base, aliases } = getEditorLabelParts(group);
-        const config = EDITOR_CONFIGS[group.editorType];
+        const config = getEditorConfig(group.editorType);
         const aliasNote = config.aliasDisplayNames && config.aliasDisplayNames.length > 0
           ? chalk.gray(` (also: ${config.aliasDisplayNames.join(', ')})`)
           : '';
@@ -251,6 +444,10 @@ async function performConversion(
         console.log();
       });
       
+      displayFileReports(result.fileReports ?? []);
+      displaySizeBudgets(result.sizeBudgets);
+      displayConversionWarnings(result.warnings);
+      
       if (result.errors.length > 0) {
         console.log(chalk.yellow('⚠️  A few things to note:'));
         result.errors.forEach(error => {
@@ -259,6 +456,10 @@ async function performConversion(
         console.log();
       }
       
+      if (result.backupId) {
+        console.log(chalk.gray(`   Previous versions saved. Run \`crossrule undo ${result.backupId}\` to revert.\n`));
+      }
+      
       console.log(chalk.green('Your rules are now ready to use in your target editors!'));
       console.log(chalk.gray('   💡 Tip: Test the converted rules in a small project first to ensure they work as expected.\n'));
       
@@ -274,13 +475,45 @@ async function performConversion(
         console.log(chalk.gray('💡 Try running the command again, or check if your rule files have the correct format.'));
       }
     }
+    return result;
     
   } catch (error) {
     spinner.stop();
+    if (isJsonOutput()) throw error;
     console.log(chalk.red.bold('Unexpected error during conversion!\n'));
     console.log(chalk.red(error instanceof Error ? error.message : String(error)));
     console.log(chalk.gray('\n💡 This might be a bug. Consider reporting it with your rule files.'));
+    return null;
+  }
+}
+
+async function previewConversion(
+  sourceDetection: DetectionResult,
+  targetEditors: string[],
+  options: InitCommandOptions
+): Promise<ConversionResult> {
+  const { convertRules } = await import('../converters/index.js');
+  const result = await convertRules(sourceDetection.rules, targetEditors, '.', {
+    dryRun: true,
+    onUnsupported: getUnsupportedPolicy(options),
+    onSizeLimit: getSizeLimitPolicy(options),
+    ...(options.config?.outputs && { outputs: options.config.outputs }),
+    ...(options.config?.imports?.emitAbove !== undefined && { emitImportsAbove: options.config.imports.emitAbove }),
+    ...(options.config?.headingLevel !== undefined && { headingLevel: options.config.headingLevel })
+  });
+
+  displayWritePlan(result.plannedFiles ?? []);
+  displaySizeBudgets(result.sizeBudgets);
+  displayConversionWarnings(result.warnings);
+
+  if (result.errors.length > 0) {
+    console.log(chalk.yellow('⚠️  A few things to note:'));
+    result.errors.forEach(error => {
+      console.log(`   ${chalk.yellow('•')} ${error}`);
+    });
+    console.log();
   }
+  return result;
 }
 
 type EditorGroup = {
@@ -301,7 +534,7 @@ function groupEditorsByType(editorNames: string[]): EditorGroup[] {
 }
 
 function getEditorLabelParts(group: EditorGroup): { base: string; aliases: string[] } {
-  const config = EDITOR_CONFIGS[group.editorType];
+  const config = getEditorConfig(group.editorType);
   const aliases = group.names.filter(name => name !== config.displayName);
   return {
     base: config.displayName,
@@ -0,0 +1,103 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { CrossRuleConfig, ManageResult, RuleLocation } from '../types/index.js';
+import { getEditorConfig } from '../utils/index.js';
+import { loadConfig } from '../config/index.js';
+import { WritePlan, createWritePlan, applyWritePlan } from '../plan/index.js';
+import { describeRuleLocation, planRuleRemoval, planRuleRename } from '../manage/index.js';
+import { displayWritePlan } from './preview.js';
+import { requireInteractive } from './output.js';
+
+export interface ManageCommandOptions {
+  project?: string;
+  dryRun?: boolean;
+  yes?: boolean;
+  backup?: boolean;
+}
+
+export async function removeCommand(name: string, options: ManageCommandOptions = {}): Promise<ManageResult> {
+  const projectPath = options.project ?? '.';
+  const { config } = await loadConfig(projectPath);
+  const plan = createWritePlan();
+  const locations = await planRuleRemoval(name, plan, projectPath, config);
+
+  if (locations.length === 0 && plan.files().length === 0) {
+    throw new Error(`No rule named "${name}" found in any editor or in the registry`);
+  }
+
+  console.log(chalk.cyan.bold(`\nRemoving "${name}" from:`));
+  displayLocations(locations);
+
+  return confirmAndApply(plan, locations, options, config, 'remove', 'Remove this rule everywhere?');
+}
+
+export async function renameCommand(oldName: string, newName: string, options: ManageCommandOptions = {}): Promise<ManageResult> {
+  const projectPath = options.project ?? '.';
+  const { config } = await loadConfig(projectPath);
+  const plan = createWritePlan();
+  const locations = await planRuleRename(oldName, newName, plan, projectPath, config);
+
+  if (locations.length === 0 && plan.files().length === 0) {
+    throw new Error(`No rule named "${oldName}" found in any editor or in the registry`);
+  }
+
+  console.log(chalk.cyan.bold(`\nRenaming "${oldName}" to "${newName}" in:`));
+  displayLocations(locations);
+
+  return confirmAndApply(plan, locations, options, config, 'rename', 'Rename this rule everywhere?');
+}
+
+function displayLocations(locations: RuleLocation[]): void {
+  for (const location of locations) {
+    console.log(`   ${chalk.bold(getEditorConfig(location.editor).displayName)} ${chalk.gray('→')} ${describeRuleLocation(location)}`);
+  }
+  console.log();
+}
+
+async function confirmAndApply(
+  plan: WritePlan,
+  locations: RuleLocation[],
+  options: ManageCommandOptions,
+  config: CrossRuleConfig,
+  command: string,
+  question: string
+): Promise<ManageResult> {
+  const plannedFiles = plan.files();
+  if (options.dryRun) {
+    displayWritePlan(plannedFiles);
+    return { locations, plannedFiles, applied: false };
+  }
+
+  if (!options.yes) {
+    requireInteractive('Pass --yes to confirm');
+    const { confirmed } = await inquirer.prompt({
+      type: 'confirm',
+      name: 'confirmed',
+      message: question,
+      default: true
+    });
+    if (!confirmed) {
+      console.log(chalk.yellow('Operation cancelled. Your rules are unchanged.'));
+      return { locations, plannedFiles, applied: false };
+    }
+  }
+
+  const { written, backup } = await applyWritePlan(plan, {
+    createBackup: options.backup !== false && config.policies?.backup !== false,
+    ...(options.project !== undefined && { projectPath: options.project }),
+    command
+  });
+
+  console.log(chalk.green.bold(`\nDone. ${written.length} file(s) touched:`));
+  for (const file of plannedFiles) {
+    if (file.status === 'unchanged') continue;
+    const action = file.status === 'delete' ? chalk.red('deleted ') : file.status === 'create' ? chalk.green('created ') : chalk.yellow('modified');
+    console.log(`   ${action} ${file.path}`);
+  }
+
+  if (backup) {
+    console.log(chalk.gray(`\nPrevious versions saved. Run \`crossrule undo ${backup.id}\` to revert.`));
+  }
+  console.log();
+  return { locations, plannedFiles, applied: true, ...(backup && { backupId: backup.id }) };
+}
@@ -0,0 +1,41 @@
+import { JsonOutput } from '../types/index.js';
+
+// Bumped whenever a field is removed, renamed or changes meaning; new fields don't bump it
+export const JSON_SCHEMA_VERSION = 1;
+
+let jsonOutput = false;
+
+/**
+ * Switches the CLI to `--json` mode: human-readable output is silenced so the
+ * command's JSON document is the only thing on stdout, and prompts are refused.
+ * Warnings and errors still go to stderr.
+ */
+export function enableJsonOutput(): void {
+  jsonOutput = true;
+  console.log = () => {};
+  console.info = () => {};
+}
+
+export function isJsonOutput(): boolean {
+  return jsonOutput;
+}
+
+// Called before prompting; fails when the answer can't come from the keyboard
+export function requireInteractive(hint: string): void {
+  if (jsonOutput) {
+    throw new Error(`${hint} (prompts are disabled with --json)`);
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error(`${hint} (stdin is not a terminal, so there is no one to ask)`);
+  }
+}
+
+// Whether an optional question can be asked; when it can't, its default applies
+export function canPrompt(): boolean {
+  return !jsonOutput && process.stdin.isTTY === true;
+}
+
+export function writeJsonOutput<T>(output: Omit<JsonOutput<T>, 'schemaVersion'>): void {
+  const document: JsonOutput<T> = { schemaVersion: JSON_SCHEMA_VERSION, ...output };
+  process.stdout.write(`${JSON.stringify(document, null, 2)}\n`);
+}
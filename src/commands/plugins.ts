@@ -0,0 +1,29 @@
+import chalk from 'chalk';
+import { resolve } from 'path';
+import { LoadedPlugin } from '../types/index.js';
+import { loadPlugins } from '../plugins/index.js';
+import { getEditorConfig } from '../utils/index.js';
+
+export async function pluginsListCommand(options: { project?: string } = {}): Promise<LoadedPlugin[]> {
+  const plugins = await loadPlugins(resolve(options.project ?? '.'));
+
+  if (plugins.length === 0) {
+    console.log(chalk.yellow('No adapter plugins found.'));
+    console.log(chalk.gray('   Install a crossrule-adapter-* package or list adapter files under `plugins` in crossrule.config.\n'));
+    return plugins;
+  }
+
+  console.log(chalk.cyan.bold('\nAdapter plugins:\n'));
+  for (const plugin of plugins) {
+    const source = plugin.source === 'package' ? 'package' : 'path   ';
+    if (plugin.error) {
+      console.log(`   ${chalk.red('✗')} ${chalk.bold(plugin.from)}  ${chalk.gray(source)}`);
+      console.log(`     ${chalk.red(plugin.error)}`);
+      continue;
+    }
+    const editors = plugin.editors.map(editor => `${getEditorConfig(editor).displayName} (${editor})`).join(', ');
+    console.log(`   ${chalk.green('✓')} ${chalk.bold(plugin.from)}  ${chalk.gray(source)}  ${editors}`);
+  }
+  console.log();
+  return plugins;
+}
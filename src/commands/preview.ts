@@ -0,0 +1,322 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import {
+  ConflictDecision,
+  ConflictPolicy,
+  ConversionWarning,
+  DetectionResult,
+  DuplicateDecision,
+  DuplicatePolicy,
+  DuplicateReport,
+  DuplicateRules,
+  EditorType,
+  FileReport,
+  ImportMode,
+  PlannedFile,
+  SizeBudget,
+  SizeLimitPolicy,
+  UnsupportedPolicy
+} from '../types/index.js';
+import { createPlannedFileDiff } from '../plan/index.js';
+import { UNSUPPORTED_POLICIES } from '../converters/degrade.js';
+import { SIZE_LIMIT_POLICIES } from '../converters/limits.js';
+import { DUPLICATE_POLICIES } from '../merge/index.js';
+import { IMPORT_MODES } from '../imports/index.js';
+import { HEADING_LEVELS } from '../adapters/shared.js';
+import { getAllEditorTypes, getDisplayNamesForEditor, getEditorConfig, resolveEditorName } from '../utils/index.js';
+import { requireInteractive } from './output.js';
+
+// Prints a dry-run summary followed by a colored unified diff for each planned change
+export function displayWritePlan(files: PlannedFile[]): void {
+  const created = files.filter(file => file.status === 'create');
+  const modified = files.filter(file => file.status === 'modify');
+  const deleted = files.filter(file => file.status === 'delete');
+  const unchanged = files.filter(file => file.status === 'unchanged');
+
+  console.log(chalk.cyan.bold('\nPlanned changes (dry run):'));
+  created.forEach(file => console.log(`   ${chalk.green('new')}        ${file.path}`));
+  modified.forEach(file => console.log(`   ${chalk.yellow('modified')}   ${file.path}`));
+  deleted.forEach(file => console.log(`   ${chalk.red('deleted')}    ${file.path}`));
+  unchanged.forEach(file => console.log(`   ${chalk.gray('unchanged')}  ${chalk.gray(file.path)}`));
+
+  for (const file of [...created, ...modified, ...deleted]) {
+    console.log();
+    console.log(colorizeDiff(createPlannedFileDiff(file)));
+  }
+
+  const deletedNote = deleted.length > 0 ? `, ${deleted.length} deleted` : '';
+  console.log(chalk.gray(`\n${created.length} new, ${modified.length} modified${deletedNote}, ${unchanged.length} unchanged. No files were written.\n`));
+}
+
+export function colorizeDiff(diff: string): string {
+  return diff
+    .split('\n')
+    .filter(line => !line.startsWith('===') && line !== '\\ No newline at end of file')
+    .map(line => {
+      if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line);
+      if (line.startsWith('@@')) return chalk.cyan(line);
+      if (line.startsWith('+')) return chalk.green(line);
+      if (line.startsWith('-')) return chalk.red(line);
+      return line;
+    })
+    .join('\n')
+    .trimEnd();
+}
+
+// An editor name or alias from the command line, e.g. 'claude' or 'Claude Code'
+export function parseEditor(name: string): EditorType {
+  const editor = resolveEditorName(name);
+  if (!editor) {
+    throw new Error(`Unknown editor: ${name}\nValid editors: ${getAllEditorTypes().join(', ')}`);
+  }
+  return editor;
+}
+
+// A comma-separated list of editors, e.g. --editors cursor,windsurf
+export function parseEditors(names: string): EditorType[] {
+  return names.split(',').map(name => name.trim()).filter(Boolean).map(parseEditor);
+}
+
+/**
+ * Turns a comma-separated list of editor ids or display names into the display
+ * names expected by convertRules. "all" expands to every editor except the source
+ * and any editors excluded in the config.
+ */
+export function parseTargetEditors(to: string, sourceEditor: EditorType | undefined, excluded: EditorType[] = []): string[] {
+  if (to.trim().toLowerCase() === 'all') {
+    return getAllEditorTypes()
+      .filter(editor => editor !== sourceEditor && !excluded.includes(editor))
+      .map(editor => getEditorConfig(editor).displayName);
+  }
+
+  const names: string[] = [];
+  const invalid: string[] = [];
+
+  for (const rawName of to.split(',').map(name => name.trim()).filter(Boolean)) {
+    const editor = resolveEditorName(rawName);
+    if (!editor) {
+      invalid.push(rawName);
+      continue;
+    }
+    // Keep alias names (e.g. "OpenCode") so results can be reported under the name the user asked for
+    const displayName = getDisplayNamesForEditor(editor)
+      .find(name => name.toLowerCase() === rawName.toLowerCase()) ?? getEditorConfig(editor).displayName;
+    if (!names.includes(displayName)) {
+      names.push(displayName);
+    }
+  }
+
+  if (invalid.length > 0) {
+    throw new Error(`Invalid target editors: ${invalid.join(', ')}\nValid editors: ${getAllEditorTypes().join(', ')}`);
+  }
+
+  return names;
+}
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['prompt', 'skip', 'overwrite', 'keep-both'];
+
+export function parseConflictPolicy(value: string | undefined): ConflictPolicy | undefined {
+  if (value === undefined) return undefined;
+  if (!(CONFLICT_POLICIES as string[]).includes(value)) {
+    throw new Error(`Invalid --on-conflict value: ${value}\nValid values: ${CONFLICT_POLICIES.join(', ')}`);
+  }
+  return value as ConflictPolicy;
+}
+
+export function parseUnsupportedPolicy(value: string | undefined): UnsupportedPolicy | undefined {
+  if (value === undefined) return undefined;
+  if (!(UNSUPPORTED_POLICIES as string[]).includes(value)) {
+    throw new Error(`Invalid --on-unsupported value: ${value}\nValid values: ${UNSUPPORTED_POLICIES.join(', ')}`);
+  }
+  return value as UnsupportedPolicy;
+}
+
+// Interactive resolver for files edited by hand since crossrule last generated them
+export async function promptConflictDecision(file: PlannedFile): Promise<ConflictDecision> {
+  requireInteractive(`${file.path} was edited by hand; pass --on-conflict=skip|overwrite|keep-both`);
+  console.log(chalk.yellow(`\n${file.path} was edited by hand since crossrule last generated it.`));
+  console.log(colorizeDiff(createPlannedFileDiff(file)));
+
+  const { decision } = await inquirer.prompt({
+    type: 'list',
+    name: 'decision',
+    message: 'What should I do with this file?',
+    choices: [
+      { name: 'Keep my edits (skip this file)', value: 'skip' },
+      { name: 'Overwrite with the converted rules', value: 'overwrite' },
+      { name: 'Keep both (write the converted rules under .crossrule/kept)', value: 'keep-both' }
+    ],
+    default: 'skip'
+  });
+
+  return decision;
+}
+
+// Lists what happened to files that had been edited by hand
+export function displayFileReports(reports: FileReport[]): void {
+  const handEdited = reports.filter(report => report.handEdited);
+  if (handEdited.length === 0) return;
+
+  console.log(chalk.yellow('Hand-edited files:'));
+  for (const report of handEdited) {
+    const note = report.writtenTo ? chalk.gray(` (converted rules written to ${report.writtenTo})`) : '';
+    console.log(`   ${chalk.yellow('•')} ${report.path} - ${report.decision}${note}`);
+  }
+  console.log();
+}
+
+// Rule files detection had to skip or read without their frontmatter
+export function displayDetectionWarnings(detections: DetectionResult[]): void {
+  for (const warning of detections.flatMap(detection => detection.warnings)) {
+    console.warn(chalk.yellow(`Warning: ${warning}`));
+  }
+}
+
+// Registry entries that couldn't be parsed and were left out
+export function displayRegistryWarnings(warnings: string[]): void {
+  for (const warning of warnings) {
+    console.warn(chalk.yellow(`Warning: ${warning}`));
+  }
+}
+
+// Groups lossiness warnings by editor so each target's rules can be reviewed together
+export function displayConversionWarnings(warnings: ConversionWarning[]): void {
+  if (warnings.length === 0) return;
+
+  console.log(chalk.yellow('Needs manual review:'));
+  const byEditor = new Map<EditorType, ConversionWarning[]>();
+  for (const warning of warnings) {
+    byEditor.set(warning.editor, [...(byEditor.get(warning.editor) ?? []), warning]);
+  }
+  for (const [editor, editorWarnings] of byEditor) {
+    console.log(`   ${chalk.bold(getEditorConfig(editor).displayName)}`);
+    editorWarnings.forEach(warning => {
+      console.log(`     ${chalk.yellow('•')} ${warning.rule ? `${warning.rule}: ` : ''}${warning.message}`);
+    });
+  }
+  console.log();
+}
+
+/**
+ * One row per target editor: files written, the largest file against the per-file
+ * limit, and the total against the editor's overall budget, in characters.
+ */
+export function displaySizeBudgets(budgets: SizeBudget[]): void {
+  if (budgets.length === 0) return;
+
+  const rows = budgets.map(budget => [
+    getEditorConfig(budget.editor).displayName,
+    String(budget.files),
+    formatUsage(budget.largestFile, budget.maxFileSize),
+    formatUsage(budget.totalSize, budget.maxTotalSize)
+  ]);
+  const header = ['Editor', 'Files', 'Largest file', 'Total'];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column]?.length ?? 0)));
+  const pad = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column] ?? 0)).join('  ').trimEnd();
+
+  console.log(chalk.cyan('Size budget:'));
+  console.log(`   ${chalk.bold(pad(header))}`);
+  rows.forEach((row, index) => {
+    const budget = budgets[index];
+    const over = budget !== undefined && (
+      budget.oversizedFiles.length > 0 ||
+      (budget.maxTotalSize !== undefined && budget.totalSize > budget.maxTotalSize)
+    );
+    console.log(`   ${over ? chalk.red(pad(row)) : pad(row)}`);
+  });
+  console.log();
+}
+
+function formatUsage(size: number, limit: number | undefined): string {
+  if (limit === undefined) return size.toLocaleString('en-US');
+  return `${size.toLocaleString('en-US')} / ${limit.toLocaleString('en-US')} (${Math.round(size / limit * 100)}%)`;
+}
+
+export function parseSizeLimitPolicy(value: string | undefined): SizeLimitPolicy | undefined {
+  if (value === undefined) return undefined;
+  if (!(SIZE_LIMIT_POLICIES as string[]).includes(value)) {
+    throw new Error(`Invalid --on-size-limit value: ${value}\nValid values: ${SIZE_LIMIT_POLICIES.join(', ')}`);
+  }
+  return value as SizeLimitPolicy;
+}
+
+export function parseImportMode(value: string | undefined): ImportMode | undefined {
+  if (value === undefined) return undefined;
+  if (!(IMPORT_MODES as string[]).includes(value)) {
+    throw new Error(`Invalid --imports value: ${value}\nValid values: ${IMPORT_MODES.join(', ')}`);
+  }
+  return value as ImportMode;
+}
+
+export function parseImportSize(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const size = Number(value);
+  if (!Number.isInteger(size) || size < 0) {
+    throw new Error(`Invalid --emit-imports-above value: ${value}\nExpected a size in bytes, e.g. 4000`);
+  }
+  return size;
+}
+
+export function parseHeadingLevel(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const level = Number(value);
+  if (!HEADING_LEVELS.includes(level)) {
+    throw new Error(`Invalid --heading-level value: ${value}\nValid values: ${HEADING_LEVELS.join(', ')}`);
+  }
+  return level;
+}
+
+export function parseDuplicatePolicy(value: string | undefined): DuplicatePolicy | undefined {
+  if (value === undefined) return undefined;
+  if (!(DUPLICATE_POLICIES as string[]).includes(value)) {
+    throw new Error(`Invalid --on-duplicate value: ${value}\nValid values: ${DUPLICATE_POLICIES.join(', ')}`);
+  }
+  return value as DuplicatePolicy;
+}
+
+// Interactive resolver for rules that look alike in two of the merged editors
+export async function promptDuplicateDecision(duplicate: DuplicateRules): Promise<DuplicateDecision> {
+  const first = getEditorConfig(duplicate.first.source).displayName;
+  const second = getEditorConfig(duplicate.second.source).displayName;
+  requireInteractive(`${first} "${duplicate.first.name}" and ${second} "${duplicate.second.name}" look like the same rule; pass --on-duplicate=keep-first|keep-both|combine`);
+
+  const reason = duplicate.match === 'same-name'
+    ? 'have the same name'
+    : duplicate.match === 'same-content'
+      ? 'have the same content'
+      : `are ${Math.round(duplicate.similarity * 100)}% similar`;
+  console.log(chalk.yellow(`\n${first} "${duplicate.first.name}" and ${second} "${duplicate.second.name}" ${reason}:`));
+  for (const rule of [duplicate.first, duplicate.second]) {
+    const preview = rule.content.length > 60 ? `${rule.content.substring(0, 60)}...` : rule.content;
+    console.log(`   ${chalk.cyan('•')} ${chalk.bold(getEditorConfig(rule.source).displayName)} - ${chalk.gray(preview.replace(/\n/g, ' '))}`);
+  }
+
+  const { decision } = await inquirer.prompt({
+    type: 'list',
+    name: 'decision',
+    message: 'Which should I keep?',
+    choices: [
+      { name: `Keep the ${first} rule`, value: 'keep-first' },
+      { name: `Keep the ${second} rule`, value: 'keep-second' },
+      { name: 'Keep both', value: 'keep-both' },
+      { name: 'Combine them into one rule', value: 'combine' }
+    ],
+    default: 'keep-first'
+  });
+
+  return decision;
+}
+
+// Lists how duplicates were settled when several editors' rules were merged
+export function displayDuplicates(duplicates: DuplicateReport[]): void {
+  if (duplicates.length === 0) return;
+
+  console.log(chalk.cyan('Merged duplicates:'));
+  for (const duplicate of duplicates) {
+    const rules = duplicate.rules
+      .map(rule => `${getEditorConfig(rule.editor).displayName} "${rule.name}"`)
+      .join(' + ');
+    console.log(`   ${chalk.cyan('•')} ${rules} ${chalk.gray(`(${duplicate.match}) - ${duplicate.decision}`)}`);
+  }
+  console.log();
+}
@@ -0,0 +1,93 @@
+import chalk from 'chalk';
+import { UniversalRule } from '../types/index.js';
+import { findRegistryRule, getRegistryPath, loadRegistry } from '../registry/index.js';
+import { resolveEditorName } from '../utils/index.js';
+import { displayRegistryWarnings } from './preview.js';
+
+export interface ListCommandOptions {
+  editor?: string;
+  type?: string;
+}
+
+export async function listCommand(options: ListCommandOptions = {}): Promise<UniversalRule[]> {
+  const registry = await loadRegistry();
+  displayRegistryWarnings(registry.warnings);
+  let rules = registry.rules;
+
+  if (options.editor) {
+    const editor = resolveEditorName(options.editor);
+    if (!editor) {
+      throw new Error(`Unknown editor: ${options.editor}`);
+    }
+    rules = rules.filter(rule => rule.targetEditors.includes(editor));
+  }
+  if (options.type) {
+    rules = rules.filter(rule => rule.type === options.type);
+  }
+
+  if (rules.length === 0) {
+    console.log(chalk.yellow('No rules in the registry yet.'));
+    console.log(chalk.gray('   Add one with `crossrule add "Your rule" --type always --to all`.'));
+    return rules;
+  }
+
+  const rows = rules.map(rule => [
+    rule.name,
+    rule.type,
+    rule.targetEditors.join(', '),
+    `v${rule.metadata.version}`,
+    formatDate(rule.metadata.updated)
+  ]);
+  const headers = ['Name', 'Type', 'Targets', 'Version', 'Updated'];
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map(row => (row[column] ?? '').length)));
+  const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column] ?? 0)).join('  ').trimEnd();
+
+  console.log();
+  console.log(chalk.cyan.bold(formatRow(headers)));
+  rows.forEach(row => console.log(formatRow(row)));
+  console.log(chalk.gray(`\n${rules.length} ${rules.length === 1 ? 'rule' : 'rules'}\n`));
+  return rules;
+}
+
+export async function showCommand(nameOrId: string): Promise<UniversalRule> {
+  const rule = await findRegistryRule(nameOrId);
+  if (!rule) {
+    throw new Error(`No rule named or with id "${nameOrId}" in the registry`);
+  }
+
+  displayRule(rule);
+  return rule;
+}
+
+function displayRule(rule: UniversalRule): void {
+  console.log(chalk.green.bold(`\n${rule.name}`));
+  console.log(`${chalk.cyan('ID:')} ${rule.id}`);
+  console.log(`${chalk.cyan('Type:')} ${rule.type}`);
+  console.log(`${chalk.cyan('Target Editors:')} ${rule.targetEditors.join(', ')}`);
+
+  if (rule.patterns) {
+    console.log(`${chalk.cyan('Patterns:')} ${rule.patterns.join(', ')}`);
+  }
+  if (rule.context) {
+    console.log(`${chalk.cyan('Context:')} ${rule.context}`);
+  }
+  if (rule.description) {
+    console.log(`${chalk.cyan('Description:')} ${rule.description}`);
+  }
+
+  console.log(`${chalk.cyan('Version:')} ${rule.metadata.version}`);
+  console.log(`${chalk.cyan('Created:')} ${formatDate(rule.metadata.created)}`);
+  console.log(`${chalk.cyan('Updated:')} ${formatDate(rule.metadata.updated)}`);
+  console.log(`${chalk.cyan('Author:')} ${rule.metadata.author || 'Not specified'}`);
+  console.log(`${chalk.cyan('Content Hash:')} ${rule.metadata.contentHash}`);
+  console.log(`${chalk.cyan('File:')} ${getRegistryPath(rule)}`);
+
+  console.log(`\n${chalk.cyan('Content:')}`);
+  console.log(chalk.gray(rule.content.split('\n').map(line => `  ${line}`).join('\n')));
+  console.log();
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().replace('T', ' ').substring(0, 16);
+}
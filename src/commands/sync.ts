@@ -0,0 +1,163 @@
+import chalk from 'chalk';
+import { relative } from 'path';
+import { EditorType, SyncOptions, SyncResult, SyncStrategy } from '../types/index.js';
+import { runSync } from '../sync/index.js';
+import { watchSync } from '../sync/watch.js';
+import { getDefaultTargets, loadConfig } from '../config/index.js';
+import { getEditorConfig } from '../utils/index.js';
+import { displayConversionWarnings, displayWritePlan, parseEditor, parseEditors, parseHeadingLevel } from './preview.js';
+import { isJsonOutput } from './output.js';
+
+export interface SyncCommandOptions {
+  strategy?: string;
+  source?: string;
+  editors?: string;
+  prefer?: string;
+  rule?: string;
+  dryRun?: boolean;
+  backup?: boolean;
+  watch?: boolean;
+  headingLevel?: string;
+}
+
+const STRATEGIES: SyncStrategy[] = ['source-of-truth', 'bidirectional'];
+
+export async function syncCommand(options: SyncCommandOptions = {}): Promise<SyncResult> {
+  const result = await runSync(await parseSyncOptions(options));
+  displaySyncResult(result, options.dryRun ?? false);
+  return result;
+}
+
+/**
+ * Runs one sync, then keeps watching every editor's rule locations and syncing
+ * as files change, logging one line per event until interrupted with Ctrl+C.
+ */
+export async function syncWatchCommand(options: SyncCommandOptions = {}): Promise<void> {
+  if (options.dryRun || isJsonOutput()) {
+    throw new Error(`--watch cannot be combined with ${options.dryRun ? '--dry-run' : '--json'}`);
+  }
+  const syncOptions = await parseSyncOptions(options);
+
+  await syncCommand(options);
+
+  const watcher = await watchSync(syncOptions, {
+    onChange: files => files.forEach(file => logLine(chalk.gray('changed'), relative(process.cwd(), file))),
+    onSync: logSyncResult,
+    onError: error => logLine(chalk.red('error'), error instanceof Error ? error.message : String(error))
+  });
+  console.log(chalk.cyan(`Watching for rule changes (${syncOptions.strategy}). Press Ctrl+C to stop.`));
+
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', () => {
+      watcher.close();
+      console.log(chalk.gray('\nStopped watching.'));
+      resolve();
+    });
+  });
+}
+
+// Flags win over crossrule.config; a source of truth from either implies that strategy
+async function parseSyncOptions(options: SyncCommandOptions): Promise<SyncOptions> {
+  const { config } = await loadConfig();
+  const sourceOfTruth = options.source ? parseEditor(options.source) : config.sourceOfTruth;
+  const strategy = (options.strategy
+    ?? (options.source ? 'source-of-truth' : config.policies?.syncStrategy)
+    ?? (sourceOfTruth ? 'source-of-truth' : 'bidirectional')) as SyncStrategy;
+  if (!STRATEGIES.includes(strategy)) {
+    throw new Error(`Invalid strategy: ${options.strategy}\nValid strategies: ${STRATEGIES.join(', ')}`);
+  }
+  if (strategy === 'source-of-truth' && !sourceOfTruth) {
+    throw new Error('The source-of-truth strategy needs --source <editor>');
+  }
+
+  const editors = options.editors
+    ? parseEditors(options.editors)
+    : config.targets && getDefaultTargets(config);
+  const prefer = options.prefer ? parseEditor(options.prefer) : undefined;
+  const headingLevel = parseHeadingLevel(options.headingLevel) ?? config.headingLevel;
+
+  return {
+    strategy,
+    ...(strategy === 'source-of-truth' && sourceOfTruth && { sourceOfTruth }),
+    ...(editors && { editors }),
+    ...(prefer && { prefer }),
+    ...(options.rule && { rule: options.rule }),
+    ...(config.exclude?.editors && { exclude: config.exclude.editors }),
+    ...(config.exclude?.paths && { excludePaths: config.exclude.paths }),
+    ...(config.outputs && { outputs: config.outputs }),
+    ...(config.policies?.onUnsupported && { onUnsupported: config.policies.onUnsupported }),
+    ...(config.policies?.onSizeLimit && { onSizeLimit: config.policies.onSizeLimit }),
+    ...(headingLevel !== undefined && { headingLevel }),
+    dryRun: options.dryRun ?? false,
+    createBackup: options.backup !== false && config.policies?.backup !== false
+  };
+}
+
+function logLine(label: string, message: string): void {
+  const time = new Date().toTimeString().slice(0, 8);
+  console.log(`${chalk.gray(time)} ${label} ${message}`);
+}
+
+function logSyncResult(result: SyncResult): void {
+  const displayName = (editor: EditorType) => getEditorConfig(editor).displayName;
+
+  for (const change of result.changes) {
+    logLine(chalk.green('synced '), `${change.rule}: ${displayName(change.from)} → ${change.to.map(displayName).join(', ')}`);
+  }
+  for (const removal of result.removed) {
+    logLine(chalk.yellow('removed'), `${removal.rule} in ${removal.editors.map(displayName).join(', ')} (not propagated)`);
+  }
+  for (const conflict of result.conflicts) {
+    logLine(chalk.red('conflict'), `${conflict.rule} edited in ${conflict.editors.map(displayName).join(', ')}`);
+  }
+  result.errors.forEach(error => logLine(chalk.red('error'), error));
+  for (const warning of result.warnings) {
+    logLine(chalk.yellow('warning'), `${warning.rule ? `${warning.rule}: ` : ''}${warning.message}`);
+  }
+}
+
+export function displaySyncResult(result: SyncResult, dryRun: boolean): void {
+  const displayName = (editor: EditorType) => getEditorConfig(editor).displayName;
+
+  if (result.changes.length === 0 && result.conflicts.length === 0 && result.removed.length === 0) {
+    console.log(chalk.green('Everything is in sync.'));
+    return;
+  }
+
+  if (result.changes.length > 0) {
+    console.log(chalk.cyan.bold(dryRun ? '\nChanges to propagate:' : '\nPropagated changes:'));
+    for (const change of result.changes) {
+      console.log(`   ${chalk.bold(change.rule)} ${chalk.gray(displayName(change.from))} ${chalk.gray('→')} ${change.to.map(displayName).join(', ')}`);
+    }
+  }
+
+  if (result.removed.length > 0) {
+    console.log(chalk.yellow.bold('\nRemoved in some editors (not propagated):'));
+    for (const removal of result.removed) {
+      console.log(`   ${chalk.bold(removal.rule)} ${chalk.gray(`deleted in ${removal.editors.map(displayName).join(', ')}`)}`);
+    }
+    console.log(chalk.gray('   Run `crossrule remove <name>` to remove a rule everywhere.'));
+  }
+
+  if (result.conflicts.length > 0) {
+    console.log(chalk.red.bold('\nConflicts (edited in more than one editor):'));
+    for (const conflict of result.conflicts) {
+      console.log(`   ${chalk.bold(conflict.rule)}`);
+      conflict.files.forEach(file => console.log(`     ${chalk.gray('•')} ${file}`));
+    }
+    console.log(chalk.gray('   Reconcile them by hand, or re-run with --prefer <editor> to keep one version.'));
+  }
+
+  result.errors.forEach(error => console.log(`   ${chalk.red('•')} ${error}`));
+  if (result.warnings.length > 0) {
+    console.log();
+    displayConversionWarnings(result.warnings);
+  }
+
+  if (dryRun) {
+    displayWritePlan(result.plannedFiles);
+  } else if (result.backupId) {
+    console.log(chalk.gray(`\nPrevious versions saved. Run \`crossrule undo ${result.backupId}\` to revert.`));
+  }
+  console.log();
+}
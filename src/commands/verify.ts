@@ -0,0 +1,112 @@
+import chalk from 'chalk';
+import { resolve } from 'path';
+import { FieldFidelity, PairFidelity, VerifyResult } from '../types/index.js';
+import { detectAllRules, detectRulesForEditor } from '../parsers/index.js';
+import { FIDELITY_FIELDS, verifyConversions } from '../verify/index.js';
+import { filterExcludedRules, loadConfig } from '../config/index.js';
+import { getEditorConfig } from '../utils/index.js';
+import { displayDetectionWarnings, parseEditor, parseEditors } from './preview.js';
+
+export interface VerifyCommandOptions {
+  from?: string;
+  sources?: string;
+  targets?: string;
+  project?: string;
+  details?: boolean;
+}
+
+const FIELD_LETTERS = FIDELITY_FIELDS.map(field => field.charAt(0).toUpperCase());
+
+export async function verifyCommand(options: VerifyCommandOptions = {}): Promise<VerifyResult> {
+  const projectPath = resolve(options.project ?? '.');
+  const { config } = await loadConfig(projectPath);
+
+  // The rule set comes from --from, the configured source of truth, or the editor with the most rules
+  const fromName = options.from ?? config.sourceOfTruth;
+  const detectionOptions = {
+    ...(config.outputs && { outputs: config.outputs }),
+    ...(config.headingLevel !== undefined && { headingLevel: config.headingLevel })
+  };
+  const from = fromName ? parseEditor(fromName) : (await detectAllRules(projectPath, detectionOptions))[0]?.editor;
+  if (!from) {
+    throw new Error(`No rules found in ${projectPath} to verify`);
+  }
+  const detection = await detectRulesForEditor(from, projectPath, detectionOptions);
+  displayDetectionWarnings([detection]);
+  const rules = await filterExcludedRules(detection.rules, config.exclude?.paths, projectPath);
+  if (rules.length === 0) {
+    throw new Error(`No ${getEditorConfig(from).displayName} rules found in ${projectPath}`);
+  }
+
+  const ruleText = rules.length === 1 ? 'rule' : 'rules';
+  console.log(chalk.cyan(`Verifying ${rules.length} ${getEditorConfig(from).displayName} ${ruleText} across every editor pair...`));
+
+  const result = await verifyConversions(rules, {
+    ...(options.sources && { sources: parseEditors(options.sources) }),
+    ...(options.targets && { targets: parseEditors(options.targets) }),
+    ...(config.headingLevel !== undefined && { headingLevel: config.headingLevel })
+  });
+
+  displayFidelityMatrix(result);
+  if (options.details) {
+    displayDifferences(result.pairs);
+  }
+  return result;
+}
+
+const colorFor = (status: FieldFidelity) =>
+  status === 'preserved' ? chalk.green : status === 'changed' ? chalk.yellow : chalk.red;
+
+/**
+ * One row per source editor and one column per target. Each cell spells out the
+ * fields (Name, Description, Type, Patterns, Content), colored by what survived.
+ */
+function displayFidelityMatrix(result: VerifyResult): void {
+  const sources = Array.from(new Set(result.pairs.map(pair => pair.source)));
+  const targets = Array.from(new Set(result.pairs.map(pair => pair.target)));
+  const rowLabelWidth = Math.max(...sources.map(source => source.length), 'from \\ to'.length);
+  const columnWidth = Math.max(FIELD_LETTERS.length, ...targets.map(target => target.length));
+
+  console.log();
+  console.log(`${'from \\ to'.padEnd(rowLabelWidth)}  ${targets.map(target => chalk.bold(target.padEnd(columnWidth))).join('  ')}`);
+  for (const source of sources) {
+    const cells = targets.map(target => {
+      const pair = result.pairs.find(candidate => candidate.source === source && candidate.target === target);
+      if (!pair) return ''.padEnd(columnWidth);
+      if (pair.error) return chalk.red('error'.padEnd(columnWidth));
+      const letters = FIDELITY_FIELDS.map((field, index) => colorFor(pair.fields[field])(FIELD_LETTERS[index] ?? ''));
+      return letters.join('') + ' '.repeat(columnWidth - FIELD_LETTERS.length);
+    });
+    console.log(`${chalk.bold(source.padEnd(rowLabelWidth))}  ${cells.join('  ')}`);
+  }
+
+  const legend = FIDELITY_FIELDS.map((field, index) => `${FIELD_LETTERS[index]}=${field}`).join(' ');
+  console.log(chalk.gray(`\n${legend}`));
+  console.log(`${chalk.green('preserved')}  ${chalk.yellow('changed')}  ${chalk.red('dropped')}`);
+
+  const lossy = result.pairs.filter(pair => pair.error || pair.differences.length > 0);
+  if (lossy.length === 0) {
+    console.log(chalk.green('\nEvery field survives every conversion.\n'));
+  } else {
+    console.log(chalk.yellow(`\n${lossy.length} of ${result.pairs.length} pairs change or drop something.`));
+    console.log(chalk.gray('Run with --details to see each difference.\n'));
+  }
+}
+
+function displayDifferences(pairs: PairFidelity[]): void {
+  for (const pair of pairs) {
+    if (!pair.error && pair.differences.length === 0) continue;
+
+    console.log(chalk.bold(`${getEditorConfig(pair.source).displayName} → ${getEditorConfig(pair.target).displayName}`));
+    if (pair.error) {
+      console.log(`   ${chalk.red('•')} ${pair.error}`);
+    }
+    for (const difference of pair.differences) {
+      const detail = difference.field === 'content'
+        ? ''
+        : chalk.gray(` (${difference.before ?? 'none'} → ${difference.after ?? 'none'})`);
+      console.log(`   ${colorFor(difference.status)('•')} ${difference.rule}: ${difference.field} ${difference.status}${detail}`);
+    }
+    console.log();
+  }
+}
@@ -0,0 +1,238 @@
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, extname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import glob from 'fast-glob';
+import yaml from 'js-yaml';
+import {
+  ConfigLayer,
+  ConflictPolicy,
+  CrossRuleConfig,
+  EditorType,
+  LoadedConfig,
+  Rule,
+  SyncStrategy,
+  UniversalRuleType
+} from '../types/index.js';
+import { getAllEditorTypes, resolveEditorName } from '../utils/index.js';
+import { UNSUPPORTED_POLICIES } from '../converters/degrade.js';
+import { SIZE_LIMIT_POLICIES } from '../converters/limits.js';
+import { IMPORT_MODES } from '../imports/index.js';
+import { HEADING_LEVELS } from '../adapters/shared.js';
+
+// Looked up in this order in the project directory, then in the home directory
+export const CONFIG_FILES = [
+  'crossrule.config.json',
+  'crossrule.config.yaml',
+  'crossrule.config.yml',
+  'crossrule.config.js'
+];
+
+const RULE_TYPES: UniversalRuleType[] = ['always', 'pattern', 'manual', 'ai-decision'];
+const CONFLICT_POLICIES: ConflictPolicy[] = ['prompt', 'skip', 'overwrite', 'keep-both', 'fail'];
+const SYNC_STRATEGIES: SyncStrategy[] = ['source-of-truth', 'bidirectional'];
+
+export function findConfigFile(directory: string): string | null {
+  for (const fileName of CONFIG_FILES) {
+    const filePath = join(directory, fileName);
+    if (existsSync(filePath)) return filePath;
+  }
+  return null;
+}
+
+/**
+ * Loads the user config from the home directory and the project config, with
+ * project values taking precedence. Missing files simply contribute nothing.
+ */
+export async function loadConfig(projectPath = '.', options: { userConfig?: boolean } = {}): Promise<LoadedConfig> {
+  const candidates = [
+    ...(options.userConfig !== false ? [findConfigFile(homedir())] : []),
+    findConfigFile(resolve(projectPath))
+  ];
+  const paths = Array.from(new Set(candidates.filter((path): path is string => path !== null)));
+
+  const layers: ConfigLayer[] = [];
+  for (const path of paths) {
+    layers.push({ path, config: await readConfigFile(path) });
+  }
+
+  return {
+    config: layers.reduce<CrossRuleConfig>((merged, layer) => mergeConfigs(merged, layer.config), {}),
+    layers
+  };
+}
+
+export async function readConfigFile(filePath: string): Promise<CrossRuleConfig> {
+  return validateConfig(await readRawConfig(filePath), filePath);
+}
+
+/**
+ * Lists the adapter plugin paths from the user and project config. Plugins are
+ * read before the rest of the config is validated, because settings such as
+ * `targets` may name the editors those plugins add.
+ */
+export async function findPluginPaths(projectPath = '.'): Promise<string[]> {
+  const paths = [findConfigFile(homedir()), findConfigFile(resolve(projectPath))].filter((path): path is string => path !== null);
+  const plugins: string[] = [];
+  for (const path of new Set(paths)) {
+    const raw = await readRawConfig(path);
+    const listed = typeof raw === 'object' && raw !== null ? (raw as Record<string, unknown>).plugins : undefined;
+    if (listed === undefined) continue;
+    plugins.push(...validateConfig({ plugins: listed }, path).plugins ?? []);
+  }
+  return Array.from(new Set(plugins));
+}
+
+async function readRawConfig(filePath: string): Promise<unknown> {
+  let raw: unknown;
+  try {
+    switch (extname(filePath)) {
+      case '.json':
+        raw = JSON.parse(await fs.readFile(filePath, 'utf8'));
+        break;
+      case '.yaml':
+      case '.yml':
+        raw = yaml.load(await fs.readFile(filePath, 'utf8'));
+        break;
+      default: {
+        const module = await import(pathToFileURL(resolve(filePath)).href);
+        raw = module.default ?? module;
+      }
+    }
+  } catch (error) {
+    throw new Error(`Cannot read config ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return raw ?? {};
+}
+
+/**
+ * Checks a raw config object and normalises editor names (ids, display names
+ * or aliases) to editor ids. Unknown keys are rejected so typos don't go unnoticed.
+ */
+export function validateConfig(raw: unknown, source: string): CrossRuleConfig {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid config in ${source}: ${message}`);
+  };
+  const toEditor = (value: unknown, key: string): EditorType => {
+    const editor = typeof value === 'string' ? resolveEditorName(value) : null;
+    return editor ?? fail(`unknown editor "${String(value)}" in ${key}`);
+  };
+  const toEditors = (value: unknown, key: string): EditorType[] =>
+    Array.isArray(value) ? value.map(item => toEditor(item, key)) : fail(`${key} must be a list of editors`);
+  const toStrings = (value: unknown, key: string): string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string') ? value : fail(`${key} must be a list of strings`);
+  const toObject = (value: unknown, key: string): Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+      ? value as Record<string, unknown>
+      : fail(`${key} must be an object`);
+  const oneOf = <T extends string | number>(value: unknown, allowed: T[], key: string): T =>
+    allowed.includes(value as T) ? value as T : fail(`${key} must be one of ${allowed.join(', ')}`);
+  const checkKeys = (object: Record<string, unknown>, allowed: string[], prefix = '') => {
+    const unknown = Object.keys(object).filter(key => !allowed.includes(key));
+    if (unknown.length > 0) fail(`unknown setting ${unknown.map(key => `"${prefix}${key}"`).join(', ')}`);
+  };
+
+  const data = toObject(raw, 'the config');
+  checkKeys(data, ['targets', 'sourceOfTruth', 'exclude', 'defaultRuleType', 'author', 'outputs', 'plugins', 'policies', 'imports', 'headingLevel']);
+  const config: CrossRuleConfig = {};
+
+  if (data.targets !== undefined) config.targets = toEditors(data.targets, 'targets');
+  if (data.sourceOfTruth !== undefined) config.sourceOfTruth = toEditor(data.sourceOfTruth, 'sourceOfTruth');
+  if (data.defaultRuleType !== undefined) config.defaultRuleType = oneOf(data.defaultRuleType, RULE_TYPES, 'defaultRuleType');
+  if (data.author !== undefined) config.author = String(data.author);
+  if (data.headingLevel !== undefined) config.headingLevel = oneOf(data.headingLevel, HEADING_LEVELS, 'headingLevel');
+
+  if (data.exclude !== undefined) {
+    const exclude = toObject(data.exclude, 'exclude');
+    checkKeys(exclude, ['editors', 'paths'], 'exclude.');
+    config.exclude = {
+      ...(exclude.editors !== undefined && { editors: toEditors(exclude.editors, 'exclude.editors') }),
+      ...(exclude.paths !== undefined && { paths: toStrings(exclude.paths, 'exclude.paths') })
+    };
+  }
+
+  if (data.outputs !== undefined) {
+    config.outputs = {};
+    for (const [name, location] of Object.entries(toObject(data.outputs, 'outputs'))) {
+      if (typeof location !== 'string' || !location.trim()) fail(`outputs.${name} must be a path`);
+      config.outputs[toEditor(name, 'outputs')] = String(location);
+    }
+  }
+
+  if (data.plugins !== undefined) {
+    config.plugins = toStrings(data.plugins, 'plugins').map(plugin => resolve(dirname(source), plugin));
+  }
+
+  if (data.policies !== undefined) {
+    const policies = toObject(data.policies, 'policies');
+    checkKeys(policies, ['onConflict', 'onUnsupported', 'onSizeLimit', 'backup', 'syncStrategy'], 'policies.');
+    if (policies.backup !== undefined && typeof policies.backup !== 'boolean') fail('policies.backup must be true or false');
+    config.policies = {
+      ...(policies.onConflict !== undefined && { onConflict: oneOf(policies.onConflict, CONFLICT_POLICIES, 'policies.onConflict') }),
+      ...(policies.onUnsupported !== undefined && { onUnsupported: oneOf(policies.onUnsupported, UNSUPPORTED_POLICIES, 'policies.onUnsupported') }),
+      ...(policies.onSizeLimit !== undefined && { onSizeLimit: oneOf(policies.onSizeLimit, SIZE_LIMIT_POLICIES, 'policies.onSizeLimit') }),
+      ...(policies.backup !== undefined && { backup: policies.backup as boolean }),
+      ...(policies.syncStrategy !== undefined && { syncStrategy: oneOf(policies.syncStrategy, SYNC_STRATEGIES, 'policies.syncStrategy') })
+    };
+  }
+
+  if (data.imports !== undefined) {
+    const imports = toObject(data.imports, 'imports');
+    checkKeys(imports, ['mode', 'emitAbove'], 'imports.');
+    if (imports.emitAbove !== undefined && !(typeof imports.emitAbove === 'number' && imports.emitAbove >= 0)) {
+      fail('imports.emitAbove must be a size in bytes');
+    }
+    config.imports = {
+      ...(imports.mode !== undefined && { mode: oneOf(imports.mode, IMPORT_MODES, 'imports.mode') }),
+      ...(imports.emitAbove !== undefined && { emitAbove: imports.emitAbove as number })
+    };
+  }
+
+  return config;
+}
+
+// Later layers win; nested sections are merged key by key, lists are replaced except
+// plugins, which add up so user-level plugins stay loaded in every project
+export function mergeConfigs(base: CrossRuleConfig, override: CrossRuleConfig): CrossRuleConfig {
+  const merged: CrossRuleConfig = { ...base, ...override };
+  if (base.plugins && override.plugins) merged.plugins = Array.from(new Set([...base.plugins, ...override.plugins]));
+  if (base.exclude || override.exclude) merged.exclude = { ...base.exclude, ...override.exclude };
+  if (base.outputs || override.outputs) merged.outputs = { ...base.outputs, ...override.outputs };
+  if (base.policies || override.policies) merged.policies = { ...base.policies, ...override.policies };
+  if (base.imports || override.imports) merged.imports = { ...base.imports, ...override.imports };
+  return merged;
+}
+
+// Editors to target when none are given on the command line
+export function getDefaultTargets(config: CrossRuleConfig): EditorType[] {
+  const excluded = config.exclude?.editors ?? [];
+  return (config.targets ?? getAllEditorTypes()).filter(editor => !excluded.includes(editor));
+}
+
+export function isEditorExcluded(config: CrossRuleConfig, editor: EditorType): boolean {
+  return config.exclude?.editors?.includes(editor) ?? false;
+}
+
+/**
+ * Drops rules read from files matching the `exclude.paths` globs. Sections of a
+ * single file share its path, so excluding `CLAUDE.md` drops all of them.
+ */
+export async function filterExcludedRules(rules: Rule[], patterns: string[] | undefined, projectPath = '.'): Promise<Rule[]> {
+  if (!patterns || patterns.length === 0) return rules;
+
+  const isExcluded = await createPathExcluder(patterns, projectPath);
+  return rules.filter(rule => {
+    const filePath = rule.metadata?.filePath;
+    return typeof filePath !== 'string' || !isExcluded(filePath);
+  });
+}
+
+// Tells whether a file matches one of the `exclude.paths` globs
+export async function createPathExcluder(patterns: string[] | undefined, projectPath = '.'): Promise<(filePath: string) => boolean> {
+  if (!patterns || patterns.length === 0) return () => false;
+
+  const excluded = new Set(await glob(patterns, { cwd: resolve(projectPath), absolute: true, dot: true }));
+  return filePath => excluded.has(resolve(filePath).replace(/\\/g, '/'));
+}
@@ -0,0 +1,245 @@
+import { readFileSync } from 'fs';
+import { ConflictingDirective, ConflictsResult, Rule, RuleConflict } from '../types/index.js';
+import { isPatternRule } from '../adapters/shared.js';
+
+/**
+ * Opposing directives, grouped by topic. Two rules conflict when one asks for
+ * an option the other rules out, or each asks for a different option of the
+ * same topic. Topics with a single option only conflict through negation
+ * ("use enums" vs "avoid enums").
+ */
+const DIRECTIVES: { topic: string; options: Record<string, RegExp> }[] = [
+  {
+    topic: 'indentation',
+    options: {
+      tabs: /\btabs\b|\btab[- ]indent\w*/i,
+      '2 spaces': /\b(?:2|two)[- ]spaces?\b/i,
+      '4 spaces': /\b(?:4|four)[- ]spaces?\b/i
+    }
+  },
+  { topic: 'semicolons', options: { semicolons: /\bsemi-?colons?\b/i } },
+  {
+    topic: 'quotes',
+    options: {
+      'single quotes': /\bsingle[- ]quot(?:es?|ed)\b/i,
+      'double quotes': /\bdouble[- ]quot(?:es?|ed)\b/i
+    }
+  },
+  {
+    topic: 'exports',
+    options: {
+      'default exports': /\bdefault exports?\b|\bexport default\b/i,
+      'named exports': /\bnamed exports?\b/i
+    }
+  },
+  {
+    topic: 'type declarations',
+    options: {
+      interfaces: /\b(?:use|prefer)\s+interfaces?\b|\binterfaces?\s+(?:over|instead of|rather than)\b|\b(?:over|instead of|rather than)\s+interfaces?\b/i,
+      'type aliases': /\btype alias(?:es)?\b/i
+    }
+  },
+  {
+    topic: 'function style',
+    options: {
+      'arrow functions': /\barrow functions?\b/i,
+      'function declarations': /\bfunction declarations?\b|\bfunction keyword\b/i
+    }
+  },
+  {
+    topic: 'React components',
+    options: {
+      'function components': /\bfunction(?:al)? components?\b/i,
+      'class components': /\bclass(?:-based)? components?\b/i
+    }
+  },
+  {
+    topic: 'async code',
+    options: {
+      'async/await': /\basync\s*\/\s*await\b/i,
+      'promise chains': /\bpromise chains?\b|\.then\(\)? chains?\b/i
+    }
+  },
+  { topic: 'enums', options: { enums: /\benums?\b/i } },
+  {
+    topic: 'package manager',
+    options: { npm: /\bnpm\b/i, yarn: /\byarn\b/i, pnpm: /\bpnpm\b/i, bun: /\bbun\b/i }
+  },
+  {
+    topic: 'test framework',
+    options: { Jest: /\bjest\b/i, Vitest: /\bvitest\b/i, Mocha: /\bmocha\b/i }
+  },
+  {
+    topic: 'styling',
+    options: {
+      Tailwind: /\btailwind\b/i,
+      'CSS modules': /\bcss modules\b/i,
+      'styled-components': /\bstyled[- ]components\b/i
+    }
+  }
+];
+
+// Right before the option and governing its verb: "never use tabs", "avoid default exports",
+// "don't add any semicolons". "Do not mock Jest timers" is about mocking, so it doesn't count.
+// At most one modifier may sit in between ("avoid TypeScript enums"), but no other verb.
+const NEGATION = /\b(?:(?:never|don'?t|do not|stop)\s+(?:use|using|add|adding|write|writing|include|including|introduce|rely on)|avoid(?:\s+using)?|disallow|forbid|ban|without(?:\s+using)?)\s+(?:(?:any|the|a|an)\s+)?(?:(?!\w+ing\b)[\w-]+\s+)?$/i;
+// Set against another option: "2 spaces, not tabs"
+const CONTRAST = /[,;]\s*(?:but\s+)?not\s+$/i;
+// Right before the option: "prefer named exports over default exports"
+const COMPARATIVE = /\b(?:over|instead of|rather than)\s+(?:\S+\s+)?$/i;
+
+interface Mention {
+  topic: string;
+  option: string;
+  negated: boolean;
+  text: string;
+  line: string;                 // The line of rule content the mention is on
+}
+
+/**
+ * Finds likely contradictions between rules: pairs that state opposing
+ * directives from the catalogue above and whose scopes overlap. Always-on and
+ * other rules without patterns apply everywhere; pattern rules overlap when
+ * their globs could match the same files. Copies of one statement in several
+ * editors are reported once.
+ */
+export function findRuleConflicts(rules: Rule[]): ConflictsResult {
+  const mentions = rules.map(findMentions);
+  const conflicts: RuleConflict[] = [];
+  const reported = new Set<string>();
+
+  for (let i = 0; i < rules.length; i++) {
+    for (let j = i + 1; j < rules.length; j++) {
+      const first = rules[i];
+      const second = rules[j];
+      if (!first || !second || !scopesOverlap(first, second)) continue;
+
+      for (const { topic } of DIRECTIVES) {
+        const pair = findOpposingMentions(
+          mentions[i]?.filter(mention => mention.topic === topic) ?? [],
+          mentions[j]?.filter(mention => mention.topic === topic) ?? []
+        );
+        if (!pair) continue;
+
+        const key = [topic, ...[pair[0].text, pair[1].text].map(text => text.toLowerCase()).sort()].join('\0');
+        if (reported.has(key)) continue;
+        reported.add(key);
+        conflicts.push({ topic, directives: [toDirective(first, pair[0]), toDirective(second, pair[1])] });
+      }
+    }
+  }
+
+  return { rules: rules.length, conflicts };
+}
+
+function findMentions(rule: Rule): Mention[] {
+  const mentions: Mention[] = [];
+  // Code samples show syntax, not directives
+  const prose = rule.content.replace(/```[\s\S]*?```/g, '');
+
+  for (const line of prose.split('\n')) {
+    for (const sentence of line.split(/(?<=[.!?])\s+/)) {
+      for (const { topic, options } of DIRECTIVES) {
+        for (const [option, pattern] of Object.entries(options)) {
+          const match = pattern.exec(sentence);
+          if (!match) continue;
+          const before = sentence.slice(0, match.index);
+          mentions.push({
+            topic,
+            option,
+            negated: NEGATION.test(before) || CONTRAST.test(before) || COMPARATIVE.test(before),
+            text: sentence.trim().replace(/^[-*+]\s+|^\d+\.\s+/, ''),
+            line
+          });
+        }
+      }
+    }
+  }
+  return mentions;
+}
+
+// One rule asks for an option the other rules out, or each settles on a different option
+function findOpposingMentions(first: Mention[], second: Mention[]): [Mention, Mention] | null {
+  const endorsed = (mentions: Mention[]) => mentions.filter(mention => !mention.negated);
+  const rejected = (mentions: Mention[]) => mentions.filter(mention =>
+    mention.negated && !mentions.some(other => !other.negated && other.option === mention.option));
+
+  for (const mention of endorsed(first)) {
+    const opposing = rejected(second).find(other => other.option === mention.option);
+    if (opposing) return [mention, opposing];
+  }
+  for (const mention of rejected(first)) {
+    const opposing = endorsed(second).find(other => other.option === mention.option);
+    if (opposing) return [mention, opposing];
+  }
+
+  // A rule naming several options ("tabs in Makefiles, 2 spaces elsewhere") has no single choice
+  const firstChoices = new Set(endorsed(first).map(mention => mention.option));
+  const secondChoices = new Set(endorsed(second).map(mention => mention.option));
+  const [firstChoice] = endorsed(first);
+  const [secondChoice] = endorsed(second);
+  if (firstChoices.size === 1 && secondChoices.size === 1 && firstChoice && secondChoice && firstChoice.option !== secondChoice.option) {
+    return [firstChoice, secondChoice];
+  }
+  return null;
+}
+
+function toDirective(rule: Rule, mention: Mention): ConflictingDirective {
+  const filePath = rule.metadata?.filePath;
+  const file = typeof filePath === 'string' ? filePath : undefined;
+  const line = file ? findLine(file, mention.line) : undefined;
+  return {
+    editor: rule.source,
+    rule: rule.name,
+    ...(file && { file }),
+    ...(line !== undefined && { line }),
+    text: mention.text,
+    stance: mention.negated ? `no ${mention.option}` : mention.option
+  };
+}
+
+function findLine(file: string, line: string): number | undefined {
+  try {
+    const index = readFileSync(file, 'utf-8').split('\n').findIndex(candidate => candidate.trim() === line.trim());
+    return index === -1 ? undefined : index + 1;
+  } catch {
+    return undefined;
+  }
+}
+
+function scopesOverlap(first: Rule, second: Rule): boolean {
+  const firstPatterns = isPatternRule(first) ? first.patterns ?? [] : [];
+  const secondPatterns = isPatternRule(second) ? second.patterns ?? [] : [];
+  if (firstPatterns.length === 0 || secondPatterns.length === 0) return true;
+  return firstPatterns.some(a => secondPatterns.some(b => patternsOverlap(a, b)));
+}
+
+/**
+ * Whether two globs could match a common file, judged from their literal
+ * directory prefix and file extensions: `src/**\/*.ts` overlaps `src/api/*.ts`
+ * but not `docs/**` or `src/**\/*.css`. Errs on the side of overlapping.
+ */
+function patternsOverlap(a: string, b: string): boolean {
+  const prefixA = getLiteralPrefix(a);
+  const prefixB = getLiteralPrefix(b);
+  if (!prefixA.startsWith(prefixB) && !prefixB.startsWith(prefixA)) return false;
+
+  const extensionsA = getExtensions(a);
+  const extensionsB = getExtensions(b);
+  return !extensionsA || !extensionsB || extensionsA.some(extension => extensionsB.includes(extension));
+}
+
+// The directories before the first wildcard, e.g. 'src/api/' for 'src/api/**/*.ts'
+function getLiteralPrefix(pattern: string): string {
+  const normalized = pattern.replace(/^\.\//, '');
+  const wildcard = normalized.search(/[*?[{]/);
+  const literal = wildcard === -1 ? normalized : normalized.slice(0, wildcard);
+  return literal.slice(0, literal.lastIndexOf('/') + 1);
+}
+
+// ['ts', 'tsx'] for '*.{ts,tsx}'; null when any extension matches
+function getExtensions(pattern: string): string[] | null {
+  const match = /\.(\{[^}]+\}|[\w-]+)$/.exec(pattern);
+  if (!match?.[1]) return null;
+  return match[1].replace(/[{}]/g, '').split(',').map(extension => extension.trim().toLowerCase());
+}
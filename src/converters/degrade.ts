@@ -0,0 +1,139 @@
+import { ConversionWarning, EditorType, Rule, RuleType, UniversalRule, UnsupportedPolicy } from '../types/index.js';
+import { getEditorConfig } from '../utils/index.js';
+import { isRuleTypeSupported, toRuleType } from './warnings.js';
+import { getScopeDirectory } from '../scopes/index.js';
+
+export const UNSUPPORTED_POLICIES: UnsupportedPolicy[] = ['skip', 'downgrade-to-always', 'embed-as-text', 'error'];
+
+// The embedded block reads naturally for the AI, and the comments let the parser restore the original type
+const EMBED_START = '<!-- crossrule:activation';
+const EMBED_END = '<!-- /crossrule:activation -->';
+// Patterns are a JSON array in single quotes; older files list them comma-separated in double quotes
+const EMBED_PATTERN = /<!-- crossrule:activation type="([^"]+)"(?: patterns=(?:'([^']*)'|"([^"]*)"))? -->\n[\s\S]*?\n<!-- \/crossrule:activation -->\n*/;
+
+export interface DegradedRule<T> {
+  rule: T | null;               // null when the policy skips the rule
+  warnings: ConversionWarning[];
+}
+
+/**
+ * Applies the --on-unsupported policy to a rule whose type the target editor
+ * can't express. Supported rules pass through untouched. A pattern rule that
+ * covers one directory loses nothing in an editor with nested rule files: it
+ * becomes an always-on rule for that directory (`metadata.directory`).
+ */
+export function degradeRule(rule: Rule, editor: EditorType, policy: UnsupportedPolicy): DegradedRule<Rule> {
+  if (isRuleTypeSupported(rule.type, editor)) {
+    return { rule, warnings: [] };
+  }
+
+  const { patterns: _patterns, ...withoutPatterns } = rule;
+  const directory = getEditorConfig(editor).directoryScoped ? getScopeDirectory(rule) : null;
+  if (directory) {
+    return { rule: { ...withoutPatterns, type: 'always', metadata: { ...rule.metadata, directory } }, warnings: [] };
+  }
+
+  const warning = getPolicyWarning(rule.name, rule.type, editor, policy);
+  switch (policy) {
+    case 'skip':
+      return { rule: null, warnings: [warning] };
+    case 'downgrade-to-always':
+      return { rule: { ...withoutPatterns, type: 'always' }, warnings: [warning] };
+    case 'embed-as-text':
+      return {
+        rule: { ...withoutPatterns, type: 'always', content: embedActivation(rule.content, rule.type, rule.patterns, rule.description) },
+        warnings: [warning]
+      };
+    case 'error':
+      throw new Error(warning.message);
+  }
+}
+
+export function degradeUniversalRule(rule: UniversalRule, editor: EditorType, policy: UnsupportedPolicy): DegradedRule<UniversalRule> {
+  const type = toRuleType(rule.type);
+  if (isRuleTypeSupported(type, editor)) {
+    return { rule, warnings: [] };
+  }
+
+  const warning = getPolicyWarning(rule.name, rule.type, editor, policy);
+  const { patterns: _patterns, context: _context, ...withoutActivation } = rule;
+  switch (policy) {
+    case 'skip':
+      return { rule: null, warnings: [warning] };
+    case 'downgrade-to-always':
+      return { rule: { ...withoutActivation, type: 'always' }, warnings: [warning] };
+    case 'embed-as-text':
+      return {
+        rule: { ...withoutActivation, type: 'always', content: embedActivation(rule.content, type, rule.patterns, rule.context) },
+        warnings: [warning]
+      };
+    case 'error':
+      throw new Error(warning.message);
+  }
+}
+
+function getPolicyWarning(name: string, type: string, editor: EditorType, policy: UnsupportedPolicy): ConversionWarning {
+  const displayName = getEditorConfig(editor).displayName;
+  const outcome: Record<UnsupportedPolicy, string> = {
+    'skip': 'skipped',
+    'downgrade-to-always': 'converted to an always-on rule',
+    'embed-as-text': 'converted to an always-on rule with its activation described in the text',
+    'error': 'not converted'
+  };
+  return {
+    rule: name,
+    editor,
+    kind: 'type-unsupported',
+    message: `${displayName} has no "${type}" rules; ${outcome[policy]}`
+  };
+}
+
+/**
+ * Prefixes content with a readable note on when the rule applies, wrapped in
+ * comments that `extractEmbeddedActivation` understands.
+ */
+export function embedActivation(content: string, type: RuleType, patterns?: string[], context?: string): string {
+  // JSON keeps commas inside brace globs like `*.{ts,tsx}` from splitting a pattern
+  const patternAttribute = patterns && patterns.length > 0 ? ` patterns='${JSON.stringify(patterns).replace(/'/g, '\\u0027')}'` : '';
+  return `${EMBED_START} type="${type}"${patternAttribute} -->\n${describeActivation(type, patterns, context)}\n${EMBED_END}\n\n${content}`;
+}
+
+function describeActivation(type: RuleType, patterns?: string[], context?: string): string {
+  switch (type) {
+    case 'auto-attached':
+    case 'glob-pattern':
+    case 'specific-files':
+      return `Only apply this rule when working with files matching: ${(patterns ?? []).join(', ')}`;
+    case 'agent-requested':
+    case 'model-decision':
+      return context ? `Only apply this rule when it is relevant: ${context}` : 'Only apply this rule when it is relevant to the task.';
+    case 'manual':
+      return 'Only apply this rule when it is explicitly requested.';
+    default:
+      return 'Always apply this rule.';
+  }
+}
+
+// Restores the type and patterns an embedded block describes, and removes the block
+export function extractEmbeddedActivation(content: string): { content: string; type: RuleType; patterns?: string[] } | null {
+  const match = content.match(EMBED_PATTERN);
+  if (!match) return null;
+
+  const patterns = (match[2] !== undefined ? parsePatternList(match[2]) : match[3]?.split(','))
+    ?.map(pattern => pattern.trim())
+    .filter(Boolean) ?? [];
+  return {
+    content: content.replace(EMBED_PATTERN, ''),
+    type: match[1] as RuleType,
+    ...(patterns.length > 0 && { patterns })
+  };
+}
+
+function parsePatternList(json: string): string[] {
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed.filter((pattern): pattern is string => typeof pattern === 'string') : [];
+  } catch {
+    return [];
+  }
+}
@@ -1,23 +1,33 @@
-import { writeFileSync, mkdirSync, existsSync } from 'fs';
 import { join } from 'path';
-import matter from 'gray-matter';
-import { Rule, EditorType, ConversionResult } from '../types/index.js';
-import { EDITOR_CONFIGS, getEditorByDisplayName, getAgentsSharedDescription } from '../utils/index.js';
+import { Rule, EditorAdapter, EditorType, ConversionResult, ConversionWarning, ConvertRulesOptions, UnsupportedPolicy } from '../types/index.js';
+import { getEditorByDisplayName, slugifyRuleName } from '../utils/index.js';
+import { getAdapter, removeSection, upsertSection } from '../adapters/index.js';
+import { WritePlan, createWritePlan, applyWritePlan, applyConflictPolicy } from '../plan/index.js';
+import { getConversionWarnings } from './warnings.js';
+import { getOutputDirectory } from '../scopes/index.js';
+import { emitRuleImport } from '../imports/index.js';
+import { isPreambleRule } from '../adapters/shared.js';
+import { degradeRule } from './degrade.js';
+import { enforceSizeLimits, formatSize, splitOversizedRule } from './limits.js';
 
 export async function convertRules(
   sourceRules: Rule[],
   targetEditors: string[],
-  outputPath = '.'
+  outputPath = '.',
+  options: ConvertRulesOptions = {}
 ): Promise<ConversionResult> {
   const result: ConversionResult = {
     success: true,
     converted: 0,
     skipped: 0,
     errors: [],
-    outputFiles: []
+    outputFiles: [],
+    warnings: [],
+    sizeBudgets: []
   };
   const perEditorOutputs: Partial<Record<EditorType, string[]>> = {};
   const editorSelections = new Map<EditorType, string[]>();
+  const plan = createWritePlan();
 
   for (const editorName of targetEditors) {
     const editorType = getEditorByDisplayName(editorName);
@@ -32,10 +42,18 @@ export async function convertRules(
 
   for (const [editorType, names] of editorSelections.entries()) {
     try {
-      const files = await convertToEditor(sourceRules, editorType, outputPath);
+      const degraded = degradeRules(sourceRules, editorType, options.onUnsupported ?? 'downgrade-to-always');
+      const { rules, warnings } = splitOversizedRules(degraded.rules, editorType);
+      const files = await convertToEditor(rules, editorType, outputPath, plan, options.outputs?.[editorType], {
+        ...(options.emitImportsAbove !== undefined && { emitImportsAbove: options.emitImportsAbove }),
+        ...(options.headingLevel !== undefined && { headingLevel: options.headingLevel })
+      });
+      const limits = enforceSizeLimits(editorType, files, plan, options.onSizeLimit ?? 'warn');
       result.outputFiles.push(...files);
       result.converted += files.length;
       perEditorOutputs[editorType] = files;
+      result.warnings.push(...degraded.warnings, ...warnings, ...limits.warnings);
+      result.sizeBudgets.push(limits.budget);
     } catch (error) {
       const displayNames = names.join(', ');
       result.errors.push(`Failed to convert to ${displayNames}: ${error}`);
@@ -43,293 +61,198 @@ export async function convertRules(
     }
   }
 
+  if (!options.dryRun) {
+    try {
+      result.fileReports = await applyConflictPolicy(plan, {
+        ...(options.onConflict && { onConflict: options.onConflict }),
+        ...(options.resolveConflict && { resolveConflict: options.resolveConflict }),
+        projectPath: outputPath
+      });
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : String(error));
+      result.success = false;
+      result.plannedFiles = plan.files();
+      return result;
+    }
+
+    for (const report of result.fileReports) {
+      if (report.decision === 'skipped') {
+        result.skipped++;
+        result.converted--;
+      }
+      if (report.decision === 'skipped' || report.decision === 'kept-both') {
+        const replacement = report.writtenTo ? [report.writtenTo] : [];
+        result.outputFiles = result.outputFiles.flatMap(file => file === report.path ? replacement : [file]);
+        for (const [editorType, files] of Object.entries(perEditorOutputs) as [EditorType, string[]][]) {
+          perEditorOutputs[editorType] = files.flatMap(file => file === report.path ? replacement : [file]);
+        }
+      }
+    }
+  }
+
   if (Object.keys(perEditorOutputs).length > 0) {
     result.perEditorOutputFiles = perEditorOutputs;
   }
 
+  result.plannedFiles = plan.files();
+  if (!options.dryRun) {
+    const { backup } = await applyWritePlan(plan, {
+      createBackup: options.createBackup ?? true,
+      projectPath: outputPath,
+      command: 'convert'
+    });
+    if (backup) {
+      result.backupId = backup.id;
+    }
+  }
+
   return result;
 }
 
-async function convertToEditor(
-  rules: Rule[],
-  targetEditor: EditorType,
-  basePath: string
-): Promise<string[]> {
-  const config = EDITOR_CONFIGS[targetEditor];
-  const outputFiles: string[] = [];
-  
-  // Special handling for single-file editors like Codex CLI
-  if (targetEditor === 'codex' || targetEditor === 'claude-code' || targetEditor === 'qwencoder') {
-    return convertToSingleFile(rules, targetEditor, basePath);
+/**
+ * Applies the unsupported-type policy to every rule bound for one editor and
+ * collects what was lost along the way. Throws when the policy is 'error'.
+ */
+export function degradeRules(rules: Rule[], editor: EditorType, policy: UnsupportedPolicy): { rules: Rule[]; warnings: ConversionWarning[] } {
+  const kept: Rule[] = [];
+  const warnings: ConversionWarning[] = [];
+  for (const rule of rules) {
+    const degraded = degradeRule(rule, editor, policy);
+    warnings.push(...degraded.warnings);
+    if (degraded.rule) {
+      kept.push(degraded.rule);
+      warnings.push(...getConversionWarnings(degraded.rule, editor));
+    }
   }
-  
-  // Determine output directory for multi-file editors
-  const outputDir = join(basePath, config.locations[0] || '.');
-  
-  // Ensure output directory exists
-  if (!existsSync(outputDir)) {
-    mkdirSync(outputDir, { recursive: true });
+  return { rules: kept, warnings };
+}
+
+/**
+ * Splits rules that would overflow a multi-file editor's maxFileSize into numbered
+ * parts. Single-file editors keep every rule in one file, so nothing is split there.
+ * Converting the parts deletes the rule's unsplit file.
+ */
+export function splitOversizedRules(rules: Rule[], editor: EditorType): { rules: Rule[]; warnings: ConversionWarning[] } {
+  const adapter = getAdapter(editor);
+  const maxFileSize = adapter.config.maxFileSize;
+  if (maxFileSize === undefined || adapter.singleFile) {
+    return { rules, warnings: [] };
   }
 
+  const split: Rule[] = [];
+  const warnings: ConversionWarning[] = [];
   for (const rule of rules) {
-    try {
-      const convertedContent = convertRuleContent(rule, targetEditor);
-      const fileName = generateFileName(rule, targetEditor);
-      const filePath = join(outputDir, fileName);
-      
-      writeFileSync(filePath, convertedContent, 'utf-8');
-      outputFiles.push(filePath);
-    } catch (error) {
-      throw new Error(`Failed to convert rule ${rule.name}: ${error}`);
+    const parts = splitOversizedRule(rule, maxFileSize, part => adapter.serialize(part));
+    if (parts.length > 1) {
+      warnings.push({
+        rule: rule.name,
+        editor,
+        kind: 'rule-split',
+        message: `split into ${parts.length} files at its headings to stay under ${adapter.config.displayName}'s limit of ${formatSize(maxFileSize)} per file`
+      });
     }
+    split.push(...parts);
   }
-
-  return outputFiles;
+  return { rules: split, warnings };
 }
 
-async function convertToSingleFile(
+// Stages one editor's files in the given plan; sync uses this to build a single plan across editors.
+// `location` replaces the editor's default directory (or file, for single-file editors).
+// Rules scoped to a directory go to the editor's rule location inside that directory.
+export async function convertToEditor(
   rules: Rule[],
   targetEditor: EditorType,
-  basePath: string
+  basePath: string,
+  plan: WritePlan,
+  location?: string,
+  options: Pick<ConvertRulesOptions, 'emitImportsAbove' | 'headingLevel'> = {}
 ): Promise<string[]> {
-  const config = EDITOR_CONFIGS[targetEditor];
-  const fileName = config.locations[0]; // e.g., 'AGENTS.md', 'CLAUDE.md', 'QWEN.md'
-  const filePath = join(basePath, fileName || 'rules.md');
-  
-  let content = '';
-  
-  // Add header based on editor type
-  switch (targetEditor) {
-    case 'codex':
-      content = '# Project Agent Rules\n\n';
-      content += `${getAgentsSharedDescription()}\n`;
-      content += '*Converted rules from multiple sources*\n\n';
-      break;
-    case 'claude-code':
-      content = '# CLAUDE.md\n\n';
-      content += 'This file provides guidance to Claude Code when working with code in this repository.\n\n';
-      break;
-    case 'qwencoder':
-      content = '# Project Context Rules\n\n';
-      content += '*AI coding assistant guidance*\n\n';
-      break;
-  }
-  
-  // Add each rule as a section
-  for (let i = 0; i < rules.length; i++) {
-    const rule = rules[i];
-    if (!rule) continue;
-    
-    // Add section delimiter based on editor
-    if (targetEditor === 'codex' || targetEditor === 'qwencoder') {
-      content += `---- ${rule.name} ----\n\n`;
+  const adapter = getAdapter(targetEditor, options.headingLevel);
+  const nested = new Map<string, Rule[]>();
+  const rootRules: Rule[] = [];
+  for (const rule of rules) {
+    const directory = getOutputDirectory(rule, targetEditor);
+    if (directory) {
+      nested.set(directory, [...(nested.get(directory) ?? []), rule]);
     } else {
-      // For other single-file editors like CLAUDE.md, use regular markdown sections
-      content += `## ${rule.description || rule.name}\n\n`;
-    }
-    
-    // Add rule content
-    content += rule.content;
-    
-    // Add spacing between sections
-    if (i < rules.length - 1) {
-      content += '\n\n';
+      rootRules.push(rule);
     }
   }
-  
-  writeFileSync(filePath, content, 'utf-8');
-  return [filePath];
-}
 
-function convertRuleContent(rule: Rule, targetEditor: EditorType): string {
-  switch (targetEditor) {
-    case 'cursor':
-      return convertToCursor(rule);
-    case 'windsurf':
-      return convertToWindsurf(rule);
-    case 'cline':
-      return convertToCline(rule);
-    case 'vscode':
-      return convertToVSCode(rule);
-    case 'codex':
-      return convertToCodex(rule);
-    case 'claude-code':
-      return convertToClaudeCode(rule);
-    case 'qoder':
-      return convertToQoder(rule);
-    case 'trae':
-      return convertToTrae(rule);
-    case 'qwencoder':
-      return convertToQwenCoder(rule);
-    default:
-      throw new Error(`Unsupported target editor: ${targetEditor}`);
+  const nestedFiles: string[] = [];
+  for (const [directory, directoryRules] of nested) {
+    nestedFiles.push(...await convertToLocation(directoryRules, adapter, join(basePath, directory), plan, undefined, options));
   }
-}
-
-function generateFileName(rule: Rule, targetEditor: EditorType): string {
-  const config = EDITOR_CONFIGS[targetEditor];
-  const baseName = rule.name.toLowerCase().replace(/[^a-z0-9]/g, '-');
-  
-  const extension = config.fileFormats[0];
-  return `${baseName}${extension}`;
-}
-
-// Editor-specific conversion functions
-
-function convertToCursor(rule: Rule): string {
-  const frontmatter: any = {
-    description: rule.description || `Converted from ${rule.source}`
-  };
-
-  // Map rule types to Cursor format
-  switch (rule.type) {
-    case 'always':
-      frontmatter.alwaysApply = true;
-      break;
-    case 'auto-attached':
-    case 'glob-pattern':
-    case 'specific-files':
-      if (rule.patterns) {
-        frontmatter.globs = rule.patterns;
-      }
-      break;
+  // Don't create an empty root file just because every rule is nested
+  const rootPath = join(basePath, location ?? adapter.config.locations[0] ?? '.');
+  if (rootRules.length === 0 && nested.size > 0 && (!adapter.singleFile || plan.read(rootPath) === null)) {
+    return nestedFiles;
   }
-
-  return matter.stringify(rule.content, frontmatter);
+  return [...await convertToLocation(rootRules, adapter, basePath, plan, location, options), ...nestedFiles];
 }
 
-function convertToWindsurf(rule: Rule): string {
-  const frontmatter: any = {
-    description: rule.description || `Converted from ${rule.source}`
-  };
-
-  // Map rule types
-  switch (rule.type) {
-    case 'always':
-      frontmatter.alwaysApply = true;
-      break;
-    case 'auto-attached':
-    case 'glob-pattern':
-    case 'specific-files':
-      if (rule.patterns) {
-        frontmatter.globs = rule.patterns.join(',');
+async function convertToLocation(
+  rules: Rule[],
+  adapter: EditorAdapter,
+  basePath: string,
+  plan: WritePlan,
+  location?: string,
+  options: Pick<ConvertRulesOptions, 'emitImportsAbove' | 'headingLevel'> = {}
+): Promise<string[]> {
+  if (adapter.singleFile) {
+    const filePath = join(basePath, location ?? adapter.config.locations[0] ?? adapter.fileName({ name: 'rules' }));
+    const importFiles: string[] = [];
+    // Each rule updates its own managed region and regions of rules that are gone
+    // are dropped; whatever else is in the file stays
+    let content = plan.read(filePath);
+    for (const rule of rules) {
+      const emitted = shouldEmitImport(rule, adapter, options.emitImportsAbove)
+        ? emitRuleImport(rule, filePath, adapter.config.importDirectory ?? '.')
+        : null;
+      if (emitted) {
+        plan.write(emitted.file.path, emitted.file.content);
+        importFiles.push(emitted.file.path);
       }
-      break;
-  }
-
-  return matter.stringify(rule.content, frontmatter);
-}
-
-function convertToCline(rule: Rule): string {
-  let content = '';
-  
-  // Add title
-  if (rule.description) {
-    content += `# ${rule.description}\n\n`;
-  } else {
-    content += `# ${rule.name}\n\n`;
-  }
-
-  // Add conversion note
-  content += `*Converted from ${rule.source} rules*\n\n`;
-  
-  // Add main content
-  content += rule.content;
-
-  return content;
-}
-
-function convertToVSCode(rule: Rule): string {
-  const frontmatter: any = {
-    description: rule.description || `Converted from ${rule.source}`
-  };
-
-  if (rule.patterns) {
-    frontmatter.applyTo = rule.patterns.join(',');
+      content = upsertSection(adapter, content, rule.name, adapter.serialize(emitted?.rule ?? rule));
+    }
+    content ??= adapter.header ?? '';
+    const ids = new Set(rules.map(rule => slugifyRuleName(rule.name)));
+    const stale = (adapter.findSections?.(content) ?? []).filter(section => section.id && !ids.has(section.id));
+    for (const section of stale.reverse()) {
+      content = removeSection(content, section);
+    }
+    plan.write(filePath, content);
+    return [filePath, ...importFiles];
   }
-
-  return matter.stringify(rule.content, frontmatter);
-}
-
-function convertToCodex(rule: Rule): string {
-  let content = '';
-  
-  content += `# ${rule.description || rule.name}\n\n`;
-  content += `${getAgentsSharedDescription()}\n`;
-  content += `*Converted from ${rule.source} rules*\n\n`;
-  content += rule.content;
-
-  return content;
-}
-
-function convertToClaudeCode(rule: Rule): string {
-  let content = '';
   
-  content += `# ${rule.description || rule.name}\n\n`;
-  content += rule.content;
-
-  return content;
-}
-
-function convertToQoder(rule: Rule): string {
-  const frontmatter: any = {
-    trigger: mapRuleTypeToQoderTrigger(rule.type),
-    description: rule.description || `Converted from ${rule.source}`
-  };
-
-  // Add alwaysApply for always_on trigger
-  if (rule.type === 'always') {
-    frontmatter.alwaysApply = true;
-  }
-
-  // Add glob patterns for pattern-based triggers
-  if ((rule.type === 'auto-attached' || rule.type === 'glob-pattern' || rule.type === 'specific-files') && rule.patterns && rule.patterns.length > 0) {
-    frontmatter.glob = rule.patterns.length === 1 ? rule.patterns[0] : rule.patterns.join(',');
-  }
-
-  return matter.stringify(rule.content, frontmatter);
-}
-
-function mapRuleTypeToQoderTrigger(ruleType: string): string {
-  switch (ruleType) {
-    case 'manual':
-      return 'manual';
-    case 'model-decision':
-    case 'agent-requested':
-      return 'model_decision';
-    case 'always':
-      return 'always_on';
-    case 'auto-attached':
-    case 'glob-pattern':
-    case 'specific-files':
-      return 'glob';
-    default:
-      return 'manual';
-  }
-}
-
-function convertToTrae(rule: Rule): string {
-  const frontmatter: any = {
-    description: rule.description || `Converted from ${rule.source}`
-  };
+  // Determine output directory for multi-file editors (created when the plan is applied)
+  const outputDir = join(basePath, location ?? adapter.config.locations[0] ?? '.');
+  const outputFiles: string[] = [];
 
-  if (rule.type === 'always') {
-    frontmatter.alwaysApply = true;
+  // A rule split into parts replaces the single file it had before; parts written below win over this
+  for (const splitFrom of new Set(rules.map(rule => rule.metadata?.splitFrom))) {
+    if (typeof splitFrom === 'string') {
+      plan.delete(join(outputDir, adapter.fileName({ name: splitFrom })));
+    }
   }
 
-  if (rule.patterns) {
-    frontmatter.globs = rule.patterns.join(',');
+  for (const rule of rules) {
+    try {
+      const filePath = join(outputDir, adapter.fileName(rule));
+      plan.write(filePath, adapter.serialize(rule));
+      outputFiles.push(filePath);
+    } catch (error) {
+      throw new Error(`Failed to convert rule ${rule.name}: ${error}`);
+    }
   }
 
-  return matter.stringify(rule.content, frontmatter);
+  return outputFiles;
 }
 
-function convertToQwenCoder(rule: Rule): string {
-  let content = '';
-  
-  content += `# ${rule.description || rule.name}\n\n`;
-  content += `*Converted from ${rule.source} rules*\n\n`;
-  content += rule.content;
-
-  return content;
+// Large rules of editors with imports go to their own file; the preamble stays at the top of the rule file
+function shouldEmitImport(rule: Rule, adapter: EditorAdapter, emitAbove: number | undefined): boolean {
+  return emitAbove !== undefined
+    && adapter.config.importDirectory !== undefined
+    && !isPreambleRule(rule)
+    && rule.content.length > emitAbove;
 }
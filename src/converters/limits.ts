@@ -0,0 +1,163 @@
+import { basename, resolve } from 'path';
+import { ConversionWarning, DetectionOptions, EditorType, Rule, SizeBudget, SizeLimitPolicy } from '../types/index.js';
+import { getEditorConfig } from '../utils/index.js';
+import { WritePlan } from '../plan/index.js';
+import { findRuleFiles } from '../parsers/index.js';
+import { isSingleFileEditor } from '../adapters/index.js';
+
+export const SIZE_LIMIT_POLICIES: SizeLimitPolicy[] = ['warn', 'error'];
+
+/**
+ * Splits a rule whose rendered file would exceed `maxFileSize` into numbered parts,
+ * cutting only at markdown headings outside code fences. Sections are packed
+ * greedily, so a single section larger than the limit stays whole and is left for
+ * the size check to report. Returns the rule unchanged when it fits or can't be cut.
+ * Parts record the rule's name in `metadata.splitFrom`.
+ */
+export function splitOversizedRule(rule: Rule, maxFileSize: number, render: (rule: Rule) => string): Rule[] {
+  if (render(rule).length <= maxFileSize) {
+    return [rule];
+  }
+
+  const chunks: string[] = [];
+  for (const section of splitAtHeadings(rule.content)) {
+    const current = chunks[chunks.length - 1];
+    if (current !== undefined && render({ ...rule, content: current + section }).length <= maxFileSize) {
+      chunks[chunks.length - 1] = current + section;
+    } else {
+      chunks.push(section);
+    }
+  }
+
+  if (chunks.length < 2) {
+    return [rule];
+  }
+
+  return chunks.map((chunk, index) => {
+    const part = `part ${index + 1} of ${chunks.length}`;
+    return {
+      ...rule,
+      name: `${rule.name} part ${index + 1}`,
+      description: rule.description ? `${rule.description} (${part})` : `${rule.name} (${part})`,
+      content: chunk.trim(),
+      metadata: { ...rule.metadata, splitFrom: rule.name }
+    };
+  });
+}
+
+// Cuts before every heading line; joining the sections gives back the original content
+function splitAtHeadings(content: string): string[] {
+  const sections: string[] = [];
+  let current = '';
+  let inFence = false;
+
+  for (const line of content.split(/(?<=\n)/)) {
+    if (/^(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    if (!inFence && /^#{1,6}\s/.test(line) && current.trim()) {
+      sections.push(current);
+      current = '';
+    }
+    current += line;
+  }
+  if (current) {
+    sections.push(current);
+  }
+  return sections;
+}
+
+export function measureOutput(editor: EditorType, files: string[], plan: WritePlan): SizeBudget {
+  const config = getEditorConfig(editor);
+  const sizes = files.map(file => ({ file, size: plan.read(file)?.length ?? 0 }));
+  const totalSize = sizes.reduce((sum, { size }) => sum + size, 0);
+  const maxFileSize = config.maxFileSize;
+
+  return {
+    editor,
+    files: files.length,
+    totalSize,
+    largestFile: Math.max(0, ...sizes.map(({ size }) => size)),
+    ...(maxFileSize !== undefined && { maxFileSize }),
+    ...(config.maxTotalSize !== undefined && { maxTotalSize: config.maxTotalSize }),
+    oversizedFiles: maxFileSize !== undefined
+      ? sizes.filter(({ size }) => size > maxFileSize).map(({ file }) => file)
+      : []
+  };
+}
+
+export function getSizeWarnings(budget: SizeBudget, plan: WritePlan): ConversionWarning[] {
+  const displayName = getEditorConfig(budget.editor).displayName;
+  const warnings: ConversionWarning[] = budget.oversizedFiles.map(file => ({
+    rule: basename(file),
+    editor: budget.editor,
+    kind: 'file-too-large',
+    message: `${formatSize(plan.read(file)?.length ?? 0)} is over ${displayName}'s limit of ${formatSize(budget.maxFileSize ?? 0)} per file and may be truncated`
+  }));
+
+  if (budget.maxTotalSize !== undefined && budget.totalSize > budget.maxTotalSize) {
+    warnings.push({
+      rule: '',
+      editor: budget.editor,
+      kind: 'total-too-large',
+      message: `${formatSize(budget.totalSize)} of rules is over ${displayName}'s total limit of ${formatSize(budget.maxTotalSize)}`
+    });
+  }
+  return warnings;
+}
+
+/**
+ * Measures the files staged for one editor against its limits. Under the 'error'
+ * policy an editor over any limit has its files taken out of the plan and the
+ * conversion for it fails; under 'warn' the problems are only reported.
+ */
+export function enforceSizeLimits(
+  editor: EditorType,
+  files: string[],
+  plan: WritePlan,
+  policy: SizeLimitPolicy
+): { budget: SizeBudget; warnings: ConversionWarning[] } {
+  const budget = measureOutput(editor, files, plan);
+  const warnings = getSizeWarnings(budget, plan);
+
+  if (policy === 'error' && warnings.length > 0) {
+    files.forEach(file => plan.discard(file));
+    throw new Error(warnings.map(warning => warning.rule ? `${warning.rule}: ${warning.message}` : warning.message).join('; '));
+  }
+  return { budget, warnings };
+}
+
+/**
+ * Checks the limits of an editor that had only some of its files staged, as
+ * `sync` and `add` do; its other rule files still count toward the total. These
+ * commands don't split oversized rules like `convert`, because the parts would be
+ * new rules with new names, so the warnings for multi-file editors say so.
+ */
+export async function enforceStagedSizeLimits(
+  editor: EditorType,
+  staged: string[],
+  plan: WritePlan,
+  policy: SizeLimitPolicy,
+  command: string,
+  projectPath = '.',
+  options: DetectionOptions = {}
+): Promise<{ budget: SizeBudget; warnings: ConversionWarning[] }> {
+  const stagedPaths = staged.map(file => resolve(file));
+  const existing = await findRuleFiles(editor, projectPath, options);
+  const measured = measureOutput(editor, Array.from(new Set([...stagedPaths, ...existing])), plan);
+  // Files this run didn't touch are left to the command that wrote them
+  const budget = { ...measured, oversizedFiles: measured.oversizedFiles.filter(file => stagedPaths.includes(file)) };
+  const unsplit = isSingleFileEditor(editor) ? '' : `; ${command} doesn't split rules, since the parts would be new rules with new names`;
+  const warnings = getSizeWarnings(budget, plan)
+    .map(warning => warning.kind === 'file-too-large' ? { ...warning, message: warning.message + unsplit } : warning);
+
+  if (policy === 'error' && warnings.length > 0) {
+    staged.forEach(file => plan.discard(file));
+    throw new Error(warnings.map(warning => warning.rule ? `${warning.rule}: ${warning.message}` : warning.message).join('; '));
+  }
+  return { budget, warnings };
+}
+
+export function formatSize(characters: number): string {
+  return `${characters.toLocaleString('en-US')} chars`;
+}
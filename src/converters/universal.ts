@@ -1,312 +1,168 @@
-import fs from 'fs/promises';
-import path from 'path';
-import yaml from 'js-yaml';
-import { UniversalRule, EditorType } from '../types/index.js';
-import { getAgentsSharedDescription } from '../utils/index.js';
+import { join } from 'path';
+import crypto from 'crypto';
+import { UniversalRule, EditorType, AddRuleOptions, AddRuleResult } from '../types/index.js';
+import { WritePlan, createWritePlan, applyWritePlan, applyConflictPolicy } from '../plan/index.js';
+import { getAdapter, upsertSection } from '../adapters/index.js';
+import { getAllEditorTypes, hashContent, slugifyRuleName } from '../utils/index.js';
+import { stageRegistryRule } from '../registry/index.js';
+import { getUniversalRuleWarnings } from './warnings.js';
+import { degradeUniversalRule } from './degrade.js';
+import { enforceStagedSizeLimits } from './limits.js';
 
-export async function convertUniversalRule(rule: UniversalRule, targetEditor: EditorType): Promise<string[]> {
-  const outputFiles: string[] = [];
-  
-  switch (targetEditor) {
-    case 'cursor':
-      outputFiles.push(...await convertToCursor(rule));
-      break;
-    case 'windsurf':
-      outputFiles.push(...await convertToWindsurf(rule));
-      break;
-    case 'cline':
-      outputFiles.push(...await convertToCline(rule));
-      break;
-    case 'codex':
-      outputFiles.push(...await convertToCodex(rule));
-      break;
-    case 'claude-code':
-      outputFiles.push(...await convertToClaudeCode(rule));
-      break;
-    case 'qoder':
-      outputFiles.push(...await convertToQoder(rule));
-      break;
-    case 'qwencoder':
-      outputFiles.push(...await convertToQwenCoder(rule));
-      break;
-    case 'trae':
-      outputFiles.push(...await convertToTrae(rule));
-      break;
-    case 'vscode':
-      outputFiles.push(...await convertToVSCode(rule));
-      break;
-    default:
-      throw new Error(`Unsupported editor: ${targetEditor}`);
-  }
-  
-  return outputFiles;
-}
+/**
+ * Stages the files for a universal rule in the given plan. Nothing is written
+ * until the caller applies the plan. `location` replaces the editor's default
+ * rules directory (or file, for AGENTS.md/CLAUDE.md/QWEN.md); either is taken
+ * relative to `basePath`. In single files
+ * the rule's section is replaced if it already exists and appended otherwise,
+ * under a heading of `options.headingLevel`.
+ */
+export async function convertUniversalRule(
+  rule: UniversalRule,
+  targetEditor: EditorType,
+  plan: WritePlan,
+  location?: string,
+  basePath = '.',
+  options: Pick<AddRuleOptions, 'headingLevel'> = {}
+): Promise<string[]> {
+  const adapter = getAdapter(targetEditor, options.headingLevel);
+  const defaultLocation = adapter.config.locations[0] ?? '.';
 
-async function convertToCursor(rule: UniversalRule): Promise<string[]> {
-  const rulesDir = '.cursor/rules';
-  await ensureDirectoryExists(rulesDir);
-  
-  // Generate filename
-  const filename = `${rule.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.mdc`;
-  const filepath = path.join(rulesDir, filename);
-  
-  // Create frontmatter
-  const frontmatter: any = {
-    description: rule.description || rule.name
-  };
-  
-  if (rule.type === 'always') {
-    frontmatter.alwaysApply = true;
-  } else if (rule.type === 'pattern' && rule.patterns) {
-    frontmatter.globs = rule.patterns;
+  if (adapter.singleFile) {
+    const filePath = join(basePath, location ?? defaultLocation);
+    plan.write(filePath, upsertSection(adapter, plan.read(filePath), rule.name, adapter.serializeUniversal(rule)));
+    return [filePath];
   }
-  
-  // Create content
-  const yamlFrontmatter = yaml.dump(frontmatter);
-  const content = `---\n${yamlFrontmatter}---\n\n${rule.content}`;
-  
-  await fs.writeFile(filepath, content, 'utf8');
-  return [filepath];
-}
 
-async function convertToWindsurf(rule: UniversalRule): Promise<string[]> {
-  const rulesDir = '.windsurf/rules';
-  await ensureDirectoryExists(rulesDir);
-  
-  const filename = `${rule.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.md`;
-  const filepath = path.join(rulesDir, filename);
-  
-  // Windsurf uses plain markdown
-  let content = rule.content;
-  
-  // Add header if not present
-  if (!content.startsWith('#')) {
-    content = `# ${rule.name}\n\n${content}`;
-  }
-  
-  await fs.writeFile(filepath, content, 'utf8');
-  return [filepath];
+  const filePath = join(basePath, location ?? defaultLocation, adapter.fileName(rule));
+  plan.write(filePath, adapter.serializeUniversal(rule));
+  return [filePath];
 }
 
-async function convertToCline(rule: UniversalRule): Promise<string[]> {
-  const rulesDir = '.clinerules';
-  await ensureDirectoryExists(rulesDir);
-  
-  const filename = `${rule.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.md`;
-  const filepath = path.join(rulesDir, filename);
-  
-  let content = rule.content;
-  
-  // Add header if not present
-  if (!content.startsWith('#')) {
-    content = `# ${rule.name}\n\n${content}`;
-  }
-  
-  await fs.writeFile(filepath, content, 'utf8');
-  return [filepath];
-}
-
-async function convertToQoder(rule: UniversalRule): Promise<string[]> {
-  const rulesDir = '.qoder/rules';
-  await ensureDirectoryExists(rulesDir);
-  
-  const filename = `${rule.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.md`;
-  const filepath = path.join(rulesDir, filename);
-  
-  // Create Qoder frontmatter
-  const frontmatter: any = {};
-  
-  switch (rule.type) {
-    case 'always':
-      frontmatter.trigger = 'always_on';
-      frontmatter.alwaysApply = true;
-      break;
-    case 'pattern':
-      frontmatter.trigger = 'glob';
-      if (rule.patterns) {
-        frontmatter.glob = rule.patterns.join(',');
-      }
-      break;
-    case 'manual':
-      frontmatter.trigger = 'manual';
-      break;
-    case 'ai-decision':
-      frontmatter.trigger = 'model_decision';
-      if (rule.context) {
-        frontmatter.description = rule.context;
-      }
-      break;
-  }
-  
-  if (rule.description) {
-    frontmatter.description = rule.description;
-  }
-  
-  const yamlFrontmatter = yaml.dump(frontmatter);
-  const content = `---\n${yamlFrontmatter}---\n\n${rule.content}`;
-  
-  await fs.writeFile(filepath, content, 'utf8');
-  return [filepath];
-}
-
-async function convertToCodex(rule: UniversalRule): Promise<string[]> {
-  const filepath = 'AGENTS.md';
-  
-  // Create section delimiter and content
-  const sectionName = rule.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
-  const sectionContent = `---- ${sectionName} ----\n\n${rule.content}\n\n`;
-  
-  // Append to AGENTS.md or create it
-  const headerTitle = '# Project Agent Rules';
-  const sharedDescription = getAgentsSharedDescription();
-  const headerWithNote = `${headerTitle}\n\n${sharedDescription}\n\n`;
-  let existingContent = '';
-  try {
-    existingContent = await fs.readFile(filepath, 'utf8');
-  } catch (error) {
-    // File doesn't exist, start with header + shared note
-    existingContent = headerWithNote;
-  }
-
-  if (!existingContent.includes(sharedDescription)) {
-    if (existingContent.startsWith(headerTitle)) {
-      existingContent = existingContent.replace(headerTitle, headerWithNote);
-      if (!existingContent.includes(`${sharedDescription}\n\n`)) {
-        existingContent = existingContent.replace(sharedDescription, `${sharedDescription}\n\n`);
-      }
+/**
+ * Builds a universal rule from `add` options. Passing the registry lets a rule
+ * that is added again under the same name keep its id and bump its version.
+ */
+export function createUniversalRule(options: AddRuleOptions, registry: UniversalRule[] = []): UniversalRule {
+  const id = crypto.randomUUID();
+  const timestamp = new Date();
+  const contentHash = hashContent(options.content ?? '');
+  const lineCount = (options.content || '').split('\n').length;
+  
+  // Auto-generate name if not provided
+  let name = options.name;
+  if (!name) {
+    const firstLine = options.content?.split('\n')[0]?.replace(/^#\s*/, '').trim() || '';
+    if (firstLine && firstLine.length < 50) {
+      name = firstLine;
     } else {
-      existingContent = `${headerWithNote}${existingContent}`;
+      name = `${options.type}-rule-${timestamp.getTime().toString().slice(-6)}`;
     }
   }
   
-  // Check if section already exists
-  const sectionPattern = new RegExp(`---- ${sectionName} ----[\\s\\S]*?(?=---- |$)`, 'g');
-  if (sectionPattern.test(existingContent)) {
-    // Replace existing section
-    existingContent = existingContent.replace(sectionPattern, sectionContent);
-  } else {
-    // Append new section
-    existingContent += sectionContent;
-  }
-  
-  await fs.writeFile(filepath, existingContent, 'utf8');
-  return [filepath];
-}
-
-async function convertToClaudeCode(rule: UniversalRule): Promise<string[]> {
-  const filepath = 'CLAUDE.md';
-  
-  let content = rule.content;
-  
-  // Add context for pattern-based rules
-  if (rule.type === 'pattern' && rule.patterns) {
-    const patternContext = `When working with files matching: ${rule.patterns.join(', ')}\n\n`;
-    content = patternContext + content;
-  }
-  
-  // Add context for AI-decision rules
-  if (rule.type === 'ai-decision' && rule.context) {
-    const contextNote = `Context: ${rule.context}\n\n`;
-    content = contextNote + content;
-  }
-  
-  // Add header if not present
-  if (!content.startsWith('#')) {
-    content = `# ${rule.name}\n\n${content}`;
-  }
-  
-  // Append to CLAUDE.md or create it
-  let existingContent = '';
-  try {
-    existingContent = await fs.readFile(filepath, 'utf8');
-  } catch (error) {
-    existingContent = '# AI Assistant Guidelines\n\n';
-  }
-  
-  existingContent += `\n## ${rule.name}\n\n${rule.content}\n`;
-  
-  await fs.writeFile(filepath, existingContent, 'utf8');
-  return [filepath];
-}
-
-async function convertToQwenCoder(rule: UniversalRule): Promise<string[]> {
-  const filepath = 'QWEN.md';
-  
-  // Create section delimiter and content (similar to Codex)
-  const sectionName = rule.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
-  const sectionContent = `---- ${sectionName} ----\n\n${rule.content}\n\n`;
-  
-  // Append to QWEN.md or create it
-  let existingContent = '';
-  try {
-    existingContent = await fs.readFile(filepath, 'utf8');
-  } catch (error) {
-    existingContent = '# QwenCoder Context\n\n';
-  }
-  
-  // Check if section already exists
-  const sectionPattern = new RegExp(`---- ${sectionName} ----[\\s\\S]*?(?=---- |$)`, 'g');
-  if (sectionPattern.test(existingContent)) {
-    existingContent = existingContent.replace(sectionPattern, sectionContent);
+  // Resolve target editors
+  let targetEditors: EditorType[];
+  if (options.targetEditors === 'all') {
+    targetEditors = getAllEditorTypes();
   } else {
-    existingContent += sectionContent;
-  }
+    targetEditors = options.targetEditors;
+  }
+  
+  // Re-adding a rule with the same name updates its registry entry instead of creating a new one
+  const existing = registry.find(rule => slugifyRuleName(rule.name) === slugifyRuleName(name));
+  
+  const universalRule: UniversalRule = {
+    id: existing?.id ?? id,
+    name,
+    type: options.type,
+    content: options.content || '',
+    ...(options.patterns && { patterns: options.patterns }),
+    ...(options.context && { context: options.context }),
+    ...(options.description && { description: options.description }),
+    formatting: {
+      preserveMarkdown: options.preserveMarkdown || false,
+      preserveLineBreaks: true,
+      indentationStyle: 'spaces',
+      indentationSize: 2
+    },
+    metadata: {
+      created: existing?.metadata.created ?? timestamp,
+      updated: timestamp,
+      ...(options.author && { author: options.author }),
+      version: existing ? existing.metadata.version + 1 : 1,
+      contentHash,
+      lineCount
+    },
+    targetEditors
+  };
   
-  await fs.writeFile(filepath, existingContent, 'utf8');
-  return [filepath];
+  return universalRule;
 }
 
-async function convertToTrae(rule: UniversalRule): Promise<string[]> {
-  const rulesDir = '.trae/rules';
-  await ensureDirectoryExists(rulesDir);
-  
-  const filename = `${rule.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.md`;
-  const filepath = path.join(rulesDir, filename);
-  
-  // Trae uses YAML frontmatter
-  const frontmatter: any = {
-    title: rule.name
+/**
+ * Converts a universal rule for each of its target editors and records it in the
+ * registry, all under `projectPath` (default '.'). With `dryRun` the planned files are only returned in `plannedFiles`;
+ * otherwise hand-edited targets follow `onConflict` (default 'fail') before the
+ * plan is applied.
+ */
+export async function addUniversalRule(rule: UniversalRule, options: Omit<AddRuleOptions, 'type' | 'targetEditors'> = {}): Promise<AddRuleResult> {
+  const result: AddRuleResult = {
+    success: true,
+    rule,
+    outputFiles: [],
+    errors: [],
+    warnings: []
   };
-  
-  if (rule.description) {
-    frontmatter.description = rule.description;
-  }
-  
-  if (rule.patterns) {
-    frontmatter.patterns = rule.patterns;
+  const plan = createWritePlan();
+  const projectPath = options.projectPath ?? '.';
+  
+  for (const editor of rule.targetEditors) {
+    try {
+      const degraded = degradeUniversalRule(rule, editor, options.onUnsupported ?? 'downgrade-to-always');
+      result.warnings.push(...degraded.warnings);
+      if (!degraded.rule) continue;
+      const files = await convertUniversalRule(degraded.rule, editor, plan, options.outputs?.[editor], projectPath, {
+        ...(options.headingLevel !== undefined && { headingLevel: options.headingLevel })
+      });
+      const limits = await enforceStagedSizeLimits(editor, files, plan, options.onSizeLimit ?? 'warn', 'add', projectPath, {
+        ...(options.outputs && { outputs: options.outputs }),
+        ...(options.headingLevel !== undefined && { headingLevel: options.headingLevel })
+      });
+      result.outputFiles.push(...files);
+      result.warnings.push(...getUniversalRuleWarnings(degraded.rule, editor), ...limits.warnings);
+    } catch (error) {
+      const errorMessage = `Failed to convert rule for ${editor}: ${error instanceof Error ? error.message : String(error)}`;
+      result.errors.push(errorMessage);
+      result.success = false;
+    }
   }
   
-  const yamlFrontmatter = yaml.dump(frontmatter);
-  const content = `---\n${yamlFrontmatter}---\n\n${rule.content}`;
-  
-  await fs.writeFile(filepath, content, 'utf8');
-  return [filepath];
-}
-
-async function convertToVSCode(rule: UniversalRule): Promise<string[]> {
-  // VSCode rules can be stored in workspace settings or as separate files
-  // For simplicity, we'll create a rules directory
-  const rulesDir = '.vscode/rules';
-  await ensureDirectoryExists(rulesDir);
-  
-  const filename = `${rule.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.md`;
-  const filepath = path.join(rulesDir, filename);
-  
-  let content = rule.content;
-  
-  // Add header if not present
-  if (!content.startsWith('#')) {
-    content = `# ${rule.name}\n\n${content}`;
+  // Persist the rule so list/show and later commands can find it again
+  result.outputFiles.push(stageRegistryRule(rule, plan, projectPath));
+  
+  result.plannedFiles = plan.files();
+  if (result.success && !options.dryRun) {
+    try {
+      result.fileReports = await applyConflictPolicy(plan, {
+        onConflict: options.onConflict ?? 'fail',
+        ...(options.resolveConflict && { resolveConflict: options.resolveConflict }),
+        projectPath
+      });
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : String(error));
+      result.success = false;
+      return result;
+    }
+    
+    const { backup } = await applyWritePlan(plan, {
+      createBackup: options.createBackup ?? true,
+      projectPath,
+      command: 'add'
+    });
+    if (backup) {
+      result.backupId = backup.id;
+    }
   }
   
-  await fs.writeFile(filepath, content, 'utf8');
-  return [filepath];
-}
-
-async function ensureDirectoryExists(dirPath: string): Promise<void> {
-  try {
-    await fs.access(dirPath);
-  } catch {
-    await fs.mkdir(dirPath, { recursive: true });
-  }
+  return result;
 }
@@ -0,0 +1,67 @@
+import { ConversionWarning, EditorType, Rule, RuleType, UniversalRule, UniversalRuleType } from '../types/index.js';
+import { getEditorConfig } from '../utils/index.js';
+
+// Editors name the same activation modes differently; any member of a group counts as support
+const RULE_TYPE_GROUPS: RuleType[][] = [
+  ['always'],
+  ['auto-attached', 'glob-pattern', 'specific-files'],
+  ['agent-requested', 'model-decision'],
+  ['manual']
+];
+
+const UNIVERSAL_TO_RULE_TYPE: Record<UniversalRuleType, RuleType> = {
+  'always': 'always',
+  'pattern': 'glob-pattern',
+  'manual': 'manual',
+  'ai-decision': 'model-decision'
+};
+
+export function toRuleType(type: UniversalRuleType): RuleType {
+  return UNIVERSAL_TO_RULE_TYPE[type];
+}
+
+export function isRuleTypeSupported(type: RuleType, editor: EditorType): boolean {
+  const equivalents = RULE_TYPE_GROUPS.find(group => group.includes(type)) ?? [type];
+  return equivalents.some(equivalent => getEditorConfig(editor).supportedRuleTypes.includes(equivalent));
+}
+
+/**
+ * Lists what a target editor can't express about a rule, based on the rule types
+ * and glob support it declares in EDITOR_CONFIGS.
+ */
+export function getConversionWarnings(
+  rule: Pick<Rule, 'name' | 'type' | 'patterns'>,
+  editor: EditorType,
+  typeLabel: string = rule.type
+): ConversionWarning[] {
+  const config = getEditorConfig(editor);
+  const warnings: ConversionWarning[] = [];
+
+  if (!isRuleTypeSupported(rule.type, editor)) {
+    warnings.push({
+      rule: rule.name,
+      editor,
+      kind: 'type-unsupported',
+      message: `${config.displayName} has no "${typeLabel}" rules; this rule will apply like an always-on rule`
+    });
+  }
+
+  if (rule.patterns && rule.patterns.length > 0 && !config.hasGlobSupport) {
+    warnings.push({
+      rule: rule.name,
+      editor,
+      kind: 'patterns-dropped',
+      message: `${config.displayName} can't scope rules to files; patterns ${rule.patterns.join(', ')} were dropped`
+    });
+  }
+
+  return warnings;
+}
+
+export function getUniversalRuleWarnings(rule: UniversalRule, editor: EditorType): ConversionWarning[] {
+  return getConversionWarnings({
+    name: rule.name,
+    type: toRuleType(rule.type),
+    ...(rule.patterns && { patterns: rule.patterns })
+  }, editor, rule.type);
+}
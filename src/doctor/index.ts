@@ -0,0 +1,179 @@
+import { readFileSync } from 'fs';
+import matter from 'gray-matter';
+import { DetectionOptions, Diagnostic, DoctorResult, EditorAdapter, EditorType, Rule } from '../types/index.js';
+import { getAdapter, getAdapters } from '../adapters/index.js';
+import { isPatternRule } from '../adapters/shared.js';
+import { findRuleFiles, parseRuleContent } from '../parsers/index.js';
+import { formatSize } from '../converters/limits.js';
+
+type Report = (line: number, severity: Diagnostic['severity'], kind: Diagnostic['kind'], message: string, fix: string) => void;
+
+/**
+ * Checks every rule file of the given editors (default: all) for problems the
+ * editor would silently ignore or misread: broken or misspelled frontmatter,
+ * invalid values, rules missing what their type needs, empty rules and files
+ * over the editor's size limits. `options.outputs` points it at the locations
+ * convert writes to, and `options.headingLevel` sets where sections of single files start.
+ */
+export async function runDoctor(projectPath = '.', editors?: EditorType[], options: DetectionOptions = {}): Promise<DoctorResult> {
+  const result: DoctorResult = { files: 0, diagnostics: [] };
+
+  for (const editor of editors ?? getAdapters().map(adapter => adapter.editor)) {
+    const adapter = getAdapter(editor, options.headingLevel);
+    const files = await findRuleFiles(adapter.editor, projectPath, options);
+    let totalSize = 0;
+
+    for (const file of files) {
+      const report: Report = (line, severity, kind, message, fix) => {
+        result.diagnostics.push({ editor: adapter.editor, file, line, severity, kind, message, fix });
+      };
+      let content: string;
+      try {
+        content = readFileSync(file, 'utf-8');
+      } catch (error) {
+        report(1, 'error', 'unreadable', `Cannot read file: ${error instanceof Error ? error.message : error}`, 'Check the file permissions');
+        continue;
+      }
+      result.files++;
+      totalSize += content.length;
+      diagnoseFile(adapter, file, content, report, options);
+    }
+
+    const maxTotalSize = adapter.config.maxTotalSize;
+    const [firstFile] = files;
+    if (firstFile && maxTotalSize !== undefined && totalSize > maxTotalSize) {
+      result.diagnostics.push({
+        editor: adapter.editor,
+        file: firstFile,
+        line: 1,
+        severity: 'warning',
+        kind: 'too-large',
+        message: `${adapter.config.displayName} rules add up to ${formatSize(totalSize)}, over its total limit of ${formatSize(maxTotalSize)}`,
+        fix: 'Remove rules that no longer apply or shorten the longest ones'
+      });
+    }
+  }
+
+  return result;
+}
+
+function diagnoseFile(adapter: EditorAdapter, file: string, content: string, report: Report, options: DetectionOptions): void {
+  const { config, frontmatter } = adapter;
+
+  if (frontmatter && config.hasYamlFrontmatter) {
+    diagnoseFrontmatter(adapter, content, report);
+  }
+
+  let rules: Rule[];
+  try {
+    rules = parseRuleContent(adapter.editor, content, file, options);
+  } catch (error) {
+    report(1, 'error', 'unreadable', `${config.displayName} can't parse this file: ${error instanceof Error ? error.message : error}`, 'Compare it with a rule file written by `crossrule convert`');
+    return;
+  }
+
+  // A `trigger` (Windsurf, Qoder) is what makes a rule need patterns or a description
+  const triggerLine = frontmatter?.keys.includes('trigger') ? findKeyLine(content, 'trigger') : null;
+  for (const rule of rules) {
+    const line = findRuleLine(adapter, content, rule);
+    const label = adapter.singleFile ? `Section "${rule.name}"` : 'This rule';
+
+    if (!rule.content.trim()) {
+      report(line, 'warning', 'empty-rule', `${label} has no content`, 'Write the instructions or delete the rule');
+      continue;
+    }
+    if (isPatternRule(rule) && (!rule.patterns || rule.patterns.length === 0)) {
+      const key = frontmatter?.patternsKey;
+      report(
+        (key ? findKeyLine(content, key) : null) ?? triggerLine ?? line,
+        'error',
+        'missing-patterns',
+        `${label} only applies to matching files but lists no patterns, so it never applies`,
+        key ? `Add \`${key}: "src/**/*.ts"\` with the files it is about, or make it an always-on rule` : 'Add the files it is about, or make it an always-on rule'
+      );
+    }
+    if ((rule.type === 'agent-requested' || rule.type === 'model-decision') && !rule.description?.trim()) {
+      report(triggerLine ?? line, 'error', 'missing-description', `${label} is applied when the agent finds it relevant but has no description to decide by`, 'Add a `description` saying when the rule applies');
+    }
+  }
+
+  const maxFileSize = config.maxFileSize;
+  if (maxFileSize !== undefined && content.length > maxFileSize) {
+    report(1, 'warning', 'too-large', `${formatSize(content.length)} is over ${config.displayName}'s limit of ${formatSize(maxFileSize)} per file and may be truncated`, 'Split it into smaller rules; `crossrule convert` splits oversized rules at their headings');
+  }
+}
+
+function diagnoseFrontmatter(adapter: EditorAdapter, content: string, report: Report): void {
+  const schema = adapter.frontmatter;
+  if (!schema || !/^---\r?\n/.test(content)) return;
+
+  let data: Record<string, unknown>;
+  try {
+    data = matter(content).data;
+  } catch (error) {
+    // js-yaml counts lines from 0 inside the frontmatter, which starts on line 2
+    const mark = (error as { mark?: { line?: number } }).mark;
+    const reason = (error as { reason?: string }).reason ?? (error instanceof Error ? error.message : String(error));
+    report((mark?.line ?? 0) + 2, 'error', 'invalid-frontmatter', `Invalid YAML frontmatter: ${reason}`, 'Fix the YAML between the `---` lines; quote values that contain `:`, `*` or `#`');
+    return;
+  }
+
+  const displayName = adapter.config.displayName;
+  for (const [key, value] of Object.entries(data)) {
+    const line = findKeyLine(content, key) ?? 1;
+    if (!schema.keys.includes(key)) {
+      const suggestion = suggestKey(key, schema.keys);
+      report(
+        line,
+        'warning',
+        'unknown-key',
+        `${displayName} doesn't read \`${key}\`, so it is ignored`,
+        suggestion ? `Rename it to \`${suggestion}\`` : `Use one of ${schema.keys.map(known => `\`${known}\``).join(', ')}`
+      );
+      continue;
+    }
+    const allowed = schema.values?.[key];
+    if (allowed && !allowed.includes(String(value))) {
+      report(line, 'error', 'invalid-value', `\`${key}: ${String(value)}\` isn't a value ${displayName} understands`, `Use one of ${allowed.map(known => `\`${known}\``).join(', ')}`);
+    }
+  }
+}
+
+// Sections are found by name; whole-file rules start on the first line
+function findRuleLine(adapter: EditorAdapter, content: string, rule: Rule): number {
+  const section = adapter.findSections?.(content).find(candidate => candidate.name === rule.name);
+  return section ? lineAt(content, section.start) : 1;
+}
+
+function findKeyLine(content: string, key: string): number | null {
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = new RegExp(`^${escaped}\\s*:`, 'm').exec(content);
+  return match ? lineAt(content, match.index) : null;
+}
+
+function lineAt(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length;
+}
+
+// A known key differing by case or at most two edits, e.g. `glob` for `globs`
+function suggestKey(key: string, known: string[]): string | undefined {
+  const lower = key.toLowerCase();
+  const ranked = known
+    .map(candidate => ({ candidate, distance: editDistance(lower, candidate.toLowerCase()) }))
+    .filter(({ distance }) => distance <= 2)
+    .sort((a, b) => a.distance - b.distance);
+  return ranked[0]?.candidate;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+}
@@ -0,0 +1,170 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { homedir } from 'os';
+import { basename, dirname, isAbsolute, join, posix, relative, resolve } from 'path';
+import { ImportMode, Rule } from '../types/index.js';
+import { createRule, findCodeFences } from '../adapters/shared.js';
+import { slugifyRuleName } from '../utils/index.js';
+
+export const IMPORT_MODES: ImportMode[] = ['inline', 'separate'];
+
+// Claude Code follows imports at most this many hops deep
+export const MAX_IMPORT_DEPTH = 5;
+
+// `@docs/conventions.md` or `@~/.claude/personal.md` after whitespace or a bracket; not `a@b.c`
+const IMPORT_PATTERN = /(^|[\s(])@([^\s`()@]+)/g;
+
+interface Import {
+  start: number;                // Offset of the `@`, or of the whole line for a standalone import
+  end: number;
+  token: string;                // What followed the `@`, e.g. 'docs/conventions.md'
+  path: string;                 // Absolute path of the imported file
+  standalone: boolean;          // The import is all there is on its line ("@docs/a.md" or "- @docs/a.md")
+}
+
+/**
+ * Resolves the `@path` imports in rules read from `filePath`. Paths are
+ * relative to the importing file, absolute, or `~/` for the home directory;
+ * imports in code blocks and code spans are left alone, as are `@` mentions
+ * that don't name an existing file.
+ *
+ * 'inline' replaces an import on a line of its own with the imported file, and
+ * appends the files of imports mentioned mid-sentence below the rule, leaving
+ * the plain path in the sentence. Cycles are left as written.
+ *
+ * 'separate' turns every imported file into a rule of its own, named after its
+ * path (`docs/conventions`) and recording `metadata.importedFrom`, and drops the
+ * import lines; a rule that held nothing but imports is dropped with them.
+ *
+ * Imports inside imported files are followed up to MAX_IMPORT_DEPTH hops.
+ * Deeper imports, cycles and missing files are reported in `warnings`.
+ */
+export function resolveRuleImports(rules: Rule[], filePath: string, mode: ImportMode, warnings: string[]): Rule[] {
+  const stack = [resolve(filePath)];
+  if (mode === 'inline') {
+    return rules.map(rule => ({ ...rule, content: inlineImports(rule.content, stack, warnings) }));
+  }
+
+  const imported = new Map<string, Rule>();
+  const resolved = rules
+    .map(rule => ({ ...rule, content: separateImports(rule, rule.content, stack, imported, warnings) }))
+    .filter((rule, index) => rule.content || !rules[index]?.content);
+  return [...resolved, ...imported.values()];
+}
+
+/**
+ * Moves a rule's content to its own file in `directory` (next to the rule file)
+ * and leaves an `@` import in its place. Returns the rule to write in the rule
+ * file and the file to write alongside it.
+ */
+export function emitRuleImport(rule: Rule, ruleFilePath: string, directory: string): { rule: Rule; file: { path: string; content: string } } {
+  const importPath = join(dirname(ruleFilePath), directory, `${slugifyRuleName(rule.name)}.md`);
+  const reference = relative(dirname(ruleFilePath), importPath).split('\\').join(posix.sep);
+  return {
+    rule: { ...rule, content: `@${reference}` },
+    file: { path: importPath, content: `${rule.content.trim()}\n` }
+  };
+}
+
+function inlineImports(content: string, stack: string[], warnings: string[]): string {
+  const appended = new Map<string, string>();
+  let result = content;
+
+  for (const found of [...findImports(content, stack, warnings)].reverse()) {
+    if (stack.includes(found.path)) {
+      warnings.push(`Import @${found.token} in ${stack[stack.length - 1]} creates a cycle; left as written`);
+      continue;
+    }
+    const imported = inlineImports(readFileSync(found.path, 'utf-8').trim(), [...stack, found.path], warnings);
+    if (found.standalone) {
+      result = result.slice(0, found.start) + imported + result.slice(found.end);
+    } else {
+      result = result.slice(0, found.start) + found.token + result.slice(found.end);
+      appended.set(found.path, imported);
+    }
+  }
+
+  // Mentions were collected last to first
+  const below = Array.from(appended.values()).reverse();
+  return below.length > 0 ? `${result.trimEnd()}\n\n${below.join('\n\n')}` : result;
+}
+
+function separateImports(rule: Rule, content: string, stack: string[], imported: Map<string, Rule>, warnings: string[]): string {
+  let result = content;
+
+  for (const found of [...findImports(content, stack, warnings)].reverse()) {
+    // A file already on the stack or imported elsewhere is a rule already; only the import goes
+    if (!imported.has(found.path) && !stack.includes(found.path)) {
+      const raw = readFileSync(found.path, 'utf-8');
+      const importedRule = createRule(rule.source, found.path, raw, { name: getImportName(found.path, stack), content: raw });
+      // Reserve the path before recursing so an import back to this file is seen as done
+      imported.set(found.path, importedRule);
+      imported.set(found.path, {
+        ...importedRule,
+        content: separateImports(importedRule, importedRule.content, [...stack, found.path], imported, warnings),
+        metadata: { ...importedRule.metadata, importedFrom: stack[stack.length - 1] }
+      });
+    }
+    result = found.standalone
+      ? result.slice(0, found.start) + result.slice(found.end + 1)
+      : result.slice(0, found.start) + found.token + result.slice(found.end);
+  }
+
+  return result.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// The imports in `content` that can be followed from the last file on `stack`, in order
+function findImports(content: string, stack: string[], warnings: string[]): Import[] {
+  const importer = stack[stack.length - 1] ?? '.';
+  const masked = maskCode(content);
+  const imports: Import[] = [];
+
+  for (const match of masked.matchAll(IMPORT_PATTERN)) {
+    const token = (match[2] ?? '').replace(/[.,;:!?]+$/, '');
+    const path = resolveImportPath(token, importer);
+    const at = (match.index ?? 0) + (match[1]?.length ?? 0);
+    const lineStart = content.lastIndexOf('\n', at - 1) + 1;
+    const lineEnd = content.indexOf('\n', at) === -1 ? content.length : content.indexOf('\n', at);
+    const standalone = /^\s*(?:[-*+]\s+)?$/.test(content.slice(lineStart, at)) && !content.slice(at + 1 + token.length, lineEnd).trim();
+
+    if (!existsSync(path) || !statSync(path).isFile()) {
+      // Only a line that is nothing but an import is clearly meant as one
+      if (standalone && /[/.]/.test(token)) {
+        warnings.push(`Import @${token} in ${importer} not found`);
+      }
+      continue;
+    }
+    if (stack.length > MAX_IMPORT_DEPTH) {
+      warnings.push(`Import @${token} in ${importer} is more than ${MAX_IMPORT_DEPTH} imports deep; left as written`);
+      continue;
+    }
+
+    imports.push(standalone
+      ? { start: lineStart, end: lineEnd, token, path, standalone }
+      : { start: at, end: at + 1 + token.length, token, path, standalone });
+  }
+  return imports;
+}
+
+// 'docs/conventions' for docs/conventions.md next to CLAUDE.md; files elsewhere go by their file name
+function getImportName(path: string, stack: string[]): string {
+  const fromRoot = relative(dirname(stack[0] ?? '.'), path);
+  const name = fromRoot.startsWith('..') || isAbsolute(fromRoot) ? basename(path) : fromRoot;
+  return name.replace(/\.[^/\\.]+$/, '').split('\\').join(posix.sep);
+}
+
+function resolveImportPath(token: string, importer: string): string {
+  if (token === '~' || token.startsWith('~/')) {
+    return join(homedir(), token.slice(1));
+  }
+  return resolve(dirname(importer), token);
+}
+
+// Blanks out code blocks and code spans, keeping offsets, so imports in examples aren't followed
+function maskCode(content: string): string {
+  const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+  let masked = content;
+  for (const [start, end] of findCodeFences(content)) {
+    masked = masked.slice(0, start) + blank(masked.slice(start, end)) + masked.slice(end);
+  }
+  return masked.replace(/`[^`\n]*`/g, blank);
+}
@@ -0,0 +1,42 @@
+/**
+ * CrossRule's programmatic API. Everything exported here is free of console
+ * output, prompts and `process.exit`; problems come back in the returned
+ * results (`errors`, `warnings`) or as thrown errors. The CLI is built on it.
+ *
+ * Conversions run with `dryRun: true` only return the planned files, contents
+ * included, in `plannedFiles`; without it they are written to disk.
+ */
+
+// Detection
+export { detectAllRules, detectRulesForEditor, parseRulesFromFile, parseRuleContent, findRuleFiles } from './parsers/index.js';
+export { resolveRuleImports } from './imports/index.js';
+
+// Conversion
+export { convertRules } from './converters/index.js';
+export { createUniversalRule, convertUniversalRule, addUniversalRule } from './converters/universal.js';
+export { getConversionWarnings, getUniversalRuleWarnings, isRuleTypeSupported } from './converters/warnings.js';
+export { verifyConversions } from './verify/index.js';
+export { runDoctor } from './doctor/index.js';
+export { checkDrift } from './check/index.js';
+export { mergeDetections } from './merge/index.js';
+export { findRuleConflicts } from './conflicts/index.js';
+
+// Write plans
+export { createWritePlan, applyWritePlan, applyConflictPolicy, findHandEditedFiles } from './plan/index.js';
+export type { WritePlan, ConflictOptions, ApplyWritePlanOptions, AppliedWritePlan } from './plan/index.js';
+
+// Editors and adapters
+export {
+  EDITOR_CONFIGS,
+  getEditorConfig,
+  getAllEditorTypes,
+  resolveEditorName,
+  slugifyRuleName
+} from './utils/index.js';
+export { getAdapter, getAdapters, registerAdapter } from './adapters/index.js';
+export { loadPlugins, getLoadedPlugins, createPluginAdapter } from './plugins/index.js';
+
+// Configuration
+export { loadConfig, validateConfig, mergeConfigs, getDefaultTargets } from './config/index.js';
+
+export type * from './types/index.js';
@@ -0,0 +1,187 @@
+import { basename, dirname, extname, join, relative, resolve } from 'path';
+import { CrossRuleConfig, DetectionOptions, RuleLocation } from '../types/index.js';
+import { detectRulesForEditor, findRuleFiles, getRootLocations } from '../parsers/index.js';
+import { createPathExcluder, isEditorExcluded } from '../config/index.js';
+import { findFileSections, getAdapter, getAdapters, removeSection } from '../adapters/index.js';
+import { renameManagedRegion } from '../adapters/shared.js';
+import { slugifyRuleName } from '../utils/index.js';
+import { WritePlan } from '../plan/index.js';
+import { getRegistryPath, loadRegistry, serializeUniversalRule } from '../registry/index.js';
+
+/**
+ * Finds every place a rule with the given name lives across all editors, matching
+ * names by slug so "React Components" finds react-components.mdc and
+ * `---- react-components ----` alike. Reads through the plan so staged edits count.
+ * The config's `outputs`, `headingLevel` and `exclude` decide where and how rules are read.
+ */
+export async function findRuleLocations(
+  name: string,
+  plan: WritePlan,
+  projectPath = '.',
+  config: CrossRuleConfig = {}
+): Promise<RuleLocation[]> {
+  const slug = slugifyRuleName(name);
+  const locations: RuleLocation[] = [];
+  const options: DetectionOptions = {
+    ...(config.outputs && { outputs: config.outputs }),
+    ...(config.headingLevel !== undefined && { headingLevel: config.headingLevel })
+  };
+  const isExcluded = await createPathExcluder(config.exclude?.paths, projectPath);
+
+  for (const { editor, singleFile } of getAdapters()) {
+    if (isEditorExcluded(config, editor)) continue;
+
+    if (singleFile) {
+      // Nested files (packages/api/CLAUDE.md) hold sections of the same editor
+      const filePaths = new Set([
+        ...getRootLocations(editor, options).map(location => resolve(projectPath, location)),
+        ...await findRuleFiles(editor, projectPath, options)
+      ]);
+      for (const filePath of filePaths) {
+        const content = isExcluded(filePath) ? null : plan.read(filePath);
+        if (content === null) continue;
+        for (const section of findFileSections(editor, content, config.headingLevel)) {
+          if (slugifyRuleName(section.name) === slug) {
+            locations.push({ editor, filePath, name: section.name, section });
+          }
+        }
+      }
+      continue;
+    }
+
+    const detection = await detectRulesForEditor(editor, projectPath, options);
+    for (const rule of detection.rules) {
+      const filePath = rule.metadata?.filePath;
+      if (typeof filePath === 'string' && slugifyRuleName(rule.name) === slug && !isExcluded(filePath) && plan.read(filePath) !== null) {
+        locations.push({ editor, filePath, name: rule.name });
+      }
+    }
+  }
+
+  return locations;
+}
+
+/**
+ * Stages the removal of a rule from every editor and from the registry.
+ * Rule files are deleted; sections are cut out of single files.
+ */
+export async function planRuleRemoval(
+  name: string,
+  plan: WritePlan,
+  projectPath = '.',
+  config: CrossRuleConfig = {}
+): Promise<RuleLocation[]> {
+  const locations = await findRuleLocations(name, plan, projectPath, config);
+
+  for (const [filePath, fileLocations] of groupByFile(locations)) {
+    if (!fileLocations[0]?.section) {
+      plan.delete(filePath);
+      continue;
+    }
+    let content = plan.read(filePath) ?? '';
+    // Cut from the end so earlier offsets stay valid
+    for (const { section } of [...fileLocations].reverse()) {
+      if (section) content = removeSection(content, section);
+    }
+    plan.write(filePath, content);
+  }
+
+  const registryRule = await findRegistryEntry(name, projectPath);
+  if (registryRule) {
+    plan.delete(getRegistryPath(registryRule, projectPath));
+  }
+
+  return locations;
+}
+
+/**
+ * Stages renaming a rule everywhere: rule files move to the new slug (with
+ * matching titles/descriptions updated), section delimiters and headings are
+ * rewritten, and the registry entry moves with a bumped version.
+ */
+export async function planRuleRename(
+  oldName: string,
+  newName: string,
+  plan: WritePlan,
+  projectPath = '.',
+  config: CrossRuleConfig = {}
+): Promise<RuleLocation[]> {
+  if (slugifyRuleName(oldName) !== slugifyRuleName(newName)) {
+    const existing = await findRuleLocations(newName, plan, projectPath, config);
+    if (existing.length > 0) {
+      throw new Error(`A rule named "${newName}" already exists in ${existing.map(location => location.filePath).join(', ')}`);
+    }
+  }
+
+  const locations = await findRuleLocations(oldName, plan, projectPath, config);
+
+  for (const [filePath, fileLocations] of groupByFile(locations)) {
+    const first = fileLocations[0];
+    if (!first) continue;
+    let content = plan.read(filePath) ?? '';
+
+    if (!first.section) {
+      const newPath = join(dirname(filePath), `${slugifyRuleName(newName)}${extname(filePath)}`);
+      content = renameInContent(content, first.name, newName);
+      if (resolve(newPath) !== resolve(filePath)) {
+        plan.delete(filePath);
+      }
+      plan.write(newPath, content);
+      continue;
+    }
+
+    for (const { editor, section } of [...fileLocations].reverse()) {
+      if (!section) continue;
+      const heading = getAdapter(editor, config.headingLevel).sectionHeading?.(newName, content) ?? section.heading;
+      let text = content.slice(section.start, section.end).replace(section.heading, heading);
+      if (section.id) text = renameManagedRegion(text, slugifyRuleName(newName));
+      content = content.slice(0, section.start) + text + content.slice(section.end);
+    }
+    plan.write(filePath, content);
+  }
+
+  const registryRule = await findRegistryEntry(oldName, projectPath);
+  if (registryRule) {
+    plan.delete(getRegistryPath(registryRule, projectPath));
+    plan.write(getRegistryPath({ name: newName }, projectPath), serializeUniversalRule({
+      ...registryRule,
+      name: newName,
+      metadata: {
+        ...registryRule.metadata,
+        updated: new Date(),
+        version: registryRule.metadata.version + 1
+      }
+    }));
+  }
+
+  return locations;
+}
+
+function groupByFile(locations: RuleLocation[]): Map<string, RuleLocation[]> {
+  const groups = new Map<string, RuleLocation[]>();
+  for (const location of locations) {
+    const group = groups.get(location.filePath) ?? [];
+    group.push(location);
+    groups.set(location.filePath, group);
+  }
+  return groups;
+}
+
+// Updates a title heading or frontmatter name/title/description that spelled out the old name
+function renameInContent(content: string, oldName: string, newName: string): string {
+  const escaped = oldName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return content
+    .replace(new RegExp(`^(name|title|description):\\s*(['"]?)${escaped}\\2\\s*$`, 'm'), `$1: ${newName}`)
+    .replace(new RegExp(`^# ${escaped}\\s*$`, 'm'), `# ${newName}`);
+}
+
+async function findRegistryEntry(name: string, projectPath: string) {
+  const slug = slugifyRuleName(name);
+  return (await loadRegistry(projectPath)).rules.find(rule => slugifyRuleName(rule.name) === slug) ?? null;
+}
+
+export function describeRuleLocation(location: RuleLocation): string {
+  return location.section
+    ? `${relative(process.cwd(), location.filePath) || basename(location.filePath)} (section "${location.name}")`
+    : location.filePath;
+}
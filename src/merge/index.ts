@@ -0,0 +1,159 @@
+import {
+  DetectionResult,
+  DuplicateDecision,
+  DuplicateMatch,
+  DuplicatePolicy,
+  DuplicateReport,
+  DuplicateRules,
+  MergeOptions,
+  MergeResult,
+  Rule,
+  RuleProvenance
+} from '../types/index.js';
+import { hashContent, slugifyRuleName } from '../utils/index.js';
+
+export const DUPLICATE_POLICIES: DuplicatePolicy[] = ['prompt', 'keep-first', 'keep-both', 'combine'];
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.8;
+
+/**
+ * Merges the rules of several detections into one set. Each rule is compared
+ * with the rules of earlier detections only, so duplicates within one editor
+ * are left alone. Rules with the same name and content are merged silently;
+ * any other duplicate (same name, same content or similar wording) is settled
+ * by the duplicate policy. Every rule in the result records where it came from
+ * in `metadata.mergedFrom`. Throws when the policy is 'prompt' without a resolver.
+ */
+export async function mergeDetections(detections: DetectionResult[], options: MergeOptions = {}): Promise<MergeResult> {
+  const policy = options.onDuplicate ?? 'keep-first';
+  if (policy === 'prompt' && !options.resolveDuplicate) {
+    throw new Error('Merging with onDuplicate "prompt" needs a resolveDuplicate callback');
+  }
+  const threshold = options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+
+  const merged: Rule[] = [];
+  const duplicates: DuplicateReport[] = [];
+
+  for (const detection of detections) {
+    const earlier = merged.length;
+    for (const rule of detection.rules) {
+      const incoming = withProvenance(rule, [getProvenance(rule)]);
+      const duplicate = findDuplicate(merged.slice(0, earlier), incoming, threshold);
+      if (!duplicate) {
+        merged.push(incoming);
+        continue;
+      }
+
+      const index = merged.indexOf(duplicate.first);
+      const exact = duplicate.match === 'same-content' && isSameName(duplicate.first, incoming);
+      const decision: DuplicateDecision = exact
+        ? 'keep-first'
+        : policy === 'prompt' && options.resolveDuplicate
+          ? await options.resolveDuplicate(duplicate)
+          : policy as DuplicateDecision;
+
+      switch (decision) {
+        case 'keep-first':
+          merged[index] = withProvenance(duplicate.first, [...getMergedFrom(duplicate.first), ...getMergedFrom(incoming)]);
+          break;
+        case 'keep-second':
+          merged[index] = withProvenance(incoming, [...getMergedFrom(duplicate.first), ...getMergedFrom(incoming)]);
+          break;
+        case 'combine':
+          merged[index] = combineRules(duplicate.first, incoming);
+          break;
+        default:
+          // Both rules would be written to the same file, so the second is renamed after its editor
+          merged.push(isSameName(duplicate.first, incoming) ? { ...incoming, name: `${incoming.name}-${incoming.source}` } : incoming);
+      }
+
+      duplicates.push({
+        rules: [...getMergedFrom(duplicate.first), ...getMergedFrom(incoming)],
+        match: duplicate.match,
+        similarity: duplicate.similarity,
+        decision
+      });
+    }
+  }
+
+  return { rules: merged, duplicates };
+}
+
+// Exact content beats a shared name, which beats the most similar wording
+function findDuplicate(candidates: Rule[], rule: Rule, threshold: number): DuplicateRules | null {
+  const hash = hashContent(normalizeContent(rule.content));
+  let best: DuplicateRules | null = null;
+  const rank = (match: DuplicateMatch) => ['similar-content', 'same-name', 'same-content'].indexOf(match);
+
+  for (const candidate of candidates) {
+    const similarity = getSimilarity(candidate.content, rule.content);
+    const match: DuplicateMatch | null = hashContent(normalizeContent(candidate.content)) === hash
+      ? 'same-content'
+      : isSameName(candidate, rule)
+        ? 'same-name'
+        : similarity >= threshold ? 'similar-content' : null;
+    if (!match) continue;
+    if (!best || rank(match) > rank(best.match) || (match === best.match && similarity > best.similarity)) {
+      best = { first: candidate, second: rule, match, similarity };
+    }
+  }
+  return best;
+}
+
+function combineRules(first: Rule, second: Rule): Rule {
+  const firstContent = normalizeContent(first.content);
+  const secondContent = normalizeContent(second.content);
+  // Skip the second body when the first already contains it, and the other way round
+  const content = firstContent.includes(secondContent)
+    ? first.content
+    : secondContent.includes(firstContent)
+      ? second.content
+      : `${first.content.trimEnd()}\n\n${second.content.trim()}`;
+  const patterns = Array.from(new Set([...(first.patterns ?? []), ...(second.patterns ?? [])]));
+  const description = first.description ?? second.description;
+
+  return withProvenance({
+    ...first,
+    content,
+    ...(description !== undefined && { description }),
+    ...(patterns.length > 0 && { patterns })
+  }, [...getMergedFrom(first), ...getMergedFrom(second)]);
+}
+
+function isSameName(a: Rule, b: Rule): boolean {
+  return slugifyRuleName(a.name) === slugifyRuleName(b.name);
+}
+
+function getProvenance(rule: Rule): RuleProvenance {
+  const filePath = rule.metadata?.filePath;
+  return {
+    editor: rule.source,
+    name: rule.name,
+    ...(typeof filePath === 'string' && { filePath })
+  };
+}
+
+function getMergedFrom(rule: Rule): RuleProvenance[] {
+  const mergedFrom = rule.metadata?.mergedFrom;
+  return Array.isArray(mergedFrom) ? mergedFrom as RuleProvenance[] : [getProvenance(rule)];
+}
+
+function withProvenance(rule: Rule, mergedFrom: RuleProvenance[]): Rule {
+  return { ...rule, metadata: { ...rule.metadata, mergedFrom } };
+}
+
+function normalizeContent(content: string): string {
+  return content.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// Dice coefficient over the distinct words of both rules
+function getSimilarity(a: string, b: string): number {
+  const wordsA = new Set(normalizeContent(a).match(/[\p{L}\p{N}]+/gu) ?? []);
+  const wordsB = new Set(normalizeContent(b).match(/[\p{L}\p{N}]+/gu) ?? []);
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
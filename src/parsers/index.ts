@@ -1,15 +1,27 @@
 import { existsSync, readFileSync, statSync } from 'fs';
-import { resolve } from 'path';
+import { relative, resolve } from 'path';
 import glob from 'fast-glob';
 import matter from 'gray-matter';
-import { EditorType, DetectionResult, Rule, RuleType } from '../types/index.js';
-import { EDITOR_CONFIGS } from '../utils/index.js';
+import { EditorType, DetectionOptions, DetectionResult, Rule } from '../types/index.js';
+import { getAdapter, getAdapters } from '../adapters/index.js';
+import { extractEmbeddedActivation } from '../converters/degrade.js';
+import { scopeRuleToDirectory } from '../scopes/index.js';
+import { resolveRuleImports } from '../imports/index.js';
+
+// Nested rule locations are never looked for in these
+// .crossrule holds backups and kept copies, not rules
+const NESTED_IGNORE = ['**/node_modules/**', '**/.git/**', '**/.crossrule/**'];
+
+export interface EditorLocation {
+  path: string;
+  directory?: string;           // Project-relative directory of a nested location, e.g. 'packages/api'
+}
 
-export async function detectAllRules(projectPath = '.'): Promise<DetectionResult[]> {
+export async function detectAllRules(projectPath = '.', options: DetectionOptions = {}): Promise<DetectionResult[]> {
   const results: DetectionResult[] = [];
   
-  for (const editorType of Object.keys(EDITOR_CONFIGS) as EditorType[]) {
-    const detected = await detectRulesForEditor(editorType, projectPath);
+  for (const adapter of getAdapters()) {
+    const detected = await detectRulesForEditor(adapter.editor, projectPath, options);
     if (detected.ruleCount > 0) {
       results.push(detected);
     }
@@ -20,244 +32,183 @@ export async function detectAllRules(projectPath = '.'): Promise<DetectionResult
 
 export async function detectRulesForEditor(
   editor: EditorType, 
-  projectPath = '.'
+  projectPath = '.',
+  options: DetectionOptions = {}
 ): Promise<DetectionResult> {
-  const config = EDITOR_CONFIGS[editor];
   const rules: Rule[] = [];
+  const warnings: string[] = [];
   let detectedLocation = '';
 
-  // Check primary locations
-  for (const location of config.locations) {
-    const fullPath = resolve(projectPath, location);
-    
+  for (const { path: fullPath, directory } of await getEditorLocations(editor, projectPath, options)) {
     if (existsSync(fullPath)) {
-      const foundRules = await parseRulesFromLocation(editor, fullPath);
-      rules.push(...foundRules);
+      const foundRules = await parseRulesFromLocation(editor, fullPath, warnings, options);
+      rules.push(...(directory ? foundRules.map(rule => scopeRuleToDirectory(rule, directory)) : foundRules));
       if (foundRules.length > 0 && !detectedLocation) {
         detectedLocation = fullPath;
       }
     }
   }
 
-  // Check legacy locations
-  if (config.legacyLocations) {
-    for (const legacyLocation of config.legacyLocations) {
-      const fullPath = resolve(projectPath, legacyLocation);
-      if (existsSync(fullPath)) {
-        const foundRules = await parseRulesFromLocation(editor, fullPath);
-        rules.push(...foundRules);
-        if (foundRules.length > 0 && !detectedLocation) {
-          detectedLocation = fullPath;
-        }
-      }
-    }
-  }
-
   return {
     editor,
     rules,
     location: detectedLocation,
-    ruleCount: rules.length
+    ruleCount: rules.length,
+    warnings
   };
 }
 
-async function parseRulesFromLocation(editor: EditorType, location: string): Promise<Rule[]> {
-  const rules: Rule[] = [];
-  const stat = statSync(location);
+/**
+ * Parses a single rule file, or every section of a single-file editor's file.
+ * Returns no rules when the file is gone, so callers can refresh one path at a time.
+ * Rules from a nested location are scoped to its directory, as in detection.
+ */
+export async function parseRulesFromFile(editor: EditorType, filePath: string, projectPath = '.', options: DetectionOptions = {}): Promise<Rule[]> {
+  if (!existsSync(filePath) || !statSync(filePath).isFile()) {
+    return [];
+  }
+  const rules = await parseRulesFromLocation(editor, filePath, [], options);
+  const directory = getNestedDirectory(editor, filePath, projectPath);
+  return directory ? rules.map(rule => scopeRuleToDirectory(rule, directory)) : rules;
+}
 
-  if (stat.isFile()) {
-    // Handle single-file editors with multiple sections
-    if (editor === 'codex' || editor === 'claude-code' || editor === 'qwencoder') {
-      const sectionsRules = await parseSingleFileWithSections(editor, location);
-      rules.push(...sectionsRules);
-    } else {
-      const rule = await parseRuleFile(editor, location);
-      if (rule) rules.push(rule);
+/**
+ * Lists every rule file of an editor in the project: its single file, or the
+ * files with a rule extension under its rules directories, including nested
+ * ones for editors that read rule files in subdirectories.
+ */
+export async function findRuleFiles(editor: EditorType, projectPath = '.', options: DetectionOptions = {}): Promise<string[]> {
+  const files: string[] = [];
+  for (const { path: location } of await getEditorLocations(editor, projectPath, options)) {
+    if (existsSync(location)) {
+      files.push(...await listRuleFiles(editor, location));
     }
-  } else if (stat.isDirectory()) {
-    const config = EDITOR_CONFIGS[editor];
-    // Normalize Windows paths for glob - fast-glob expects forward slashes
-    const normalizedLocation = location.replace(/\\/g, '/');
-    const patterns = config.fileFormats.map(ext => `${normalizedLocation}/**/*${ext}`);
-    const files = await glob(patterns, { absolute: true });
-    
-    for (const file of files) {
-      const rule = await parseRuleFile(editor, file);
-      if (rule) rules.push(rule);
+  }
+  return Array.from(new Set(files));
+}
+
+/**
+ * The project-level locations of an editor's rules: its configured output
+ * location in place of the primary ones when `outputs` names one, then the
+ * legacy locations.
+ */
+export function getRootLocations(editor: EditorType, options: DetectionOptions = {}): string[] {
+  const config = getAdapter(editor).config;
+  const output = options.outputs?.[editor];
+  return [...(output ? [output] : config.locations), ...(config.legacyLocations ?? [])];
+}
+
+// Primary (or configured) locations first, then legacy ones, then nested copies of the primary ones in subdirectories.
+// '.clinerules/' and '.clinerules' resolve to one path.
+export async function getEditorLocations(editor: EditorType, projectPath: string, options: DetectionOptions = {}): Promise<EditorLocation[]> {
+  const config = getAdapter(editor).config;
+  const rootPaths = new Set(getRootLocations(editor, options).map(location => resolve(projectPath, location)));
+  const locations: EditorLocation[] = Array.from(rootPaths, path => ({ path }));
+  // A primary location replaced by `outputs` isn't read as a nested one either
+  const primaryPaths = new Set(config.locations.map(location => resolve(projectPath, location)));
+  if (!config.directoryScoped) {
+    return locations;
+  }
+
+  for (const location of config.locations) {
+    const name = location.replace(/\\/g, '/').replace(/\/$/, '');
+    const found = await glob(`**/${name}`, {
+      cwd: projectPath,
+      absolute: true,
+      dot: true,
+      onlyFiles: false,
+      ignore: NESTED_IGNORE
+    });
+    for (const path of found.map(match => resolve(match)).sort()) {
+      if (rootPaths.has(path) || primaryPaths.has(path)) continue;
+      const directory = relative(projectPath, path).replace(/\\/g, '/').slice(0, -name.length - 1);
+      locations.push({ path, directory });
     }
   }
+  return locations;
+}
 
-  return rules;
+// 'packages/api' for packages/api/CLAUDE.md or packages/api/.cursor/rules/style.mdc
+export function getNestedDirectory(editor: EditorType, filePath: string, projectPath: string): string | undefined {
+  const config = getAdapter(editor).config;
+  if (!config.directoryScoped) return undefined;
+  const path = relative(projectPath, filePath).replace(/\\/g, '/');
+  for (const location of config.locations) {
+    const name = location.replace(/\\/g, '/').replace(/\/$/, '');
+    const index = location.endsWith('/') ? path.lastIndexOf(`/${name}/`) : path.endsWith(`/${name}`) ? path.length - name.length - 1 : -1;
+    if (index > 0) return path.slice(0, index);
+  }
+  return undefined;
 }
 
-async function parseSingleFileWithSections(editor: EditorType, filePath: string): Promise<Rule[]> {
+async function listRuleFiles(editor: EditorType, location: string): Promise<string[]> {
+  const stat = statSync(location);
+  if (stat.isFile()) {
+    return [location];
+  }
+  if (!stat.isDirectory()) {
+    return [];
+  }
+
+  const config = getAdapter(editor).config;
+  // Normalize Windows paths for glob - fast-glob expects forward slashes
+  const normalizedLocation = location.replace(/\\/g, '/');
+  const patterns = config.fileFormats.map(ext => `${normalizedLocation}/**/*${ext}`);
+  // Numbered rules (step-2 before step-10) keep their order when written as sections of one file
+  const files = await glob(patterns, { absolute: true });
+  return files.sort((a, b) => a.localeCompare(b, 'en', { numeric: true }));
+}
+
+async function parseRulesFromLocation(editor: EditorType, location: string, warnings: string[], options: DetectionOptions = {}): Promise<Rule[]> {
   const rules: Rule[] = [];
-  const content = readFileSync(filePath, 'utf-8');
-  
-  if (editor === 'codex' || editor === 'qwencoder') {
-    // Parse AGENTS.md/QWEN.md with ---- section ---- delimiters
-    const sections = content.split(/^---- (.+?) ----$/gm);
-    
-    // First section is usually header/intro, skip it if it doesn't have a name
-    for (let i = 1; i < sections.length; i += 2) {
-      const sectionName = sections[i]?.trim();
-      const sectionContent = sections[i + 1]?.trim();
-      
-      if (sectionName && sectionContent) {
-        const sourceDesc = editor === 'codex' ? 'Codex CLI' : 'QwenCoder';
-        rules.push({
-          name: sectionName,
-          description: `${sectionName} rules from ${sourceDesc}`,
-          content: sectionContent,
-          type: 'always',
-          source: editor,
-          metadata: {
-            filePath,
-            section: sectionName
-          }
-        });
-      }
-    }
-  } else {
-    // For other single-file editors, treat as single rule
-    const fileName = filePath.split('/').pop()?.replace(/\.[^/.]+$/, '') || 'unnamed';
-    const rule = parseRuleContent(editor, fileName, content, filePath);
-    rules.push(rule);
+  for (const file of await listRuleFiles(editor, location)) {
+    rules.push(...parseRuleFile(editor, file, warnings, options));
   }
-  
   return rules;
 }
 
-async function parseRuleFile(editor: EditorType, filePath: string): Promise<Rule | null> {
+// A rule file holds one rule; a single-file editor's file holds one per section.
+// Unreadable files and unresolved imports are reported in `warnings` instead of being logged.
+function parseRuleFile(editor: EditorType, filePath: string, warnings: string[], options: DetectionOptions): Rule[] {
   try {
     const content = readFileSync(filePath, 'utf-8');
-    const fileName = filePath.split('/').pop()?.replace(/\.[^/.]+$/, '') || 'unnamed';
-    
-    return parseRuleContent(editor, fileName, content, filePath);
+    const config = getAdapter(editor).config;
+    if (config.hasYamlFrontmatter && !hasValidFrontmatter(content)) {
+      warnings.push(`Could not parse frontmatter in ${filePath}`);
+    }
+    const rules = parseRuleContent(editor, content, filePath, options);
+    return config.importDirectory ? resolveRuleImports(rules, filePath, options.imports ?? 'inline', warnings) : rules;
   } catch (error) {
-    console.error(`Error reading rule file ${filePath}:`, error);
-    return null;
+    warnings.push(`Error reading rule file ${filePath}: ${error instanceof Error ? error.message : error}`);
+    return [];
   }
 }
 
-function parseRuleContent(
-  editor: EditorType, 
-  name: string, 
-  content: string, 
-  filePath: string
-): Rule {
-  const config = EDITOR_CONFIGS[editor];
-  let parsedContent = content;
-  let description = '';
-  let patterns: string[] = [];
-  let ruleType: RuleType = 'always';
-
-  // Parse YAML frontmatter if supported
-  if (config.hasYamlFrontmatter) {
-    try {
-      const parsed = matter(content);
-      parsedContent = parsed.content;
-      const frontmatter = parsed.data;
-
-      if (frontmatter.description) {
-        description = frontmatter.description;
-      }
-
-      if (frontmatter.globs) {
-        patterns = Array.isArray(frontmatter.globs) ? frontmatter.globs : [frontmatter.globs];
-        ruleType = 'auto-attached';
-      }
-
-      if (frontmatter.alwaysApply === true) {
-        ruleType = 'always';
-      }
+// Parses file contents already in memory the same way detection parses files on disk
+export function parseRuleContent(editor: EditorType, content: string, filePath: string, options: DetectionOptions = {}): Rule[] {
+  return getAdapter(editor, options.headingLevel).parse(content, filePath).map(restoreEmbeddedActivation);
+}
 
-      // Editor-specific frontmatter parsing
-      switch (editor) {
-        case 'windsurf':
-          if (frontmatter.filesToApplyRule) {
-            patterns = [frontmatter.filesToApplyRule];
-            ruleType = 'glob-pattern';
-          }
-          break;
-        case 'qoder':
-          if (frontmatter.trigger) {
-            switch (frontmatter.trigger) {
-              case 'manual':
-                ruleType = 'manual';
-                break;
-              case 'model_decision':
-                ruleType = 'model-decision';
-                break;
-              case 'always_on':
-                ruleType = 'always';
-                break;
-              case 'glob':
-                ruleType = 'glob-pattern';
-                break;
-            }
-          }
-          if (frontmatter.glob) {
-            patterns = typeof frontmatter.glob === 'string' 
-              ? [frontmatter.glob]
-              : frontmatter.glob;
-          }
-          break;
-      }
-    } catch (error) {
-      console.warn(`Warning: Could not parse frontmatter in ${filePath}`);
-    }
+// Adapters fall back to treating the whole file as content, so the problem is only reported here
+function hasValidFrontmatter(content: string): boolean {
+  try {
+    matter(content);
+    return true;
+  } catch {
+    return false;
   }
+}
 
-  // Editor-specific parsing logic
-  switch (editor) {
-    case 'cursor':
-      // .mdc files with frontmatter already handled above
-      break;
-      
-    case 'cline':
-      // Simple markdown, look for title
-      const titleMatch = parsedContent.match(/^#\s+(.+)$/m);
-      if (titleMatch && titleMatch[1] && !description) {
-        description = titleMatch[1];
-      }
-      break;
-      
-    case 'codex':
-      if (filePath.includes('AGENTS.md')) {
-        description = 'Project Agent Rules';
-      }
-      break;
-      
-    case 'claude-code':
-      if (filePath.includes('CLAUDE.md')) {
-        description = 'Claude Code Instructions';
-      }
-      break;
-      
-    case 'qoder':
-      // Natural language text files
-      if (content.includes('*.') || content.includes('src/')) {
-        ruleType = 'specific-files';
-        // Extract file patterns from content
-        const patternMatches = content.match(/\*\.[a-zA-Z]+|\*\*\/\*\.[a-zA-Z]+|src\/\*+/g);
-        if (patternMatches) {
-          patterns = patternMatches;
-        }
-      }
-      break;
-  }
+// Rules written with --on-unsupported=embed-as-text carry their original activation
+function restoreEmbeddedActivation(rule: Rule): Rule {
+  const embedded = extractEmbeddedActivation(rule.content);
+  if (!embedded) return rule;
 
+  const { patterns: _patterns, ...withoutPatterns } = rule;
   return {
-    name,
-    description,
-    content: parsedContent.trim(),
-    type: ruleType,
-    ...(patterns.length > 0 && { patterns }),
-    source: editor,
-    metadata: {
-      filePath,
-      size: content.length
-    }
+    ...withoutPatterns,
+    content: embedded.content.trim(),
+    type: embedded.type,
+    ...(embedded.patterns && { patterns: embedded.patterns })
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,242 @@
+import { existsSync, readFileSync } from 'fs';
+import fs from 'fs/promises';
+import { basename, dirname, isAbsolute, join, relative, resolve } from 'path';
+import { createTwoFilesPatch } from 'diff';
+import {
+  BackupManifest,
+  ConflictDecision,
+  ConflictPolicy,
+  ConflictResolver,
+  FileDecision,
+  FileReport,
+  PlannedFile
+} from '../types/index.js';
+import { createBackup } from '../backups/index.js';
+import { loadState, saveState, toStateKey } from '../state/index.js';
+import { getGeneratedContent } from '../adapters/shared.js';
+import { hashContent } from '../utils/index.js';
+
+// Where 'keep-both' puts the generated copy of a hand-edited file
+export const KEPT_DIR = '.crossrule/kept';
+
+/**
+ * Collects every file a conversion intends to write. Converters stage content here
+ * instead of writing inline, so callers can preview (dry-run) or apply the result.
+ */
+export interface WritePlan {
+  read(filePath: string): string | null;
+  write(filePath: string, content: string): void;
+  delete(filePath: string): void;
+  discard(filePath: string): void;
+  files(): PlannedFile[];
+}
+
+export function createWritePlan(): WritePlan {
+  // Keyed by absolute path so '.cursor/rules/a.mdc' and './.cursor/rules/a.mdc' collapse
+  const entries = new Map<string, { path: string; content: string; previousContent: string | null; deleted: boolean }>();
+
+  const readFromDisk = (filePath: string): string | null => {
+    const fullPath = resolve(filePath);
+    if (!existsSync(fullPath)) return null;
+    return readFileSync(fullPath, 'utf-8');
+  };
+
+  return {
+    // Staged content wins over disk so converters that append see earlier writes
+    read: (filePath: string) => {
+      const staged = entries.get(resolve(filePath));
+      if (staged) return staged.deleted ? null : staged.content;
+      return readFromDisk(filePath);
+    },
+    write: (filePath: string, content: string) => {
+      const key = resolve(filePath);
+      const existing = entries.get(key);
+      entries.set(key, {
+        path: existing?.path ?? filePath,
+        content,
+        previousContent: existing ? existing.previousContent : readFromDisk(filePath),
+        deleted: false
+      });
+    },
+    delete: (filePath: string) => {
+      const key = resolve(filePath);
+      const existing = entries.get(key);
+      entries.set(key, {
+        path: existing?.path ?? filePath,
+        content: '',
+        previousContent: existing ? existing.previousContent : readFromDisk(filePath),
+        deleted: true
+      });
+    },
+    discard: (filePath: string) => {
+      entries.delete(resolve(filePath));
+    },
+    // Deleting a file that never existed is a no-op, so it is left out
+    files: () => Array.from(entries.values())
+      .filter(entry => !(entry.deleted && entry.previousContent === null))
+      .map(({ path, content, previousContent, deleted }) => ({
+        path,
+        content,
+        previousContent,
+        status: deleted ? 'delete' : getPlannedFileStatus(previousContent, content)
+      }))
+  };
+}
+
+function getPlannedFileStatus(previousContent: string | null, content: string): PlannedFile['status'] {
+  if (previousContent === null) return 'create';
+  return previousContent === content ? 'unchanged' : 'modify';
+}
+
+export interface ConflictOptions {
+  onConflict?: ConflictPolicy;
+  resolveConflict?: ConflictResolver;
+  projectPath?: string;         // Where .crossrule/state.json lives
+}
+
+/**
+ * Finds planned files whose on-disk content no longer matches what crossrule last
+ * generated there, i.e. someone edited the target by hand since the last run.
+ * Files crossrule never generated are not considered hand-edited, and in files
+ * with managed regions only edits inside the regions count.
+ */
+export async function findHandEditedFiles(plan: WritePlan, projectPath = '.'): Promise<PlannedFile[]> {
+  const state = await loadState(projectPath);
+
+  return plan.files().filter(file => {
+    if (file.status !== 'modify' || file.previousContent === null) return false;
+    const record = state.generated[toStateKey(file.path, projectPath)];
+    return record !== undefined && record.hash !== hashContent(getGeneratedContent(file.previousContent));
+  });
+}
+
+/**
+ * Applies the conflict policy to every hand-edited file in the plan and reports
+ * the decision taken for each planned file. 'skip' drops the file from the plan,
+ * 'keep-both' leaves the edited file alone and stages the generated content
+ * under `.crossrule/kept`, where no editor loads it. Throws when the policy is 'fail', or 'prompt' without a resolver.
+ */
+export async function applyConflictPolicy(plan: WritePlan, options: ConflictOptions = {}): Promise<FileReport[]> {
+  const policy = options.onConflict ?? 'fail';
+  const handEdited = await findHandEditedFiles(plan, options.projectPath);
+  const decisions = new Map<string, ConflictDecision>();
+
+  if (handEdited.length > 0 && (policy === 'fail' || (policy === 'prompt' && !options.resolveConflict))) {
+    const files = handEdited.map(file => `  ${file.path}`).join('\n');
+    throw new Error(`These files were edited by hand since crossrule last generated them:\n${files}\nRe-run with --on-conflict=skip|overwrite|keep-both to choose what happens to them.`);
+  }
+
+  for (const file of handEdited) {
+    const decision = policy === 'prompt' && options.resolveConflict
+      ? await options.resolveConflict(file)
+      : policy as ConflictDecision;
+    decisions.set(resolve(file.path), decision);
+  }
+
+  const reports: FileReport[] = [];
+  for (const file of plan.files()) {
+    const decision = decisions.get(resolve(file.path));
+
+    if (decision === 'skip') {
+      plan.discard(file.path);
+      reports.push({ path: file.path, decision: 'skipped', handEdited: true });
+    } else if (decision === 'keep-both') {
+      const keptPath = getKeepBothPath(file.path, options.projectPath);
+      plan.discard(file.path);
+      plan.write(keptPath, file.content);
+      reports.push({ path: file.path, decision: 'kept-both', handEdited: true, writtenTo: keptPath });
+    } else {
+      reports.push({
+        path: file.path,
+        decision: getFileDecision(file.status),
+        handEdited: decision === 'overwrite'
+      });
+    }
+  }
+
+  return reports;
+}
+
+function getFileDecision(status: PlannedFile['status']): FileDecision {
+  switch (status) {
+    case 'create':
+      return 'created';
+    case 'unchanged':
+      return 'unchanged';
+    case 'delete':
+      return 'deleted';
+    default:
+      return 'overwritten';
+  }
+}
+
+// .windsurf/rules/foo.md -> .crossrule/kept/.windsurf/rules/foo.md; a copy next to the original would load as a duplicate
+function getKeepBothPath(filePath: string, projectPath = '.'): string {
+  const fromRoot = relative(resolve(projectPath), resolve(filePath));
+  const kept = fromRoot.startsWith('..') || isAbsolute(fromRoot) ? basename(filePath) : fromRoot;
+  return join(projectPath, KEPT_DIR, kept);
+}
+
+export interface ApplyWritePlanOptions {
+  createBackup?: boolean;       // Defaults to true
+  projectPath?: string;         // Where .crossrule/backups and state.json live
+  command?: string;             // Recorded in the backup manifest
+}
+
+export interface AppliedWritePlan {
+  written: string[];
+  backup: BackupManifest | null;
+}
+
+/**
+ * Writes every created or modified file in the plan, creating parent directories
+ * as needed, and removes files planned for deletion. Unchanged files are left
+ * alone. Previous contents are snapshotted first so the run can be undone.
+ */
+export async function applyWritePlan(plan: WritePlan, options: ApplyWritePlanOptions = {}): Promise<AppliedWritePlan> {
+  const files = plan.files();
+  const written: string[] = [];
+  const backup = options.createBackup === false
+    ? null
+    : await createBackup(files, options.projectPath, options.command);
+
+  for (const file of files) {
+    if (file.status === 'unchanged') continue;
+    if (file.status === 'delete') {
+      await fs.rm(file.path, { force: true });
+      written.push(file.path);
+      continue;
+    }
+    await fs.mkdir(dirname(resolve(file.path)), { recursive: true });
+    await fs.writeFile(file.path, file.content, 'utf8');
+    written.push(file.path);
+  }
+
+  await recordGeneratedFiles(files, options.projectPath);
+
+  return { written, backup };
+}
+
+// Remembers what we generated so the next run can tell hand edits apart from our own output
+async function recordGeneratedFiles(files: PlannedFile[], projectPath = '.'): Promise<void> {
+  if (files.length === 0) return;
+
+  const state = await loadState(projectPath);
+  const generatedAt = new Date().toISOString();
+  for (const file of files) {
+    const key = toStateKey(file.path, projectPath);
+    if (file.status === 'delete') {
+      delete state.generated[key];
+    } else {
+      state.generated[key] = { hash: hashContent(getGeneratedContent(file.content)), generatedAt };
+    }
+  }
+  await saveState(state, projectPath);
+}
+
+export function createPlannedFileDiff(file: PlannedFile): string {
+  const displayPath = relative(process.cwd(), resolve(file.path)) || file.path;
+  const oldName = file.previousContent === null ? '/dev/null' : `a/${displayPath}`;
+  const newName = file.status === 'delete' ? '/dev/null' : `b/${displayPath}`;
+  return createTwoFilesPatch(oldName, newName, file.previousContent ?? '', file.content, undefined, undefined, { context: 3 });
+}
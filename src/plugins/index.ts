@@ -0,0 +1,147 @@
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import { basename, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import glob from 'fast-glob';
+import { AdapterDefinition, EditorAdapter, EditorConfig, LoadedPlugin } from '../types/index.js';
+import { slugifyRuleName } from '../utils/index.js';
+import { getAdapters, registerAdapter } from '../adapters/index.js';
+import { fromUniversalRule } from '../adapters/shared.js';
+import { findPluginPaths } from '../config/index.js';
+
+export const PLUGIN_PACKAGE_PATTERNS = ['crossrule-adapter-*', '@*/crossrule-adapter-*'];
+
+// Every plugin load attempted in this process, keyed by the file that was imported
+const loaded = new Map<string, LoadedPlugin>();
+
+/**
+ * Loads adapter plugins from `crossrule-adapter-*` packages in the project's
+ * node_modules and from the `plugins` paths in crossrule.config, and registers
+ * the editors they contribute. A plugin that fails to load is recorded with its
+ * error instead of stopping the others. Safe to call more than once.
+ */
+export async function loadPlugins(projectPath = '.'): Promise<LoadedPlugin[]> {
+  const candidates: { source: LoadedPlugin['source']; from: string; resolveEntry: () => Promise<string> }[] = [
+    ...(await findPluginPackages(projectPath)).map(({ name, directory }) => ({
+      source: 'package' as const,
+      from: name,
+      resolveEntry: () => resolvePackageEntry(directory)
+    })),
+    ...(await findPluginPaths(projectPath)).map(path => ({
+      source: 'path' as const,
+      from: path,
+      resolveEntry: async () => path
+    }))
+  ];
+
+  for (const candidate of candidates) {
+    let entry = candidate.from;
+    const plugin: LoadedPlugin = { source: candidate.source, from: candidate.from, editors: [] };
+    try {
+      entry = await candidate.resolveEntry();
+      if (loaded.has(entry)) continue;
+      for (const definition of await importDefinitions(entry)) {
+        const adapter = createPluginAdapter(definition);
+        registerAdapter(adapter);
+        plugin.editors.push(adapter.editor);
+      }
+    } catch (error) {
+      plugin.error = error instanceof Error ? error.message : String(error);
+    }
+    loaded.set(entry, plugin);
+  }
+
+  return getLoadedPlugins();
+}
+
+export function getLoadedPlugins(): LoadedPlugin[] {
+  return Array.from(loaded.values());
+}
+
+async function findPluginPackages(projectPath: string): Promise<{ name: string; directory: string }[]> {
+  const nodeModules = join(resolve(projectPath), 'node_modules');
+  if (!existsSync(nodeModules)) return [];
+
+  const names = await glob(PLUGIN_PACKAGE_PATTERNS, { cwd: nodeModules, onlyDirectories: true, deep: 2 });
+  return names.sort().map(name => ({ name, directory: join(nodeModules, name) }));
+}
+
+// Follows `exports`, then `module` and `main`, the way Node would import the package
+async function resolvePackageEntry(directory: string): Promise<string> {
+  const manifest = JSON.parse(await fs.readFile(join(directory, 'package.json'), 'utf8'));
+  const exported = typeof manifest.exports === 'object' && manifest.exports !== null && '.' in manifest.exports
+    ? manifest.exports['.']
+    : manifest.exports;
+  const conditional = typeof exported === 'object' && exported !== null
+    ? [exported.import, exported.default, exported.require].find(value => typeof value === 'string')
+    : exported;
+  const entry = [conditional, manifest.module, manifest.main].find(value => typeof value === 'string') ?? 'index.js';
+  return join(directory, entry);
+}
+
+async function importDefinitions(entry: string): Promise<AdapterDefinition[]> {
+  if (!existsSync(entry)) {
+    throw new Error(`${entry} does not exist`);
+  }
+  const module = await import(pathToFileURL(entry).href);
+  const exported = module.default ?? module.adapters ?? module.adapter;
+  const definitions = Array.isArray(exported) ? exported : [exported];
+  if (definitions.length === 0 || definitions.some(definition => typeof definition !== 'object' || definition === null)) {
+    throw new Error(`${basename(entry)} must export an adapter (or a list of adapters) as default`);
+  }
+  return definitions;
+}
+
+/**
+ * Checks what a plugin exported and fills in the parts it may leave out:
+ * universal rules are written through `serialize`, and rule files are named
+ * after the rule slug like built-in editors.
+ */
+export function createPluginAdapter(definition: AdapterDefinition): EditorAdapter {
+  const { editor } = definition;
+  const fail = (message: string): never => {
+    throw new Error(`Adapter "${String(editor)}": ${message}`);
+  };
+
+  if (typeof editor !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(editor)) {
+    fail('editor must be a lowercase id such as "my-editor"');
+  }
+  if (typeof definition.parse !== 'function' || typeof definition.serialize !== 'function') {
+    fail('parse and serialize must be functions');
+  }
+  if (definition.singleFile && (typeof definition.findSections !== 'function' || typeof definition.sectionHeading !== 'function')) {
+    fail('single-file adapters need findSections and sectionHeading');
+  }
+  if (getAdapters().some(adapter => adapter.config.displayName === definition.config?.displayName)) {
+    fail(`display name "${definition.config.displayName}" is already used`);
+  }
+  const config = validateEditorConfig(definition.config, editor, fail);
+
+  return {
+    ...definition,
+    config,
+    singleFile: definition.singleFile ?? false,
+    serializeUniversal: definition.serializeUniversal ?? (rule => definition.serialize(fromUniversalRule(rule, editor))),
+    fileName: definition.fileName ?? (definition.singleFile
+      ? () => basename(config.locations[0] ?? 'rules.md')
+      : rule => `${slugifyRuleName(rule.name)}${config.fileFormats[0] ?? '.md'}`)
+  };
+}
+
+function validateEditorConfig(config: EditorConfig | undefined, editor: string, fail: (message: string) => never): EditorConfig {
+  const isStrings = (value: unknown) => Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string');
+
+  if (typeof config !== 'object' || config === null) fail('config must be an object');
+  const checked = config as EditorConfig;
+  if (typeof checked.displayName !== 'string' || !checked.displayName.trim()) fail('config.displayName must be a string');
+  if (!isStrings(checked.fileFormats)) fail('config.fileFormats must list file extensions');
+  if (!isStrings(checked.locations)) fail('config.locations must list where rules live');
+  if (!isStrings(checked.supportedRuleTypes)) fail('config.supportedRuleTypes must list rule types');
+
+  return {
+    ...checked,
+    name: checked.name ?? editor,
+    hasGlobSupport: checked.hasGlobSupport ?? false,
+    hasYamlFrontmatter: checked.hasYamlFrontmatter ?? false
+  };
+}
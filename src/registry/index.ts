@@ -0,0 +1,104 @@
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import { join, resolve } from 'path';
+import matter from 'gray-matter';
+import { EditorType, RegistryLoadResult, UniversalRule, UniversalRuleType } from '../types/index.js';
+import { slugifyRuleName } from '../utils/index.js';
+import { WritePlan } from '../plan/index.js';
+
+// Project-level source of truth for rules created with `crossrule add`
+export const REGISTRY_DIR = '.crossrule/rules';
+
+export function getRegistryPath(rule: Pick<UniversalRule, 'name'>, projectPath = '.'): string {
+  return join(projectPath, REGISTRY_DIR, `${slugifyRuleName(rule.name)}.md`);
+}
+
+/**
+ * Serialises a rule as Markdown with YAML frontmatter, so registry entries stay
+ * readable and reviewable in pull requests.
+ */
+export function serializeUniversalRule(rule: UniversalRule): string {
+  const frontmatter: Record<string, unknown> = {
+    id: rule.id,
+    name: rule.name,
+    type: rule.type,
+    ...(rule.description && { description: rule.description }),
+    ...(rule.patterns && { patterns: rule.patterns }),
+    ...(rule.context && { context: rule.context }),
+    targetEditors: rule.targetEditors,
+    version: rule.metadata.version,
+    created: rule.metadata.created.toISOString(),
+    updated: rule.metadata.updated.toISOString(),
+    ...(rule.metadata.author && { author: rule.metadata.author }),
+    contentHash: rule.metadata.contentHash,
+    lineCount: rule.metadata.lineCount,
+    ...(rule.formatting && { formatting: rule.formatting })
+  };
+
+  return matter.stringify(rule.content.endsWith('\n') ? rule.content : `${rule.content}\n`, frontmatter);
+}
+
+export function parseUniversalRule(fileContent: string, filePath: string): UniversalRule {
+  const { data, content } = matter(fileContent);
+
+  if (!data.id || !data.name || !data.type) {
+    throw new Error(`Registry entry ${filePath} is missing id, name or type`);
+  }
+
+  return {
+    id: String(data.id),
+    name: String(data.name),
+    type: data.type as UniversalRuleType,
+    content: content.replace(/^\n/, '').replace(/\n$/, ''),
+    ...(Array.isArray(data.patterns) && { patterns: data.patterns.map(String) }),
+    ...(data.context && { context: String(data.context) }),
+    ...(data.description && { description: String(data.description) }),
+    ...(data.formatting && { formatting: data.formatting }),
+    metadata: {
+      created: new Date(data.created),
+      updated: new Date(data.updated ?? data.created),
+      ...(data.author && { author: String(data.author) }),
+      version: Number(data.version ?? 1),
+      contentHash: String(data.contentHash ?? ''),
+      lineCount: Number(data.lineCount ?? 0)
+    },
+    targetEditors: (Array.isArray(data.targetEditors) ? data.targetEditors : []) as EditorType[]
+  };
+}
+
+// Entries that can't be parsed are skipped and reported in `warnings`
+export async function loadRegistry(projectPath = '.'): Promise<RegistryLoadResult> {
+  const registryDir = resolve(projectPath, REGISTRY_DIR);
+  if (!existsSync(registryDir)) return { rules: [], warnings: [] };
+
+  const rules: UniversalRule[] = [];
+  const warnings: string[] = [];
+  for (const fileName of (await fs.readdir(registryDir)).sort()) {
+    if (!fileName.endsWith('.md')) continue;
+    const filePath = join(registryDir, fileName);
+    try {
+      rules.push(parseUniversalRule(await fs.readFile(filePath, 'utf8'), filePath));
+    } catch (error) {
+      warnings.push(`Skipping registry entry ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return { rules, warnings };
+}
+
+// Matches by id, id prefix (like a short git hash), exact name or slug
+export async function findRegistryRule(nameOrId: string, projectPath = '.'): Promise<UniversalRule | null> {
+  const { rules } = await loadRegistry(projectPath);
+  const query = nameOrId.trim().toLowerCase();
+
+  return rules.find(rule => rule.id === query)
+    ?? rules.find(rule => rule.name.toLowerCase() === query || slugifyRuleName(rule.name) === slugifyRuleName(query))
+    ?? (query.length >= 4 ? rules.find(rule => rule.id.startsWith(query)) : undefined)
+    ?? null;
+}
+
+export function stageRegistryRule(rule: UniversalRule, plan: WritePlan, projectPath = '.'): string {
+  const filePath = getRegistryPath(rule, projectPath);
+  plan.write(filePath, serializeUniversalRule(rule));
+  return filePath;
+}
@@ -0,0 +1,55 @@
+import { posix } from 'path';
+import { EditorType, Rule, RuleType } from '../types/index.js';
+import { PATTERN_RULE_TYPES, isPatternRule } from '../adapters/shared.js';
+import { getEditorConfig } from '../utils/index.js';
+
+// 'packages/api/**' or 'packages/api/**/*': every file under one directory
+const DIRECTORY_PATTERN = /^(?:\.\/)?([^*?[\]{}]+?)\/\*\*(?:\/\*)?$/;
+
+/**
+ * Applies a rule from a nested rule file (packages/api/CLAUDE.md) to its
+ * directory only. Always-on rules become pattern rules for `packages/api/**`,
+ * pattern rules have their globs moved under the directory, and every rule
+ * records the directory in `metadata.directory`.
+ */
+export function scopeRuleToDirectory(rule: Rule, directory: string): Rule {
+  const metadata = { ...rule.metadata, directory };
+  if (rule.type === 'always') {
+    return { ...rule, type: getPatternRuleType(rule), patterns: [`${directory}/**`], metadata };
+  }
+  if (isPatternRule(rule) && rule.patterns) {
+    const patterns = rule.patterns.map(pattern => posix.join(directory, pattern.replace(/^\.?\//, '')));
+    return { ...rule, patterns, metadata };
+  }
+  return { ...rule, metadata };
+}
+
+/**
+ * The directory a pattern rule covers when all its patterns match everything
+ * under one directory, e.g. 'packages/api' for `packages/api/**`. Editors
+ * without globs can still express such a rule as a nested rule file there.
+ */
+export function getScopeDirectory(rule: Pick<Rule, 'type' | 'patterns'>): string | null {
+  if (!isPatternRule(rule) || !rule.patterns || rule.patterns.length === 0) return null;
+  const directories = new Set(rule.patterns.map(pattern => DIRECTORY_PATTERN.exec(pattern.trim())?.[1] ?? null));
+  const [directory] = directories;
+  return directories.size === 1 && directory ? directory : null;
+}
+
+/**
+ * Where an editor should write a rule with a directory scope: in a nested rule
+ * file of that directory, unless the editor expresses the scope as globs and
+ * the rule has them. Undefined for rules that belong at the project root.
+ */
+export function getOutputDirectory(rule: Rule, editor: EditorType): string | undefined {
+  const config = getEditorConfig(editor);
+  const directory = rule.metadata?.directory;
+  if (!config.directoryScoped || typeof directory !== 'string' || !directory) return undefined;
+  return config.hasGlobSupport && rule.patterns?.length ? undefined : directory;
+}
+
+// The pattern type the rule's own editor uses, so the scoped rule reads as one of its own
+function getPatternRuleType(rule: Rule): RuleType {
+  const supported = getEditorConfig(rule.source).supportedRuleTypes;
+  return PATTERN_RULE_TYPES.find(type => supported.includes(type)) ?? 'glob-pattern';
+}
@@ -0,0 +1,32 @@
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import { dirname, relative, resolve } from 'path';
+import { CrossRuleState } from '../types/index.js';
+
+export const STATE_FILE = '.crossrule/state.json';
+
+export async function loadState(projectPath = '.'): Promise<CrossRuleState> {
+  const statePath = resolve(projectPath, STATE_FILE);
+  const state: CrossRuleState = { generated: {} };
+
+  if (!existsSync(statePath)) return state;
+
+  try {
+    const parsed = JSON.parse(await fs.readFile(statePath, 'utf8')) as Partial<CrossRuleState>;
+    return { ...state, ...parsed };
+  } catch {
+    // A corrupt state file only costs us change detection, never the conversion itself
+    return state;
+  }
+}
+
+export async function saveState(state: CrossRuleState, projectPath = '.'): Promise<void> {
+  const statePath = resolve(projectPath, STATE_FILE);
+  await fs.mkdir(dirname(statePath), { recursive: true });
+  await fs.writeFile(statePath, JSON.stringify(state, null, 2) + '\n', 'utf8');
+}
+
+// State keys are project-relative with forward slashes so the file is portable across machines
+export function toStateKey(filePath: string, projectPath = '.'): string {
+  return relative(resolve(projectPath), resolve(filePath)).replace(/\\/g, '/');
+}
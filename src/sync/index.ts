@@ -0,0 +1,322 @@
+import { DetectionOptions, EditorType, Rule, SyncOptions, SyncResult, SyncState } from '../types/index.js';
+import { join, resolve, sep } from 'path';
+import { detectAllRules, detectRulesForEditor, getNestedDirectory, getRootLocations, parseRulesFromFile } from '../parsers/index.js';
+import { convertToEditor, degradeRules } from '../converters/index.js';
+import { enforceStagedSizeLimits } from '../converters/limits.js';
+import { createWritePlan, applyWritePlan } from '../plan/index.js';
+import { filterExcludedRules } from '../config/index.js';
+import { loadState, saveState } from '../state/index.js';
+import { getEditorConfig, hashContent, slugifyRuleName } from '../utils/index.js';
+import { isSingleFileEditor } from '../adapters/index.js';
+
+// slug -> editor -> that editor's copy of the rule
+type RuleSnapshot = Map<string, Map<EditorType, Rule>>;
+
+// editor -> absolute file path -> rules parsed from that file; lets watch mode re-parse only what changed
+export type RuleCache = Map<EditorType, Map<string, Rule[]>>;
+
+export function hashRule(rule: Rule): string {
+  return hashContent(rule.content.trim());
+}
+
+/**
+ * Compares every rule in the synced editors with the hashes recorded at the last
+ * sync, works out which editor's copy changed, and propagates it to the others.
+ *
+ * - `source-of-truth`: the source editor's copies always win; drift elsewhere is overwritten.
+ * - `bidirectional`: a copy changed in exactly one editor is pushed everywhere; copies
+ *   changed differently in several editors are reported as conflicts and left alone.
+ */
+export async function runSync(options: SyncOptions, cache?: RuleCache): Promise<SyncResult> {
+  const projectPath = options.projectPath ?? '.';
+  const result: SyncResult = {
+    success: true,
+    changes: [],
+    conflicts: [],
+    removed: [],
+    errors: [],
+    warnings: [],
+    plannedFiles: []
+  };
+
+  if (options.strategy === 'source-of-truth' && !options.sourceOfTruth) {
+    throw new Error('The source-of-truth strategy needs a source editor');
+  }
+
+  const detection: DetectionOptions = {
+    ...(options.headingLevel !== undefined && { headingLevel: options.headingLevel }),
+    ...(options.outputs && { outputs: options.outputs })
+  };
+  const editors = await resolveSyncEditors(options, projectPath, detection);
+  const { snapshot, order } = await takeSnapshot(editors, projectPath, detection, cache, options.excludePaths);
+  const state = await loadState(projectPath);
+  const recorded = state.sync?.rules ?? {};
+  const onlyRule = options.rule ? slugifyRuleName(options.rule) : null;
+
+  // editor -> slug -> rule to write into that editor
+  const updates = new Map<EditorType, Map<string, Rule>>();
+  const queueUpdate = (slug: string, rule: Rule, targets: EditorType[]) => {
+    if (targets.length === 0) return;
+    for (const target of targets) {
+      const editorUpdates = updates.get(target) ?? new Map<string, Rule>();
+      editorUpdates.set(slug, rule);
+      updates.set(target, editorUpdates);
+    }
+    result.changes.push({ rule: rule.name, from: rule.source, to: targets });
+  };
+  const skipRecording = new Set<string>();
+
+  const slugs = new Set([...snapshot.keys(), ...Object.keys(recorded)]);
+  for (const slug of slugs) {
+    if (onlyRule && slug !== onlyRule) continue;
+
+    const copies = snapshot.get(slug) ?? new Map<EditorType, Rule>();
+    const previous = recorded[slug];
+    const present = editors.filter(editor => copies.has(editor));
+    const deletedIn = previous
+      ? editors.filter(editor => previous[editor] !== undefined && !copies.has(editor))
+      : [];
+
+    if (present.length === 0) continue;
+
+    if (options.strategy === 'source-of-truth') {
+      const source = options.sourceOfTruth as EditorType;
+      const sourceRule = copies.get(source);
+      if (!sourceRule) continue;
+      const sourceHash = hashRule(sourceRule);
+      const targets = editors.filter(editor => {
+        if (editor === source) return false;
+        const copy = copies.get(editor);
+        // Missing, drifted, or stale because the source changed
+        return !copy || previous?.[source] !== sourceHash || previous?.[editor] !== hashRule(copy);
+      });
+      queueUpdate(slug, sourceRule, targets);
+      continue;
+    }
+
+    if (deletedIn.length > 0) {
+      // Don't resurrect a rule someone deleted; removal is done with `crossrule remove`
+      result.removed.push({ rule: copies.get(present[0] as EditorType)?.name ?? slug, editors: deletedIn });
+      skipRecording.add(slug);
+      continue;
+    }
+
+    const missing = editors.filter(editor => !copies.has(editor));
+
+    if (!previous) {
+      // First time we see this rule: nothing to compare against, so only fill the gaps
+      queueUpdate(slug, copies.get(present[0] as EditorType) as Rule, missing);
+      continue;
+    }
+
+    const changed = present.filter(editor => previous[editor] !== hashRule(copies.get(editor) as Rule));
+    const distinctVersions = new Set(changed.map(editor => hashRule(copies.get(editor) as Rule)));
+
+    if (changed.length === 0) {
+      queueUpdate(slug, copies.get(present[0] as EditorType) as Rule, missing);
+    } else if (distinctVersions.size === 1 || (options.prefer && changed.includes(options.prefer))) {
+      const winner = options.prefer && changed.includes(options.prefer) ? options.prefer : changed[0] as EditorType;
+      const winnerHash = hashRule(copies.get(winner) as Rule);
+      const targets = editors.filter(editor => {
+        const copy = copies.get(editor);
+        return editor !== winner && (!copy || hashRule(copy) !== winnerHash);
+      });
+      queueUpdate(slug, copies.get(winner) as Rule, targets);
+    } else {
+      result.conflicts.push({
+        rule: copies.get(changed[0] as EditorType)?.name ?? slug,
+        editors: changed,
+        files: changed.map(editor => String(copies.get(editor)?.metadata?.filePath ?? editor))
+      });
+      skipRecording.add(slug);
+    }
+  }
+
+  const plan = createWritePlan();
+  for (const [editor, editorUpdates] of updates) {
+    try {
+      const merged = isSingleFileEditor(editor)
+        ? mergeIntoExisting(order.get(editor) ?? [], editorUpdates)
+        : Array.from(editorUpdates.values());
+      const { rules } = degradeRules(merged, editor, options.onUnsupported ?? 'downgrade-to-always');
+      const files = await convertToEditor(rules, editor, projectPath, plan, options.outputs?.[editor], detection);
+      const limits = await enforceStagedSizeLimits(editor, files, plan, options.onSizeLimit ?? 'warn', 'sync', projectPath, detection);
+      result.warnings.push(...limits.warnings);
+    } catch (error) {
+      result.errors.push(`Failed to sync ${editor}: ${error instanceof Error ? error.message : error}`);
+      result.success = false;
+    }
+  }
+
+  result.plannedFiles = plan.files();
+  if (options.dryRun || !result.success) {
+    return result;
+  }
+
+  const { backup } = await applyWritePlan(plan, {
+    createBackup: options.createBackup ?? true,
+    projectPath,
+    command: 'sync'
+  });
+  if (backup) {
+    result.backupId = backup.id;
+  }
+
+  if (cache) {
+    await refreshRuleCache(cache, result.plannedFiles.map(file => file.path), projectPath, detection);
+  }
+  await recordSyncState(editors, projectPath, detection, cache, options.excludePaths, slug => !skipRecording.has(slug) && (!onlyRule || slug === onlyRule));
+
+  return result;
+}
+
+async function resolveSyncEditors(options: SyncOptions, projectPath: string, detection: DetectionOptions): Promise<EditorType[]> {
+  const editors = options.editors && options.editors.length > 0
+    ? [...options.editors]
+    : (await detectAllRules(projectPath, detection))
+      .map(detection => detection.editor)
+      .filter(editor => !options.exclude?.includes(editor));
+
+  if (options.sourceOfTruth && !editors.includes(options.sourceOfTruth)) {
+    editors.unshift(options.sourceOfTruth);
+  }
+  return editors;
+}
+
+async function takeSnapshot(editors: EditorType[], projectPath: string, detection: DetectionOptions, cache?: RuleCache, excludePaths?: string[]) {
+  const snapshot: RuleSnapshot = new Map();
+  const order = new Map<EditorType, Rule[]>();
+
+  for (const editor of editors) {
+    const detected = cache
+      ? Array.from((await getCachedEditor(cache, editor, projectPath, detection)).values()).flat()
+      : (await detectRulesForEditor(editor, projectPath, detection)).rules;
+    const rules = await filterExcludedRules(detected, excludePaths, projectPath);
+    order.set(editor, rules);
+    for (const rule of rules) {
+      const slug = slugifyRuleName(rule.name);
+      const copies = snapshot.get(slug) ?? new Map<EditorType, Rule>();
+      copies.set(editor, rule);
+      snapshot.set(slug, copies);
+    }
+  }
+
+  return { snapshot, order };
+}
+
+/**
+ * Returns the cached rules of one editor, grouped by file, detecting them the
+ * first time the editor is asked for.
+ */
+export async function getCachedEditor(
+  cache: RuleCache,
+  editor: EditorType,
+  projectPath = '.',
+  options: DetectionOptions = {}
+): Promise<Map<string, Rule[]>> {
+  const cached = cache.get(editor);
+  if (cached) return cached;
+
+  const files = new Map<string, Rule[]>();
+  const detection = await detectRulesForEditor(editor, projectPath, options);
+  for (const rule of detection.rules) {
+    const filePath = resolve(String(rule.metadata?.filePath ?? detection.location));
+    files.set(filePath, [...(files.get(filePath) ?? []), rule]);
+  }
+  cache.set(editor, files);
+  return files;
+}
+
+/**
+ * Re-parses the given files for every cached editor that already tracks them or
+ * whose locations contain them, dropping files that no longer exist.
+ */
+export async function refreshRuleCache(cache: RuleCache, filePaths: string[], projectPath = '.', options: DetectionOptions = {}): Promise<void> {
+  for (const filePath of filePaths.map(path => resolve(path))) {
+    for (const [editor, files] of cache) {
+      if (!files.has(filePath) && !isInEditorLocation(editor, filePath, projectPath, options)) continue;
+      const rules = await parseRulesFromFile(editor, filePath, projectPath, options);
+      if (rules.length > 0) {
+        files.set(filePath, rules);
+      } else {
+        files.delete(filePath);
+      }
+    }
+  }
+}
+
+/**
+ * Whether a path is one of the editor's rule files: a single-file location itself,
+ * or a file with a supported extension inside one of its rule directories, at the
+ * project root (or the configured output location) or, for editors with nested
+ * rule files, in a subdirectory.
+ */
+export function isInEditorLocation(editor: EditorType, filePath: string, projectPath = '.', options: DetectionOptions = {}): boolean {
+  const config = getEditorConfig(editor);
+  const fullPath = resolve(filePath);
+
+  const atRoot = getRootLocations(editor, options).some(location => {
+    const locationPath = resolve(projectPath, location);
+    if (fullPath === locationPath) return true;
+    // An output location like 'docs/rules' names a directory for multi-file editors, with or without the slash
+    return (location.endsWith('/') || !isSingleFileEditor(editor))
+      && fullPath.startsWith(`${locationPath}${sep}`)
+      && config.fileFormats.some(ext => fullPath.endsWith(ext));
+  });
+  if (atRoot) return true;
+  const directory = getNestedDirectory(editor, fullPath, resolve(projectPath));
+  return directory !== undefined && !directory.startsWith('..') && isInEditorLocation(editor, fullPath, join(resolve(projectPath), directory));
+}
+
+// Single-file editors are regenerated as a whole, so keep their other rules in place
+function mergeIntoExisting(existing: Rule[], updates: Map<string, Rule>): Rule[] {
+  const remaining = new Map(updates);
+  const merged = existing.map(rule => {
+    const slug = slugifyRuleName(rule.name);
+    const replacement = remaining.get(slug);
+    remaining.delete(slug);
+    return replacement ?? rule;
+  });
+  return [...merged, ...remaining.values()];
+}
+
+/**
+ * Records the hash of every rule as it now exists in each synced editor. Rules in
+ * conflict, deleted somewhere, or outside a `--rule` filter keep their previous
+ * hashes so their changes are still picked up by the next sync.
+ */
+async function recordSyncState(
+  editors: EditorType[],
+  projectPath: string,
+  detection: DetectionOptions,
+  cache: RuleCache | undefined,
+  excludePaths: string[] | undefined,
+  shouldRecord: (slug: string) => boolean
+): Promise<void> {
+  const state = await loadState(projectPath);
+  const rules: SyncState['rules'] = { ...(state.sync?.rules ?? {}) };
+  const { snapshot } = await takeSnapshot(editors, projectPath, detection, cache, excludePaths);
+
+  for (const slug of new Set([...Object.keys(rules), ...snapshot.keys()])) {
+    if (!shouldRecord(slug)) continue;
+
+    const hashes: Partial<Record<EditorType, string>> = { ...rules[slug] };
+    for (const editor of editors) {
+      const rule = snapshot.get(slug)?.get(editor);
+      if (rule) {
+        hashes[editor] = hashRule(rule);
+      } else {
+        delete hashes[editor];
+      }
+    }
+
+    if (Object.keys(hashes).length > 0) {
+      rules[slug] = hashes;
+    } else {
+      delete rules[slug];
+    }
+  }
+
+  state.sync = { lastSync: new Date().toISOString(), rules };
+  await saveState(state, projectPath);
+}
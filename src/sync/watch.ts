@@ -0,0 +1,246 @@
+import { existsSync, readFileSync, statSync, watch, FSWatcher } from 'fs';
+import { dirname, join, resolve, sep } from 'path';
+import { DetectionOptions, EditorType, SyncOptions, SyncResult } from '../types/index.js';
+import { getAllEditorTypes, hashContent } from '../utils/index.js';
+import { getEditorLocations } from '../parsers/index.js';
+import { RuleCache, getCachedEditor, refreshRuleCache, runSync } from './index.js';
+
+export interface SyncWatchOptions {
+  debounceMs?: number;
+  onChange?: (files: string[]) => void;          // Called with the changed files before each sync
+  onSync?: (result: SyncResult) => void;
+  onError?: (error: unknown) => void;
+}
+
+export interface SyncWatcher {
+  close(): void;
+}
+
+interface WatchTarget {
+  path: string;
+  recursive: boolean;
+}
+
+// editor -> absolute paths of its rule locations, nested ones in subdirectories included
+type LocationPaths = Map<EditorType, string[]>;
+
+/**
+ * Watches every rule location of every editor, including nested ones such as
+ * packages/api/CLAUDE.md, and re-runs sync when rule files change. Changes are
+ * debounced, only the touched files are re-parsed, and files whose content
+ * matches what sync itself just wrote are ignored so runs don't loop. Nested
+ * locations are looked for again after every sync. Syncs after the first one
+ * take no backups, so a long session doesn't leave a run behind per edit.
+ */
+export async function watchSync(options: SyncOptions, watchOptions: SyncWatchOptions = {}): Promise<SyncWatcher> {
+  const projectPath = resolve(options.projectPath ?? '.');
+  const debounceMs = watchOptions.debounceMs ?? 300;
+  const cache: RuleCache = new Map();
+  const detection: DetectionOptions = {
+    ...(options.headingLevel !== undefined && { headingLevel: options.headingLevel }),
+    ...(options.outputs && { outputs: options.outputs })
+  };
+  for (const editor of getAllEditorTypes()) {
+    await getCachedEditor(cache, editor, projectPath, detection);
+  }
+
+  // Absolute path -> hash of the content sync wrote there (null when sync deleted it)
+  const ownWrites = new Map<string, string | null>();
+  const pending = new Set<string>();
+  let watchers = new Map<string, FSWatcher>();
+  let locations: LocationPaths = new Map();
+  let rewatching = Promise.resolve();
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+  let closed = false;
+
+  const syncEditors = (): EditorType[] => options.editors && options.editors.length > 0
+    ? options.editors
+    : getAllEditorTypes().filter(editor => !options.exclude?.includes(editor) && (cache.get(editor)?.size ?? 0) > 0);
+
+  const flush = async () => {
+    timer = null;
+    if (running) {
+      schedule();
+      return;
+    }
+    running = true;
+
+    const changed = Array.from(pending).filter(filePath => !isOwnWrite(filePath));
+    pending.clear();
+
+    try {
+      if (changed.length > 0) {
+        watchOptions.onChange?.(changed);
+        await refreshChangedPaths(cache, changed, projectPath, detection, locations);
+        const result = await runSync({ ...options, projectPath, editors: syncEditors(), createBackup: false }, cache);
+        for (const file of result.plannedFiles) {
+          ownWrites.set(resolve(file.path), file.status === 'delete' ? null : hashContent(file.content));
+        }
+        watchOptions.onSync?.(result);
+      }
+    } catch (error) {
+      watchOptions.onError?.(error);
+    } finally {
+      running = false;
+      // Rule directories may have been created or removed along the way
+      if (!closed) void rewatch();
+    }
+  };
+
+  const schedule = () => {
+    if (closed) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => void flush(), debounceMs);
+  };
+
+  const isOwnWrite = (filePath: string): boolean => {
+    if (!ownWrites.has(filePath)) return false;
+    const expected = ownWrites.get(filePath);
+    const actual = existsSync(filePath) && statSync(filePath).isFile()
+      ? hashContent(readFileSync(filePath, 'utf-8'))
+      : null;
+    if (actual === expected) return true;
+    // Someone edited it after our write; from now on it's a regular change
+    ownWrites.delete(filePath);
+    return false;
+  };
+
+  const onEvent = (target: WatchTarget, filename: string | null) => {
+    if (!filename) return;
+    const fullPath = join(target.path, filename);
+    if (!isWatchedPath(fullPath, locations)) return;
+
+    pending.add(fullPath);
+    // A rule directory or single file appeared or vanished: re-point the watchers
+    if (!target.recursive) {
+      void rewatch();
+    }
+    schedule();
+  };
+
+  // One at a time, so two quick events don't both open watchers for the same target
+  const rewatch = (): Promise<void> => {
+    rewatching = rewatching
+      .then(async () => {
+        locations = await findLocationPaths(projectPath, detection);
+        if (!closed) updateWatchers();
+      })
+      .catch(error => watchOptions.onError?.(error));
+    return rewatching;
+  };
+
+  const updateWatchers = () => {
+    const next = new Map<string, FSWatcher>();
+    for (const target of getWatchTargets(projectPath, locations)) {
+      const key = `${target.path}:${target.recursive}`;
+      const existing = watchers.get(key);
+      if (existing) {
+        next.set(key, existing);
+        watchers.delete(key);
+        continue;
+      }
+      try {
+        const watcher = watch(target.path, { recursive: target.recursive }, (_event, filename) => onEvent(target, filename));
+        watcher.on('error', error => watchOptions.onError?.(error));
+        next.set(key, watcher);
+      } catch (error) {
+        watchOptions.onError?.(error);
+      }
+    }
+    watchers.forEach(watcher => watcher.close());
+    watchers = next;
+  };
+
+  await rewatch();
+
+  return {
+    close: () => {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      watchers.forEach(watcher => watcher.close());
+      watchers.clear();
+    }
+  };
+}
+
+/**
+ * Rule directories that exist are watched recursively. Single files and missing
+ * directories are watched through their nearest existing parent, so creating
+ * `CLAUDE.md` or `.windsurf/rules/` is noticed too.
+ */
+function getWatchTargets(projectPath: string, locations: LocationPaths): WatchTarget[] {
+  const targets = new Map<string, WatchTarget>();
+
+  for (const locationPath of new Set(Array.from(locations.values()).flat())) {
+    if (existsSync(locationPath) && statSync(locationPath).isDirectory()) {
+      targets.set(`${locationPath}:true`, { path: locationPath, recursive: true });
+      continue;
+    }
+    let parent = dirname(locationPath);
+    while (!existsSync(parent) && parent.startsWith(projectPath) && parent !== projectPath) {
+      parent = dirname(parent);
+    }
+    targets.set(`${parent}:false`, { path: parent, recursive: false });
+  }
+
+  return Array.from(targets.values());
+}
+
+// The locations detection reads, nested ones included; glob locations aren't resolved by detection either
+async function findLocationPaths(projectPath: string, detection: DetectionOptions): Promise<LocationPaths> {
+  const locations: LocationPaths = new Map();
+  for (const editor of getAllEditorTypes()) {
+    const paths = (await getEditorLocations(editor, projectPath, detection)).map(location => location.path);
+    locations.set(editor, paths.filter(path => !path.includes('*')));
+  }
+  return locations;
+}
+
+// A rule location, something inside one, or a parent directory on the way to one
+function isWatchedPath(fullPath: string, locations: LocationPaths): boolean {
+  return Array.from(locations.values()).flat().some(locationPath =>
+    fullPath === locationPath
+    || fullPath.startsWith(`${locationPath}${sep}`)
+    || locationPath.startsWith(`${fullPath}${sep}`));
+}
+
+async function refreshChangedPaths(
+  cache: RuleCache,
+  changed: string[],
+  projectPath: string,
+  detection: DetectionOptions,
+  locations: LocationPaths
+): Promise<void> {
+  const files: string[] = [];
+
+  for (const fullPath of changed) {
+    if (existsSync(fullPath) && statSync(fullPath).isDirectory()) {
+      // A whole directory moved in or out: re-detect the editors that own it
+      for (const editor of getAllEditorTypes()) {
+        if (affectsEditor(fullPath, locations.get(editor) ?? [])) {
+          cache.delete(editor);
+          await getCachedEditor(cache, editor, projectPath, detection);
+        }
+      }
+      continue;
+    }
+
+    // Deleted directories leave cached files underneath them
+    for (const editorFiles of cache.values()) {
+      for (const cachedPath of editorFiles.keys()) {
+        if (cachedPath.startsWith(`${fullPath}${sep}`)) files.push(cachedPath);
+      }
+    }
+    files.push(fullPath);
+  }
+
+  await refreshRuleCache(cache, files, projectPath, detection);
+}
+
+function affectsEditor(directory: string, locationPaths: string[]): boolean {
+  return locationPaths.some(locationPath =>
+    locationPath === directory
+    || locationPath.startsWith(`${directory}${sep}`)
+    || directory.startsWith(`${locationPath}${sep}`));
+}
@@ -22,6 +22,7 @@ export interface DetectionResult {
   rules: Rule[];
   location: string;
   ruleCount: number;
+  warnings: string[];           // Files that couldn't be read or had broken frontmatter, and imports that couldn't be resolved
 }
 
 // Universal Rule Management System
@@ -61,6 +62,21 @@ export interface AddRuleOptions {
   fromFile?: string;            // Read content from file
   preserveMarkdown?: boolean;
   author?: string;
+  dryRun?: boolean;
+  createBackup?: boolean;
+  onConflict?: ConflictPolicy;
+  resolveConflict?: ConflictResolver; // Asked per file when onConflict is 'prompt'
+  onUnsupported?: UnsupportedPolicy;
+  onSizeLimit?: SizeLimitPolicy; // Rules are never split by add, only reported (default: 'warn')
+  outputs?: EditorOutputs;
+  headingLevel?: number;        // Heading level of sections in single files (default: 2)
+  projectPath?: string;         // Root the editor locations, registry and backups are under (default: '.')
+}
+
+// The rules in .crossrule/rules
+export interface RegistryLoadResult {
+  rules: UniversalRule[];
+  warnings: string[];           // Entries that couldn't be parsed and were skipped
 }
 
 export interface AddRuleResult {
@@ -68,10 +84,13 @@ export interface AddRuleResult {
   rule?: UniversalRule;
   outputFiles: string[];       // Files created/modified
   errors: string[];
-  warnings: string[];
+  warnings: ConversionWarning[];
+  plannedFiles?: PlannedFile[];
+  fileReports?: FileReport[];
+  backupId?: string;
 }
 
-export type EditorType = 
+export type BuiltInEditorType =
   | 'cursor'
   | 'windsurf'
   | 'cline'
@@ -82,6 +101,9 @@ export type EditorType =
   | 'trae'
   | 'qwencoder';
 
+// Built-in editors plus any contributed by adapter plugins
+export type EditorType = BuiltInEditorType | (string & {});
+
 export type RuleType = 
   | 'always'           // Always included
   | 'auto-attached'    // Auto-attached based on patterns
@@ -104,6 +126,8 @@ export interface EditorConfig {
   fileFormats: string[];
   locations: string[];
   legacyLocations?: string[];
+  directoryScoped?: boolean;    // Also reads its locations in subdirectories, applying those rules to that directory
+  importDirectory?: string;     // Reads `@path` imports in its rule files; rules written as imports go here, next to the rule file
   supportedRuleTypes: RuleType[];
   hasGlobSupport: boolean;
   hasYamlFrontmatter: boolean;
@@ -112,6 +136,55 @@ export interface EditorConfig {
   aliasDisplayNames?: string[];
 }
 
+// A named part of a single-file editor's file: `---- name ----` in AGENTS.md/QWEN.md, `## name` in CLAUDE.md
+export interface FileSection {
+  name: string;
+  start: number;                // Offset of the delimiter/heading line, or of a managed region's begin marker
+  end: number;                  // Offset where the next section, the managed region or the file ends
+  heading: string;              // The delimiter/heading line itself
+  body: string;                 // Everything after the heading line up to `end`, without region markers
+  id?: string;                  // Set when crossrule manages the section: the rule id in its region markers
+}
+
+/**
+ * Everything crossrule knows about one editor's rule format: where rules live
+ * (`config.locations`), how its files are parsed, and how both rule models are
+ * written back. Single-file editors keep every rule as a section of one file.
+ */
+export interface EditorAdapter {
+  editor: EditorType;
+  config: EditorConfig;
+  singleFile: boolean;
+  parse(content: string, filePath: string): Rule[];
+  serialize(rule: Rule): string;               // A whole rule file, or one section of a single file
+  serializeUniversal(rule: UniversalRule): string;
+  fileName(rule: Pick<Rule, 'name'>): string;  // Used by multi-file editors
+  header?: string;                             // Starts a new single file, above the sections
+  findSections?(content: string): FileSection[];
+  sectionHeading?(name: string, content?: string): string; // In the style `content` already uses, if given
+  prepareFile?(content: string): string;       // Normalises an existing single file before a section is added
+  withHeadingLevel?(level: number): EditorAdapter; // The same single-file adapter with sections at another heading level
+  frontmatter?: FrontmatterSchema;             // Checked by `crossrule doctor`
+}
+
+// The frontmatter keys an editor understands, so misspelled or foreign keys can be reported
+export interface FrontmatterSchema {
+  keys: string[];
+  patternsKey?: string;                         // Where the editor reads file patterns from
+  values?: Record<string, string[]>;            // Allowed values for keys with a fixed set
+}
+
+// What an adapter plugin exports; the optional parts default like built-in adapters
+export type AdapterDefinition = Pick<EditorAdapter, 'editor' | 'config' | 'parse' | 'serialize'> &
+  Partial<Omit<EditorAdapter, 'editor' | 'config' | 'parse' | 'serialize'>>;
+
+export interface LoadedPlugin {
+  source: 'package' | 'path';   // A crossrule-adapter-* package, or a path from the config
+  from: string;                 // Package name or absolute path
+  editors: EditorType[];        // Editors it contributed (empty when loading failed)
+  error?: string;
+}
+
 export interface ConversionOptions {
   sourceEditor: EditorType;
   targetEditor: EditorType;
@@ -120,13 +193,394 @@ export interface ConversionOptions {
   outputPath?: string;
 }
 
+export interface ConvertRulesOptions {
+  dryRun?: boolean;             // Plan every file but leave the filesystem untouched
+  createBackup?: boolean;       // Snapshot overwritten files into .crossrule/backups (default: true)
+  onConflict?: ConflictPolicy;  // What to do with hand-edited targets (default: 'fail')
+  resolveConflict?: ConflictResolver; // Asked per file when onConflict is 'prompt'
+  onUnsupported?: UnsupportedPolicy; // Rules whose type a target lacks (default: 'downgrade-to-always')
+  onSizeLimit?: SizeLimitPolicy; // Output over a target's size limits (default: 'warn')
+  outputs?: EditorOutputs;      // Per-editor output locations replacing EDITOR_CONFIGS locations
+  emitImportsAbove?: number;    // Rules larger than this many bytes go to their own file, `@`-imported by editors with imports
+  headingLevel?: number;        // Heading level of sections in single files, e.g. 3 for `### name` (default: 2)
+}
+
 export interface ConversionResult {
   success: boolean;
   converted: number;
   skipped: number;
   errors: string[];
   outputFiles: string[];
+  warnings: ConversionWarning[];
+  sizeBudgets: SizeBudget[];
   perEditorOutputFiles?: Partial<Record<EditorType, string[]>>;
+  plannedFiles?: PlannedFile[];
+  fileReports?: FileReport[];
+  backupId?: string;
+}
+
+// What to do with a rule whose type the target editor doesn't support
+export type UnsupportedPolicy = 'skip' | 'downgrade-to-always' | 'embed-as-text' | 'error';
+
+// What to do when converted output exceeds a target's maxFileSize or maxTotalSize
+export type SizeLimitPolicy = 'warn' | 'error';
+
+// Something a target editor can't express, reported per rule so it can be reviewed by hand
+export type ConversionWarningKind =
+  | 'type-unsupported'
+  | 'patterns-dropped'
+  | 'rule-split'
+  | 'file-too-large'
+  | 'total-too-large';
+
+export interface ConversionWarning {
+  rule: string;                 // Empty when the warning is about an editor's output as a whole
+  editor: EditorType;
+  kind: ConversionWarningKind;
+  message: string;
+}
+
+// How much of an editor's size limits one conversion uses, in characters
+export interface SizeBudget {
+  editor: EditorType;
+  files: number;
+  totalSize: number;
+  largestFile: number;
+  maxFileSize?: number;
+  maxTotalSize?: number;
+  oversizedFiles: string[];
+}
+
+// Write planning: converters stage their output here before anything touches disk
+export type PlannedFileStatus = 'create' | 'modify' | 'unchanged' | 'delete';
+
+export interface PlannedFile {
+  path: string;
+  content: string;              // Empty for deletions
+  previousContent: string | null; // null when the file does not exist yet
+  status: PlannedFileStatus;
+}
+
+// Hand-edit detection: a target diverged when its on-disk hash no longer matches what crossrule last wrote
+export type ConflictPolicy = 'prompt' | 'skip' | 'overwrite' | 'keep-both' | 'fail';
+
+export type ConflictDecision = 'skip' | 'overwrite' | 'keep-both';
+
+export type ConflictResolver = (file: PlannedFile) => Promise<ConflictDecision>;
+
+export type FileDecision = 'created' | 'overwritten' | 'unchanged' | 'skipped' | 'kept-both' | 'deleted';
+
+export interface FileReport {
+  path: string;
+  decision: FileDecision;
+  handEdited: boolean;
+  writtenTo?: string;           // Set for 'kept-both': where the generated content went instead
+}
+
+export interface GeneratedFileRecord {
+  hash: string;
+  generatedAt: string;
+}
+
+// Persisted in .crossrule/state.json
+export interface CrossRuleState {
+  generated: Record<string, GeneratedFileRecord>; // Keyed by path relative to the project root
+  sync?: SyncState;
+}
+
+// Sync: content hash of each rule per editor as of the last successful sync
+export type SyncStrategy = 'source-of-truth' | 'bidirectional';
+
+export interface SyncState {
+  lastSync: string;
+  rules: Record<string, Partial<Record<EditorType, string>>>; // Keyed by rule slug
+}
+
+export interface SyncOptions {
+  strategy: SyncStrategy;
+  sourceOfTruth?: EditorType;   // Required for 'source-of-truth'
+  editors?: EditorType[];       // Editors kept in sync (default: every editor with rules)
+  prefer?: EditorType;          // Resolves bidirectional conflicts in favour of this editor
+  rule?: string;                // Only sync this rule
+  exclude?: EditorType[];       // Left out of the detected editors
+  excludePaths?: string[];      // Globs of rule files to ignore
+  outputs?: EditorOutputs;
+  onUnsupported?: UnsupportedPolicy;
+  onSizeLimit?: SizeLimitPolicy; // Rules are never split by sync, only reported (default: 'warn')
+  projectPath?: string;
+  dryRun?: boolean;
+  createBackup?: boolean;
+  headingLevel?: number;        // Heading level of sections in single files, read and written (default: 2)
+}
+
+export interface SyncChange {
+  rule: string;
+  from: EditorType;
+  to: EditorType[];
+}
+
+export interface SyncConflict {
+  rule: string;
+  editors: EditorType[];        // Editors whose copies changed independently
+  files: string[];
+}
+
+export interface SyncResult {
+  success: boolean;
+  changes: SyncChange[];
+  conflicts: SyncConflict[];
+  removed: { rule: string; editors: EditorType[] }[]; // Deleted in some editors since the last sync
+  errors: string[];
+  warnings: ConversionWarning[]; // Files over an editor's size limits
+  plannedFiles: PlannedFile[];
+  backupId?: string;
+}
+
+// Round-trip verification: what survives converting a rule set from one editor to another
+export type FidelityField = 'name' | 'description' | 'type' | 'patterns' | 'content';
+
+export type FieldFidelity = 'preserved' | 'changed' | 'dropped';
+
+export interface FieldDifference {
+  rule: string;
+  field: FidelityField;
+  status: Exclude<FieldFidelity, 'preserved'>;
+  before?: string;
+  after?: string;
+}
+
+export interface PairFidelity {
+  source: EditorType;
+  target: EditorType;
+  rules: number;                // Rules in the source editor's copy of the rule set
+  fields: Record<FidelityField, FieldFidelity>; // Worst outcome across all rules
+  differences: FieldDifference[];
+  error?: string;
+}
+
+export interface VerifyOptions {
+  sources?: EditorType[];       // Default: every editor
+  targets?: EditorType[];       // Default: every editor
+  headingLevel?: number;        // Heading level of sections in single files, written and read back (default: 2)
+}
+
+export interface VerifyResult {
+  rules: number;
+  pairs: PairFidelity[];
+}
+
+// Configuration from crossrule.config.{json,yaml,js}; CLI flags override these values
+export type EditorOutputs = Partial<Record<EditorType, string>>;
+
+export interface CrossRuleConfig {
+  targets?: EditorType[];       // Default target editors (default: all)
+  sourceOfTruth?: EditorType;   // Default source for convert and sync
+  exclude?: {
+    editors?: EditorType[];     // Never detected or written to
+    paths?: string[];           // Globs of rule files to ignore, relative to the project
+  };
+  defaultRuleType?: UniversalRuleType;
+  author?: string;
+  outputs?: EditorOutputs;      // Where converted rules are written, per editor
+  plugins?: string[];           // Adapter plugin files, resolved against the config file's directory
+  policies?: {
+    onConflict?: ConflictPolicy;
+    onUnsupported?: UnsupportedPolicy;
+    onSizeLimit?: SizeLimitPolicy;
+    backup?: boolean;
+    syncStrategy?: SyncStrategy;
+  };
+  imports?: ImportOptions;
+  headingLevel?: number;        // Heading level of sections in CLAUDE.md, AGENTS.md and QWEN.md (default: 2)
+}
+
+// `@path` imports in CLAUDE.md: 'inline' reads imported files into the importing rule, 'separate' as rules of their own
+export type ImportMode = 'inline' | 'separate';
+
+export interface ImportOptions {
+  mode?: ImportMode;            // Default: 'inline'
+  emitAbove?: number;           // Write rules larger than this many bytes as imported files (default: always inline)
+}
+
+export interface DetectionOptions {
+  imports?: ImportMode;         // Default: 'inline'
+  headingLevel?: number;        // Heading level that splits single files into rules (default: 2)
+  outputs?: EditorOutputs;      // Per-editor locations convert writes to instead of EDITOR_CONFIGS locations; read there too
+}
+
+export interface ConfigLayer {
+  path: string;
+  config: CrossRuleConfig;
+}
+
+export interface LoadedConfig {
+  config: CrossRuleConfig;      // User config overridden by project config
+  layers: ConfigLayer[];        // Lowest precedence first
+}
+
+// Backups written to .crossrule/backups/<run-id>/ before a plan is applied
+export interface BackupEntry {
+  path: string;                 // Relative to the project root
+  existed: boolean;             // false when the run created the file, so undo deletes it
+  deleted?: boolean;            // true when the run deleted the file, so undo recreates it
+  backupFile?: string;          // Snapshot location inside the run directory
+}
+
+export interface BackupManifest {
+  id: string;
+  createdAt: string;
+  command: string;
+  files: BackupEntry[];
+}
+
+// Problems `crossrule doctor` finds in existing rule files
+export type DiagnosticKind =
+  | 'invalid-frontmatter'
+  | 'unknown-key'
+  | 'invalid-value'
+  | 'missing-patterns'
+  | 'missing-description'
+  | 'too-large'
+  | 'empty-rule'
+  | 'unreadable';
+
+export interface Diagnostic {
+  editor: EditorType;
+  file: string;
+  line: number;                 // 1-based
+  severity: 'error' | 'warning';
+  kind: DiagnosticKind;
+  message: string;
+  fix: string;                  // What to change to resolve it
+}
+
+export interface DoctorResult {
+  files: number;                // Rule files checked
+  diagnostics: Diagnostic[];
+}
+
+// One side of a contradiction found by `crossrule conflicts`
+export interface ConflictingDirective {
+  editor: EditorType;
+  rule: string;
+  file?: string;
+  line?: number;                // 1-based line in the file, when it could be found
+  text: string;                 // The sentence stating the directive
+  stance: string;               // e.g. 'tabs', or 'no default exports' when it is ruled out
+}
+
+export interface RuleConflict {
+  topic: string;                // e.g. 'indentation', 'exports'
+  directives: [ConflictingDirective, ConflictingDirective];
+}
+
+export interface ConflictsResult {
+  rules: number;                // Rules analysed
+  conflicts: RuleConflict[];
+}
+
+// Merging rules detected in several editors into one set
+export type DuplicateMatch = 'same-name' | 'same-content' | 'similar-content';
+
+export interface DuplicateRules {
+  first: Rule;                  // From the earlier source (the configured source of truth comes first)
+  second: Rule;
+  match: DuplicateMatch;
+  similarity: number;           // 0-1 overlap of the words in both rules
+}
+
+export type DuplicatePolicy = 'prompt' | 'keep-first' | 'keep-both' | 'combine';
+
+export type DuplicateDecision = 'keep-first' | 'keep-second' | 'keep-both' | 'combine';
+
+export type DuplicateResolver = (duplicate: DuplicateRules) => Promise<DuplicateDecision>;
+
+// Where a merged rule came from, recorded in `Rule.metadata.mergedFrom`
+export interface RuleProvenance {
+  editor: EditorType;
+  name: string;
+  filePath?: string;
+}
+
+export interface DuplicateReport {
+  rules: RuleProvenance[];      // First, then second
+  match: DuplicateMatch;
+  similarity: number;
+  decision: DuplicateDecision;
+}
+
+export interface MergeOptions {
+  onDuplicate?: DuplicatePolicy; // Default: 'keep-first'
+  resolveDuplicate?: DuplicateResolver; // Asked per duplicate when onDuplicate is 'prompt'
+  similarityThreshold?: number; // Word overlap from which rules count as near-duplicates (default: 0.8)
+}
+
+export interface MergeResult {
+  rules: Rule[];
+  duplicates: DuplicateReport[];
+}
+
+// A generated file whose content on disk no longer matches what `convertRules` would write
+export interface DriftedFile {
+  path: string;
+  editors: EditorType[];        // Several editors can share one file, e.g. AGENTS.md
+  status: 'missing' | 'outdated';
+  diff: string;                 // Unified diff from the file on disk to the expected content
+}
+
+export interface DriftResult {
+  source: EditorType;
+  targets: EditorType[];
+  rules: number;
+  checked: number;              // Generated files compared against disk
+  drifted: DriftedFile[];
+  errors: string[];             // Targets that could not be converted at all
+}
+
+// Where a rule lives in one editor: a whole file, or a section of AGENTS.md/CLAUDE.md/QWEN.md
+export interface RuleLocation {
+  editor: EditorType;
+  filePath: string;
+  name: string;                 // The name as written in that editor
+  section?: FileSection;        // Set for section-based single files
+}
+
+/**
+ * The single document every command prints with `--json`. `schemaVersion` only
+ * changes when a field is removed, renamed or changes meaning, so consumers can
+ * check it once and rely on the shape of `data` for that command.
+ */
+export interface JsonOutput<T = unknown> {
+  schemaVersion: number;
+  command: string;              // e.g. 'convert', 'backups list'
+  success: boolean;
+  data: T | null;               // null when the command failed before producing a result
+  errors: string[];
+}
+
+export interface InitResult {
+  detections: DetectionResult[];
+  source: EditorType | null;    // null when nothing was detected or the run was cancelled
+  targets: EditorType[];
+  result: ConversionResult | null;
+  duplicates?: DuplicateReport[]; // Set when several sources were merged
+}
+
+export interface ConvertCommandResult {
+  source: DetectionResult;
+  result: ConversionResult;
+}
+
+export interface ManageResult {
+  locations: RuleLocation[];
+  plannedFiles: PlannedFile[];
+  applied: boolean;             // false for --dry-run or a declined confirmation
+  backupId?: string;
+}
+
+export interface UndoResult {
+  backup: BackupManifest;
+  restored: BackupEntry[];      // Empty when the confirmation was declined
 }
 
 // Editor-specific rule formats
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import { EditorType, EditorConfig } from '../types/index.js';
 
 export const EDITOR_CONFIGS: Record<EditorType, EditorConfig> = {
@@ -7,6 +8,7 @@ export const EDITOR_CONFIGS: Record<EditorType, EditorConfig> = {
     fileFormats: ['.mdc'],
     locations: ['.cursor/rules/'],
     legacyLocations: ['.cursorrules'],
+    directoryScoped: true,
     supportedRuleTypes: ['always', 'auto-attached', 'agent-requested', 'manual'],
     hasGlobSupport: true,
     hasYamlFrontmatter: true,
@@ -47,6 +49,7 @@ export const EDITOR_CONFIGS: Record<EditorType, EditorConfig> = {
     displayName: 'Codex CLI',
     fileFormats: ['.md'],
     locations: ['AGENTS.md'],
+    directoryScoped: true,
     supportedRuleTypes: ['always'],
     hasGlobSupport: false,
     hasYamlFrontmatter: false,
@@ -61,6 +64,8 @@ export const EDITOR_CONFIGS: Record<EditorType, EditorConfig> = {
     displayName: 'Claude Code',
     fileFormats: ['.md'],
     locations: ['CLAUDE.md'],
+    directoryScoped: true,
+    importDirectory: '.claude/imports',
     supportedRuleTypes: ['always', 'manual'],
     hasGlobSupport: false,
     hasYamlFrontmatter: false
@@ -96,6 +101,22 @@ export const EDITOR_CONFIGS: Record<EditorType, EditorConfig> = {
   }
 };
 
+export function getEditorConfig(editor: EditorType): EditorConfig {
+  const config = EDITOR_CONFIGS[editor];
+  if (!config) {
+    throw new Error(`Unknown editor: ${editor}`);
+  }
+  return config;
+}
+
+// Adapter plugins add their editors here so every command sees them like built-ins
+export function registerEditorConfig(editor: EditorType, config: EditorConfig): void {
+  if (EDITOR_CONFIGS[editor]) {
+    throw new Error(`Editor "${editor}" is already registered`);
+  }
+  EDITOR_CONFIGS[editor] = config;
+}
+
 export function getDisplayNamesForEditor(editor: EditorType): string[] {
   const config = EDITOR_CONFIGS[editor];
   if (!config) return [];
@@ -135,3 +156,31 @@ export function getAgentsSharedDescription(): string {
   const names = [config.displayName, ...(config.aliasDisplayNames ?? [])];
   return `*AGENTS.md shared format - works with ${names.join(', ')}. Docs: https://agents.md*`;
 }
+
+export function getAllEditorTypes(): EditorType[] {
+  return Object.keys(EDITOR_CONFIGS) as EditorType[];
+}
+
+// Accepts an EditorType id ("claude-code") or any display/alias name ("OpenCode"), case-insensitively
+export function resolveEditorName(name: string): EditorType | null {
+  const normalized = name.trim().toLowerCase();
+  for (const editor of getAllEditorTypes()) {
+    if (editor === normalized) {
+      return editor;
+    }
+    if (getDisplayNamesForEditor(editor).some(displayName => displayName.toLowerCase() === normalized)) {
+      return editor;
+    }
+  }
+  return null;
+}
+
+// Short sha256 digest used for change detection (matches UniversalRule.metadata.contentHash)
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+}
+
+// "React Components" -> "react-components"; shared by file names, section names and the registry
+export function slugifyRuleName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'rule';
+}
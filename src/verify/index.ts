@@ -0,0 +1,156 @@
+import fs from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  EditorType,
+  FidelityField,
+  FieldDifference,
+  FieldFidelity,
+  PairFidelity,
+  Rule,
+  VerifyOptions,
+  VerifyResult
+} from '../types/index.js';
+import { convertRules } from '../converters/index.js';
+import { detectRulesForEditor } from '../parsers/index.js';
+import { getAllEditorTypes, getEditorConfig, slugifyRuleName } from '../utils/index.js';
+
+export const FIDELITY_FIELDS: FidelityField[] = ['name', 'description', 'type', 'patterns', 'content'];
+
+const SEVERITY: Record<FieldFidelity, number> = { preserved: 0, changed: 1, dropped: 2 };
+
+/**
+ * Measures what survives each conversion. The rule set is first written in every
+ * source editor's format and parsed back, so each source sees the rules the way
+ * that editor stores them. Each source copy is then converted to every target with
+ * `convertRules`, re-parsed with `detectRulesForEditor`, and compared field by field.
+ * Everything happens in temporary directories; the project is never touched.
+ */
+export async function verifyConversions(rules: Rule[], options: VerifyOptions = {}): Promise<VerifyResult> {
+  const sources = options.sources ?? getAllEditorTypes();
+  const targets = options.targets ?? getAllEditorTypes();
+  const workDir = await fs.mkdtemp(join(tmpdir(), 'crossrule-verify-'));
+  const pairs: PairFidelity[] = [];
+
+  try {
+    for (const source of sources) {
+      let sourceRules: Rule[] = [];
+      let sourceError: string | undefined;
+      try {
+        sourceRules = await roundTrip(rules, source, join(workDir, source), options.headingLevel);
+      } catch (error) {
+        sourceError = `Could not write ${getEditorConfig(source).displayName} rules: ${errorMessage(error)}`;
+      }
+
+      for (const target of targets) {
+        if (sourceError) {
+          pairs.push(failedPair(source, target, rules.length, sourceError));
+          continue;
+        }
+        try {
+          const targetRules = await roundTrip(sourceRules, target, join(workDir, `${source}--${target}`), options.headingLevel);
+          pairs.push(comparePair(source, target, sourceRules, targetRules));
+        } catch (error) {
+          pairs.push(failedPair(source, target, sourceRules.length, errorMessage(error)));
+        }
+      }
+    }
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+
+  return { rules: rules.length, pairs };
+}
+
+// Converts rules into an editor's format in a scratch directory and reads them back
+async function roundTrip(rules: Rule[], editor: EditorType, directory: string, headingLevel?: number): Promise<Rule[]> {
+  await fs.mkdir(directory, { recursive: true });
+  const result = await convertRules(rules, [getEditorConfig(editor).displayName], directory, {
+    createBackup: false,
+    onConflict: 'overwrite',
+    ...(headingLevel !== undefined && { headingLevel })
+  });
+  if (!result.success) {
+    throw new Error(result.errors.join('; '));
+  }
+  return (await detectRulesForEditor(editor, directory, { ...(headingLevel !== undefined && { headingLevel }) })).rules;
+}
+
+/**
+ * Pairs rules by name first; whatever is left is paired by position, so a rule
+ * that only lost its name still has its other fields compared.
+ */
+function comparePair(source: EditorType, target: EditorType, before: Rule[], after: Rule[]): PairFidelity {
+  const remaining = [...after];
+  const matches = before.map(rule => {
+    const index = remaining.findIndex(candidate => slugifyRuleName(candidate.name) === slugifyRuleName(rule.name));
+    return index >= 0 ? remaining.splice(index, 1)[0] : undefined;
+  });
+  const unmatched = matches.map((match, index) => match ? -1 : index).filter(index => index >= 0);
+  for (const index of unmatched) {
+    matches[index] = remaining.shift();
+  }
+
+  const differences = before.flatMap((rule, index) => compareRule(rule, matches[index]));
+  const fields = Object.fromEntries(FIDELITY_FIELDS.map(field => [field, 'preserved'])) as Record<FidelityField, FieldFidelity>;
+  for (const difference of differences) {
+    if (SEVERITY[difference.status] > SEVERITY[fields[difference.field]]) {
+      fields[difference.field] = difference.status;
+    }
+  }
+
+  return { source, target, rules: before.length, fields, differences };
+}
+
+function compareRule(before: Rule, after: Rule | undefined): FieldDifference[] {
+  if (!after) {
+    return FIDELITY_FIELDS.map(field => ({ rule: before.name, field, status: 'dropped' }));
+  }
+
+  const values: Record<FidelityField, [string | undefined, string | undefined]> = {
+    name: [before.name, after.name],
+    description: [before.description || undefined, after.description || undefined],
+    type: [before.type, after.type],
+    patterns: [formatPatterns(before.patterns), formatPatterns(after.patterns)],
+    content: [normalizeContent(before.content), normalizeContent(after.content)]
+  };
+
+  const differences: FieldDifference[] = [];
+  for (const field of FIDELITY_FIELDS) {
+    const [beforeValue, afterValue] = values[field];
+    if (beforeValue === afterValue) continue;
+    differences.push({
+      rule: before.name,
+      field,
+      status: beforeValue !== undefined && afterValue === undefined ? 'dropped' : 'changed',
+      ...(beforeValue !== undefined && { before: beforeValue }),
+      ...(afterValue !== undefined && { after: afterValue })
+    });
+  }
+  return differences;
+}
+
+// Pattern order and "a,b" vs ["a", "b"] don't matter to any editor
+function formatPatterns(patterns: string[] | undefined): string | undefined {
+  const split = (patterns ?? []).flatMap(pattern => String(pattern).split(',')).map(pattern => pattern.trim()).filter(Boolean);
+  return split.length > 0 ? split.sort().join(', ') : undefined;
+}
+
+function normalizeContent(content: string): string {
+  return content.replace(/\r\n/g, '\n').replace(/[ \t]+$/gm, '').trim();
+}
+
+function failedPair(source: EditorType, target: EditorType, rules: number, error: string): PairFidelity {
+  return {
+    source,
+    target,
+    rules,
+    fields: Object.fromEntries(FIDELITY_FIELDS.map(field => [field, 'dropped'])) as Record<FidelityField, FieldFidelity>,
+    differences: [],
+    error
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
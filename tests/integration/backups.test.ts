@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { existsSync } from 'fs';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { applyWritePlan, createWritePlan } from '../../src/plan/index.js';
+import { restoreBackup } from '../../src/backups/index.js';
+import { backupsListCommand } from '../../src/commands/backups.js';
+
+describe('backups', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-backups-'));
+    await writeFile(join(project, 'kept.md'), 'before\n');
+    await writeFile(join(project, 'old.md'), 'old\n');
+  });
+
+  afterEach(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  const applyRename = async () => {
+    const plan = createWritePlan();
+    plan.write(join(project, 'kept.md'), 'after\n');
+    plan.delete(join(project, 'old.md'));
+    plan.write(join(project, 'new.md'), 'old\n');
+    return (await applyWritePlan(plan, { projectPath: project, command: 'rename' })).backup;
+  };
+
+  it('records deleted files and restores them on undo', async () => {
+    const backup = await applyRename();
+
+    expect(backup?.files).toEqual([
+      expect.objectContaining({ path: 'kept.md', existed: true }),
+      expect.objectContaining({ path: 'old.md', existed: true, deleted: true }),
+      { path: 'new.md', existed: false }
+    ]);
+    expect(backup?.files[0]?.deleted).toBeUndefined();
+
+    await restoreBackup(backup!, project);
+    expect(await readFile(join(project, 'kept.md'), 'utf-8')).toBe('before\n');
+    expect(await readFile(join(project, 'old.md'), 'utf-8')).toBe('old\n');
+    expect(existsSync(join(project, 'new.md'))).toBe(false);
+  });
+
+  it('counts deleted files apart from modified ones in backups list', async () => {
+    await applyRename();
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await backupsListCommand({ project });
+
+    const output = log.mock.calls.map(call => String(call[0])).join('\n');
+    log.mockRestore();
+    expect(output).toContain('1 modified, 1 deleted, 1 created');
+  });
+});
@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { checkDrift } from '../../src/check/index.js';
+import { checkCommand } from '../../src/commands/check.js';
+import { convertRules } from '../../src/converters/index.js';
+import { detectRulesForEditor } from '../../src/parsers/index.js';
+import { Rule } from '../../src/types/index.js';
+
+describe('checkDrift', () => {
+  let project: string;
+  let rules: Rule[];
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-check-'));
+    await mkdir(join(project, '.cursor', 'rules'), { recursive: true });
+    await writeFile(join(project, '.cursor', 'rules', 'testing.mdc'), '---\ndescription: Testing\nalwaysApply: true\n---\n\n- Write tests first\n- Keep them fast\n');
+    await writeFile(join(project, '.cursor', 'rules', 'style.mdc'), '---\ndescription: Style\nalwaysApply: true\n---\n\n- Use tabs\n');
+    rules = (await detectRulesForEditor('cursor', project)).rules;
+  });
+
+  afterEach(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  it('ignores blank lines added to a generated file', async () => {
+    await convertRules(rules, ['Claude Code'], project, { createBackup: false });
+    const claudeFile = join(project, 'CLAUDE.md');
+    const content = await readFile(claudeFile, 'utf-8');
+    await writeFile(claudeFile, content.replace('- Write tests first\n', '- Write tests first\n\n').replace(/\n\n/, '\n\n\n'));
+
+    const result = await checkDrift(rules, 'cursor', ['claude-code'], project);
+    expect(result.drifted).toEqual([]);
+  });
+
+  it('reports a changed line', async () => {
+    await convertRules(rules, ['Claude Code'], project, { createBackup: false });
+    const claudeFile = join(project, 'CLAUDE.md');
+    await writeFile(claudeFile, (await readFile(claudeFile, 'utf-8')).replace('Keep them fast', 'Keep them slow'));
+
+    const result = await checkDrift(rules, 'cursor', ['claude-code'], project);
+    expect(result.drifted.map(file => file.status)).toEqual(['outdated']);
+  });
+
+  it('expects imported files when checking with emitImportsAbove', async () => {
+    await convertRules(rules, ['Claude Code'], project, { createBackup: false, emitImportsAbove: 20 });
+
+    expect((await checkDrift(rules, 'cursor', ['claude-code'], project, { emitImportsAbove: 20 })).drifted).toEqual([]);
+    expect((await checkDrift(rules, 'cursor', ['claude-code'], project)).drifted).not.toEqual([]);
+  });
+
+  it('reads sections at the level given by --heading-level', async () => {
+    await convertRules(rules, ['Claude Code'], project, { createBackup: false, headingLevel: 3 });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    const result = await checkCommand({ from: 'cursor', to: 'claude-code', project, headingLevel: '3' });
+    jest.restoreAllMocks();
+    expect(result.errors).toEqual([]);
+    expect(result.drifted).toEqual([]);
+  });
+});
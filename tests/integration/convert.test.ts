@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { convertRules } from '../../src/converters/index.js';
+import { detectRulesForEditor, parseRuleContent } from '../../src/parsers/index.js';
+
+const CURSOR_RULE = `---
+description: Testing conventions
+alwaysApply: true
+---
+
+- Write tests first
+`;
+
+describe('convert with --on-conflict=keep-both', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-convert-'));
+  });
+
+  afterEach(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  const rules = () => parseRuleContent('cursor', CURSOR_RULE, join(project, '.cursor', 'rules', 'testing.mdc'));
+
+  it('writes the generated copy under .crossrule/kept, where it is not loaded as a rule', async () => {
+    await convertRules(rules(), ['Claude Code'], project, { createBackup: false });
+    const claudeFile = join(project, 'CLAUDE.md');
+    const edited = (await readFile(claudeFile, 'utf-8')).replace('first', 'before the code');
+    await writeFile(claudeFile, edited);
+
+    const result = await convertRules(rules(), ['Claude Code'], project, { createBackup: false, onConflict: 'keep-both' });
+
+    const keptFile = join(project, '.crossrule', 'kept', 'CLAUDE.md');
+    expect(result.fileReports).toContainEqual(expect.objectContaining({ decision: 'kept-both', writtenTo: keptFile }));
+    expect(await readFile(claudeFile, 'utf-8')).toBe(edited);
+    expect(await readFile(keptFile, 'utf-8')).toContain('- Write tests first');
+    expect(existsSync(join(project, 'CLAUDE.crossrule.md'))).toBe(false);
+
+    const detected = await detectRulesForEditor('claude-code', project);
+    expect(detected.rules.map(rule => rule.content.trim())).toEqual(['- Write tests before the code']);
+  });
+});
+
+describe('convert with rules over the size limit', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-convert-'));
+  });
+
+  afterEach(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  const rule = (content: string) => parseRuleContent('cursor', `---
+description: Style guide
+alwaysApply: true
+---
+
+${content}`, join(project, '.cursor', 'rules', 'style.mdc'));
+
+  it('deletes the unsplit file once a rule is split into parts', async () => {
+    await convertRules(rule('## Naming\n\nUse camelCase.\n'), ['Windsurf'], project, { createBackup: false });
+    const rulesDir = join(project, '.windsurf', 'rules');
+    expect(await readdir(rulesDir)).toEqual(['style.md']);
+
+    const section = (title: string) => `## ${title}\n\n${'- Keep it short.\n'.repeat(500)}\n`;
+    const result = await convertRules(rule(section('Naming') + section('Layout')), ['Windsurf'], project, { createBackup: false });
+
+    expect(result.fileReports).toContainEqual(expect.objectContaining({ path: join(rulesDir, 'style.md'), decision: 'deleted' }));
+    expect((await readdir(rulesDir)).sort()).toEqual(['style-part-1.md', 'style-part-2.md']);
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { existsSync } from 'fs';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { initCommand } from '../../src/commands/index.js';
+import { enableJsonOutput } from '../../src/commands/output.js';
+
+const CURSOR_RULE = `---
+description: Testing conventions
+alwaysApply: true
+---
+
+- Write tests first
+`;
+
+describe('init with --json', () => {
+  const cwd = process.cwd();
+  let project: string;
+
+  beforeEach(async () => {
+    enableJsonOutput();
+    project = await mkdtemp(join(tmpdir(), 'crossrule-init-'));
+    await mkdir(join(project, '.cursor', 'rules'), { recursive: true });
+    await writeFile(join(project, '.cursor', 'rules', 'testing.mdc'), CURSOR_RULE);
+    process.chdir(project);
+  });
+
+  afterEach(async () => {
+    process.chdir(cwd);
+    await rm(project, { recursive: true, force: true });
+  });
+
+  it('needs a source', async () => {
+    await expect(initCommand({ to: 'claude-code', yes: true, config: {} }))
+      .rejects.toThrow('Pass --from <editor> or set sourceOfTruth in crossrule.config (prompts are disabled with --json)');
+    expect(existsSync(join(project, 'CLAUDE.md'))).toBe(false);
+  });
+
+  it('needs targets', async () => {
+    await expect(initCommand({ from: 'cursor', yes: true, config: {} }))
+      .rejects.toThrow('Pass --to <editors> or set targets in crossrule.config');
+    expect(existsSync(join(project, 'CLAUDE.md'))).toBe(false);
+  });
+
+  it('needs --yes before writing', async () => {
+    await expect(initCommand({ from: 'cursor', to: 'claude-code', config: {} }))
+      .rejects.toThrow('Pass --yes to convert');
+    expect(existsSync(join(project, 'CLAUDE.md'))).toBe(false);
+  });
+
+  it('previews a dry run without --yes', async () => {
+    const { result } = await initCommand({ from: 'cursor', to: 'claude-code', dryRun: true, config: {} });
+
+    expect(result?.plannedFiles?.map(file => file.path)).toEqual(['CLAUDE.md']);
+    expect(existsSync(join(project, 'CLAUDE.md'))).toBe(false);
+  });
+
+  it('converts from --from to --to with --yes', async () => {
+    const outcome = await initCommand({ from: 'cursor', to: 'claude-code', yes: true, backup: false, config: {} });
+
+    expect(outcome.source).toBe('cursor');
+    expect(outcome.targets).toEqual(['claude-code']);
+    expect(await readFile(join(project, 'CLAUDE.md'), 'utf-8')).toContain('- Write tests first');
+    expect(existsSync(join(project, '.windsurf'))).toBe(false);
+  });
+
+  it('takes the source and targets from the config', async () => {
+    const outcome = await initCommand({ yes: true, backup: false, config: { sourceOfTruth: 'cursor', targets: ['windsurf'] } });
+
+    expect(outcome.source).toBe('cursor');
+    expect(outcome.targets).toEqual(['windsurf']);
+    expect(existsSync(join(project, '.windsurf', 'rules', 'testing.md'))).toBe(true);
+    expect(existsSync(join(project, 'CLAUDE.md'))).toBe(false);
+  });
+
+  it('fails when the source editor has no rules', async () => {
+    await expect(initCommand({ from: 'windsurf', to: 'claude-code', yes: true, config: {} }))
+      .rejects.toThrow('No Windsurf rules found in this project');
+  });
+});
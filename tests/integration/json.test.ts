@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { execFile } from 'child_process';
+import { existsSync } from 'fs';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { promisify } from 'util';
+import { JsonOutput } from '../../src/types/index.js';
+
+const CLI = resolve('src', 'cli.ts');
+
+// Runs the CLI from source and returns its exit code and the parsed stdout
+async function crossrule(cwd: string, ...args: string[]): Promise<{ code: number; document: JsonOutput<any> }> {
+  try {
+    const { stdout } = await promisify(execFile)(process.execPath, ['--import', 'tsx', CLI, '--json', ...args], { cwd });
+    return { code: 0, document: JSON.parse(stdout) };
+  } catch (error) {
+    const failed = error as { code: number; stdout: string };
+    return { code: failed.code, document: JSON.parse(failed.stdout) };
+  }
+}
+
+describe('--json output', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-json-'));
+    await mkdir(join(project, '.cursor', 'rules'), { recursive: true });
+    await writeFile(join(project, '.cursor', 'rules', 'testing.mdc'), '---\nalwaysApply: true\n---\n\n- Write tests first\n');
+  });
+
+  afterEach(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  it('prints one versioned document with the command result', async () => {
+    const { code, document } = await crossrule(project, 'convert', '--from', 'cursor', '--to', 'claude-code', '--no-backup');
+
+    expect(code).toBe(0);
+    expect(Object.keys(document)).toEqual(['schemaVersion', 'command', 'success', 'data', 'errors']);
+    expect(document).toEqual(expect.objectContaining({ schemaVersion: 1, command: 'convert', success: true, errors: [] }));
+    expect(document.data?.source.ruleCount).toBe(1);
+    expect(document.data?.result.outputFiles).toEqual([join(project, 'CLAUDE.md')]);
+  });
+
+  it('reports a failed command with null data and exit code 1', async () => {
+    const { code, document } = await crossrule(project, 'convert', '--from', 'windsurf', '--to', 'claude-code');
+
+    expect(code).toBe(1);
+    expect(document).toEqual({
+      schemaVersion: 1,
+      command: 'convert',
+      success: false,
+      data: null,
+      errors: [`No Windsurf rules found in ${project}`]
+    });
+  });
+
+  it('refuses to prompt', async () => {
+    const { code, document } = await crossrule(project, 'init');
+
+    expect(code).toBe(1);
+    expect(document.errors).toEqual([expect.stringContaining('(prompts are disabled with --json)')]);
+    expect(existsSync(join(project, 'CLAUDE.md'))).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { existsSync } from 'fs';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { addUniversalRule, createUniversalRule } from '../../src/converters/universal.js';
+import { removeCommand, renameCommand } from '../../src/commands/manage.js';
+import { loadRegistry, REGISTRY_DIR } from '../../src/registry/index.js';
+
+describe('remove and rename', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-manage-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    for (const name of ['Use tabs', 'Keep it short']) {
+      const rule = createUniversalRule({
+        name,
+        type: 'always',
+        content: `${name} body.`,
+        targetEditors: ['cursor', 'windsurf', 'claude-code', 'codex']
+      });
+      await addUniversalRule(rule, { projectPath: project, createBackup: false });
+    }
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(project, { recursive: true, force: true });
+  });
+
+  it('deletes rule files, cuts sections and managed regions, and drops the registry entry', async () => {
+    const result = await removeCommand('Use tabs', { project, yes: true, backup: false });
+
+    expect(result.applied).toBe(true);
+    expect(result.locations.map(location => location.editor).sort()).toEqual(['claude-code', 'codex', 'cursor', 'windsurf']);
+    expect(existsSync(join(project, '.cursor', 'rules', 'use-tabs.mdc'))).toBe(false);
+    expect(existsSync(join(project, '.windsurf', 'rules', 'use-tabs.md'))).toBe(false);
+    expect(existsSync(join(project, '.cursor', 'rules', 'keep-it-short.mdc'))).toBe(true);
+
+    const claude = await readFile(join(project, 'CLAUDE.md'), 'utf-8');
+    expect(claude).not.toContain('use-tabs');
+    expect(claude).not.toContain('## Use tabs');
+    expect(claude).toContain('<!-- crossrule:begin keep-it-short -->\n## Keep it short');
+
+    const agents = await readFile(join(project, 'AGENTS.md'), 'utf-8');
+    expect(agents).not.toContain('---- Use tabs ----');
+    expect(agents).toContain('---- Keep it short ----');
+
+    expect((await loadRegistry(project)).rules.map(rule => rule.name)).toEqual(['Keep it short']);
+  });
+
+  it('moves rule files, rewrites section headings and region ids, and bumps the registry entry', async () => {
+    await renameCommand('Use tabs', 'Indentation', { project, yes: true, backup: false });
+
+    expect(existsSync(join(project, '.cursor', 'rules', 'use-tabs.mdc'))).toBe(false);
+    expect(existsSync(join(project, '.cursor', 'rules', 'indentation.mdc'))).toBe(true);
+    expect(existsSync(join(project, '.windsurf', 'rules', 'indentation.md'))).toBe(true);
+
+    const claude = await readFile(join(project, 'CLAUDE.md'), 'utf-8');
+    expect(claude).toContain('<!-- crossrule:begin indentation -->\n## Indentation\n\nUse tabs body.\n<!-- crossrule:end indentation -->');
+
+    const agents = await readFile(join(project, 'AGENTS.md'), 'utf-8');
+    expect(agents).toContain('<!-- crossrule:begin indentation -->\n---- Indentation ----');
+    expect(agents).not.toContain('use-tabs');
+
+    const entry = (await loadRegistry(project)).rules.find(rule => rule.name === 'Indentation');
+    expect(entry?.metadata.version).toBe(2);
+    expect(existsSync(join(project, REGISTRY_DIR, 'use-tabs.md'))).toBe(false);
+  });
+
+  it('plans the removal without touching files on a dry run', async () => {
+    const claude = await readFile(join(project, 'CLAUDE.md'), 'utf-8');
+
+    const result = await removeCommand('Use tabs', { project, dryRun: true });
+
+    expect(result.applied).toBe(false);
+    expect(result.plannedFiles).toContainEqual(expect.objectContaining({ path: join(project, '.cursor', 'rules', 'use-tabs.mdc'), status: 'delete' }));
+    expect(result.plannedFiles).toContainEqual(expect.objectContaining({ path: join(project, 'CLAUDE.md'), status: 'modify' }));
+    expect(existsSync(join(project, '.cursor', 'rules', 'use-tabs.mdc'))).toBe(true);
+    expect(await readFile(join(project, 'CLAUDE.md'), 'utf-8')).toBe(claude);
+    expect((await loadRegistry(project)).rules).toHaveLength(2);
+  });
+
+  it('refuses to rename onto a rule that already exists', async () => {
+    await expect(renameCommand('Use tabs', 'Keep it short', { project, yes: true, backup: false }))
+      .rejects.toThrow('A rule named "Keep it short" already exists');
+  });
+});
+
+describe('remove with a crossrule.config', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-manage-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(project, { recursive: true, force: true });
+  });
+
+  it('reads outputs, headingLevel and exclude, and follows policies.backup', async () => {
+    await writeFile(join(project, 'crossrule.config.json'), JSON.stringify({
+      outputs: { windsurf: 'custom/ws/' },
+      headingLevel: 3,
+      exclude: { paths: ['AGENTS.md'] },
+      policies: { backup: false }
+    }));
+    await mkdir(join(project, 'custom', 'ws'), { recursive: true });
+    await writeFile(join(project, 'custom', 'ws', 'use-tabs.md'), '---\ntrigger: always_on\n---\n\nIndent with tabs.\n');
+    await writeFile(join(project, 'CLAUDE.md'), '# CLAUDE.md\n\n### Use tabs\n\nIndent with tabs.\n\n### Keep it short\n\nShort functions.\n');
+    const agents = '# Project Agent Rules\n\n---- Use tabs ----\n\nIndent with tabs.\n';
+    await writeFile(join(project, 'AGENTS.md'), agents);
+
+    const result = await removeCommand('Use tabs', { project, yes: true });
+
+    expect(result.locations.map(location => location.editor).sort()).toEqual(['claude-code', 'windsurf']);
+    expect(existsSync(join(project, 'custom', 'ws', 'use-tabs.md'))).toBe(false);
+    expect(await readFile(join(project, 'CLAUDE.md'), 'utf-8')).toBe('# CLAUDE.md\n\n### Keep it short\n\nShort functions.\n');
+    expect(await readFile(join(project, 'AGENTS.md'), 'utf-8')).toBe(agents);
+    expect(result.backupId).toBeUndefined();
+    expect(existsSync(join(project, '.crossrule', 'backups'))).toBe(false);
+  });
+});
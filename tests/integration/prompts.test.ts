@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { existsSync } from 'fs';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { addCommand, initCommand } from '../../src/commands/index.js';
+
+describe('add and init without a terminal', () => {
+  const cwd = process.cwd();
+  const isTTY = process.stdin.isTTY;
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-prompts-'));
+    process.chdir(project);
+    process.stdin.isTTY = false;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    process.stdin.isTTY = isTTY;
+    process.chdir(cwd);
+    await rm(project, { recursive: true, force: true });
+  });
+
+  it('add asks for --yes instead of waiting for a confirmation', async () => {
+    await expect(addCommand('Indent with tabs.', { name: 'Tabs', to: 'cline' }))
+      .rejects.toThrow('Pass --yes to add the rule (stdin is not a terminal');
+    expect(existsSync(join(project, '.clinerules'))).toBe(false);
+  });
+
+  it('add writes the rule with --yes', async () => {
+    const result = await addCommand('Indent with tabs.', { name: 'Tabs', to: 'cline', yes: true, backup: false });
+
+    expect(result?.success).toBe(true);
+    expect(existsSync(join(project, '.clinerules', 'tabs.md'))).toBe(true);
+  });
+
+  it('init asks for --from instead of choosing between sources', async () => {
+    await mkdir(join(project, '.cursor', 'rules'), { recursive: true });
+    await writeFile(join(project, '.cursor', 'rules', 'testing.mdc'), '---\nalwaysApply: true\n---\n\n- Write tests first\n');
+    await mkdir(join(project, '.clinerules'), { recursive: true });
+    await writeFile(join(project, '.clinerules', 'style.md'), '# Style\n\n- Use tabs\n');
+
+    await expect(initCommand({ config: {} }))
+      .rejects.toThrow('Pass --from <editor> or --merge to choose a source');
+  });
+
+  it('init leaves a project without rules alone', async () => {
+    const outcome = await initCommand({ config: {} });
+
+    expect(outcome).toEqual({ detections: [], source: null, targets: [], result: null });
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { existsSync } from 'fs';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { addUniversalRule, createUniversalRule } from '../../src/converters/universal.js';
+import { loadRegistry, REGISTRY_DIR } from '../../src/registry/index.js';
+import { addCommand } from '../../src/commands/add.js';
+
+describe('rule registry', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-registry-'));
+  });
+
+  afterEach(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  it('adds a rule under projectPath rather than the working directory', async () => {
+    const rule = createUniversalRule({ name: 'Use tabs', type: 'always', content: 'Indent with tabs.', targetEditors: ['cline'] });
+    const result = await addUniversalRule(rule, { projectPath: project, createBackup: false });
+
+    expect(result.errors).toEqual([]);
+    expect(await readFile(join(project, '.clinerules', 'use-tabs.md'), 'utf-8')).toContain('Indent with tabs.');
+    expect(existsSync(join(project, REGISTRY_DIR, 'use-tabs.md'))).toBe(true);
+    expect(existsSync(join(process.cwd(), '.clinerules', 'use-tabs.md'))).toBe(false);
+
+    const registry = await loadRegistry(project);
+    expect(registry.rules.map(entry => entry.name)).toEqual(['Use tabs']);
+  });
+
+  it('reports entries it cannot parse instead of printing them', async () => {
+    await mkdir(join(project, REGISTRY_DIR), { recursive: true });
+    await writeFile(join(project, REGISTRY_DIR, 'broken.md'), '---\nname: Broken\n---\n\nNo id or type.\n');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const registry = await loadRegistry(project);
+
+    expect(registry.rules).toEqual([]);
+    expect(registry.warnings).toEqual([expect.stringContaining('broken.md is missing id, name or type')]);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('add with a rule over the size limit', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-registry-'));
+  });
+
+  afterEach(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  const rule = () => createUniversalRule({
+    name: 'Style',
+    type: 'always',
+    content: '- Keep it short.\n'.repeat(800),
+    targetEditors: ['windsurf']
+  });
+
+  it('writes the rule whole and warns that add does not split it', async () => {
+    const result = await addUniversalRule(rule(), { projectPath: project, createBackup: false });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toContainEqual(expect.objectContaining({
+      rule: 'style.md',
+      editor: 'windsurf',
+      kind: 'file-too-large',
+      message: expect.stringContaining("add doesn't split rules")
+    }));
+    expect(existsSync(join(project, '.windsurf', 'rules', 'style.md'))).toBe(true);
+  });
+
+  it('fails for the editor under the error policy', async () => {
+    const result = await addUniversalRule(rule(), { projectPath: project, createBackup: false, onSizeLimit: 'error' });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([expect.stringContaining('Failed to convert rule for windsurf: style.md:')]);
+    expect(existsSync(join(project, '.windsurf', 'rules', 'style.md'))).toBe(false);
+  });
+});
+
+describe('add with headingLevel in crossrule.config', () => {
+  const cwd = process.cwd();
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-registry-'));
+    await writeFile(join(project, 'crossrule.config.json'), JSON.stringify({ headingLevel: 3 }));
+    process.chdir(project);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    process.chdir(cwd);
+    await rm(project, { recursive: true, force: true });
+  });
+
+  it('writes the section at that level', async () => {
+    const result = await addCommand('Indent with tabs.', { name: 'Style', to: 'claude-code', yes: true, backup: false });
+
+    expect(result?.success).toBe(true);
+    expect(await readFile(join(project, 'CLAUDE.md'), 'utf-8')).toContain('### Style\n\nIndent with tabs.');
+  });
+});
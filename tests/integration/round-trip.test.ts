@@ -0,0 +1,64 @@
+import { beforeAll, describe, expect, it } from '@jest/globals';
+import { join } from 'path';
+import { parseRulesFromFile } from '../../src/parsers/index.js';
+import { verifyConversions } from '../../src/verify/index.js';
+import { getAllEditorTypes, getEditorConfig } from '../../src/utils/index.js';
+import { Rule, RuleType, VerifyResult } from '../../src/types/index.js';
+
+const FIXTURES = join('tests', 'fixtures', 'cursor-rules');
+
+describe('round trip through every editor', () => {
+  let rules: Rule[];
+  let result: VerifyResult;
+
+  beforeAll(async () => {
+    rules = [
+      ...await parseRulesFromFile('cursor', join(FIXTURES, 'react.mdc')),
+      ...await parseRulesFromFile('cursor', join(FIXTURES, 'typescript.mdc'))
+    ];
+    result = await verifyConversions(rules, { sources: ['cursor'] });
+  });
+
+  it('converts to every editor without errors', () => {
+    expect(result.pairs.map(pair => pair.target).sort()).toEqual([...getAllEditorTypes()].sort());
+    expect(result.pairs.filter(pair => pair.error)).toEqual([]);
+  });
+
+  it('keeps the name and content of every rule', () => {
+    for (const pair of result.pairs) {
+      expect({ target: pair.target, name: pair.fields.name, content: pair.fields.content })
+        .toEqual({ target: pair.target, name: 'preserved', content: 'preserved' });
+    }
+  });
+
+  it('keeps patterns in editors with globs', () => {
+    const withGlobs = result.pairs.filter(pair => getEditorConfig(pair.target).hasGlobSupport);
+    expect(withGlobs.length).toBeGreaterThan(1);
+    for (const pair of withGlobs) {
+      expect({ target: pair.target, patterns: pair.fields.patterns }).toEqual({ target: pair.target, patterns: 'preserved' });
+    }
+  });
+
+  it('loses nothing converting Cursor rules back to Cursor', () => {
+    const cursor = result.pairs.find(pair => pair.target === 'cursor');
+    expect(cursor?.differences).toEqual([]);
+  });
+});
+
+describe('round trip through Qoder', () => {
+  const rule = (type: RuleType, fields: Partial<Rule> = {}): Rule => ({
+    name: type,
+    description: `A ${type} rule`,
+    content: '- Keep components in src/components\n- Name tests *.test.ts',
+    type,
+    source: 'qoder',
+    ...fields
+  });
+
+  it('reads back the type of every rule it writes', async () => {
+    const rules = [rule('always'), rule('manual'), rule('model-decision'), rule('specific-files', { patterns: ['src/**/*.tsx', '*.css'] })];
+    const [pair] = (await verifyConversions(rules, { sources: ['qoder'], targets: ['qoder'] })).pairs;
+    expect(pair?.error).toBeUndefined();
+    expect(pair?.differences).toEqual([]);
+  });
+});
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtemp, mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runSync } from '../../src/sync/index.js';
+
+const CURSOR_RULE = `---
+description: Testing conventions
+alwaysApply: true
+---
+
+- Write tests first
+`;
+
+describe('bidirectional sync', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-sync-'));
+    await mkdir(join(project, '.cursor', 'rules'), { recursive: true });
+    await mkdir(join(project, '.clinerules'), { recursive: true });
+    await writeFile(join(project, '.cursor', 'rules', 'testing.mdc'), CURSOR_RULE);
+  });
+
+  afterEach(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  const sync = () => runSync({
+    strategy: 'bidirectional',
+    editors: ['cursor', 'cline'],
+    projectPath: project,
+    createBackup: false
+  });
+
+  it('settles after copying a rule between Cursor and Cline', async () => {
+    const first = await sync();
+    expect(first.changes).toEqual([{ rule: 'testing', from: 'cursor', to: ['cline'] }]);
+
+    const clineFile = join(project, '.clinerules', 'testing.md');
+    const written = await readFile(clineFile, 'utf-8');
+
+    for (let pass = 0; pass < 3; pass++) {
+      const result = await sync();
+      expect(result.changes).toEqual([]);
+      expect(result.conflicts).toEqual([]);
+    }
+    expect(await readFile(clineFile, 'utf-8')).toBe(written);
+    expect(await readFile(join(project, '.cursor', 'rules', 'testing.mdc'), 'utf-8')).toBe(CURSOR_RULE);
+  });
+
+  it('carries an edit to the Cline copy back to Cursor once', async () => {
+    await sync();
+    const clineFile = join(project, '.clinerules', 'testing.md');
+    await writeFile(clineFile, (await readFile(clineFile, 'utf-8')).replace('first', 'before the code'));
+
+    const result = await sync();
+    expect(result.changes).toEqual([{ rule: 'testing', from: 'cline', to: ['cursor'] }]);
+    const cursor = await readFile(join(project, '.cursor', 'rules', 'testing.mdc'), 'utf-8');
+    expect(cursor).toContain('- Write tests before the code');
+    expect(cursor).not.toContain('# Testing conventions');
+
+    expect((await sync()).changes).toEqual([]);
+  });
+});
+
+describe('sync with configured outputs', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-sync-'));
+    await mkdir(join(project, '.cursor', 'rules'), { recursive: true });
+    await writeFile(join(project, '.cursor', 'rules', 'testing.mdc'), CURSOR_RULE);
+  });
+
+  afterEach(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  const sync = () => runSync({
+    strategy: 'bidirectional',
+    editors: ['cursor', 'windsurf'],
+    outputs: { windsurf: 'custom/ws/' },
+    projectPath: project,
+    createBackup: false
+  });
+
+  it('reads the rules it wrote to the output location and settles', async () => {
+    expect((await sync()).changes).toEqual([{ rule: 'testing', from: 'cursor', to: ['windsurf'] }]);
+    expect(await readFile(join(project, 'custom', 'ws', 'testing.md'), 'utf-8')).toContain('- Write tests first');
+
+    for (let pass = 0; pass < 2; pass++) {
+      expect((await sync()).changes).toEqual([]);
+    }
+  });
+
+  it('carries an edit made at the output location back to Cursor', async () => {
+    await sync();
+    const windsurfFile = join(project, 'custom', 'ws', 'testing.md');
+    await writeFile(windsurfFile, (await readFile(windsurfFile, 'utf-8')).replace('first', 'before the code'));
+
+    expect((await sync()).changes).toEqual([{ rule: 'testing', from: 'windsurf', to: ['cursor'] }]);
+    expect(await readFile(join(project, '.cursor', 'rules', 'testing.mdc'), 'utf-8')).toContain('- Write tests before the code');
+  });
+});
+
+describe('sync with rules over the size limit', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-sync-'));
+    await mkdir(join(project, '.cursor', 'rules'), { recursive: true });
+    await mkdir(join(project, '.windsurf', 'rules'), { recursive: true });
+    const section = (title: string) => `## ${title}\n\n${'- Keep it short.\n'.repeat(500)}\n`;
+    await writeFile(join(project, '.cursor', 'rules', 'style.mdc'), `---
+description: Style guide
+alwaysApply: true
+---
+
+${section('Naming')}${section('Layout')}`);
+  });
+
+  afterEach(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  const sync = (onSizeLimit?: 'error') => runSync({
+    strategy: 'bidirectional',
+    editors: ['cursor', 'windsurf'],
+    projectPath: project,
+    createBackup: false,
+    ...(onSizeLimit && { onSizeLimit })
+  });
+
+  it('keeps the rule whole under its own name and warns that it was not split', async () => {
+    const result = await sync();
+
+    expect(result.warnings).toContainEqual(expect.objectContaining({
+      rule: 'style.md',
+      editor: 'windsurf',
+      kind: 'file-too-large',
+      message: expect.stringContaining("sync doesn't split rules")
+    }));
+    expect(await readdir(join(project, '.windsurf', 'rules'))).toEqual(['style.md']);
+  });
+
+  it('writes nothing for the editor under the error policy', async () => {
+    const result = await sync('error');
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([expect.stringContaining('Failed to sync windsurf: style.md: 17,075 chars is over')]);
+    expect(await readdir(join(project, '.windsurf', 'rules'))).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { existsSync } from 'fs';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runSync } from '../../src/sync/index.js';
+import { SyncWatcher, watchSync } from '../../src/sync/watch.js';
+import { SyncOptions, SyncResult } from '../../src/types/index.js';
+
+describe('watchSync', () => {
+  let project: string;
+  let watcher: SyncWatcher | null = null;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-watch-'));
+    await mkdir(join(project, 'packages', 'api'), { recursive: true });
+    await mkdir(join(project, '.cursor', 'rules'), { recursive: true });
+    await writeFile(join(project, 'packages', 'api', 'CLAUDE.md'), '## Testing\n\n- Write tests first\n');
+  });
+
+  afterEach(async () => {
+    watcher?.close();
+    watcher = null;
+    await rm(project, { recursive: true, force: true });
+  });
+
+  it('syncs edits to nested rule files without taking backups', async () => {
+    const options: SyncOptions = { strategy: 'bidirectional', editors: ['claude-code', 'cursor'], projectPath: project, createBackup: true };
+    await runSync({ ...options, createBackup: false });
+    const cursorFile = join(project, '.cursor', 'rules', 'testing.mdc');
+    expect(await readFile(cursorFile, 'utf-8')).toContain('- Write tests first');
+
+    const synced = new Promise<SyncResult>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('no sync within 10s')), 10000);
+      void watchSync(options, {
+        debounceMs: 50,
+        onSync: result => {
+          clearTimeout(timeout);
+          resolve(result);
+        },
+        onError: reject
+      }).then(started => {
+        watcher = started;
+        return writeFile(join(project, 'packages', 'api', 'CLAUDE.md'), '## Testing\n\n- Write tests before the code\n');
+      });
+    });
+
+    const result = await synced;
+    expect(result.changes).toEqual([{ rule: 'Testing', from: 'claude-code', to: ['cursor'] }]);
+    expect(result.backupId).toBeUndefined();
+    expect(await readFile(cursorFile, 'utf-8')).toContain('- Write tests before the code');
+    expect(existsSync(join(project, '.crossrule', 'backups'))).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from '@jest/globals';
+import { getAdapter, upsertSection } from '../../src/adapters/index.js';
+import { Rule } from '../../src/types/index.js';
+
+function cursorRule(fields: Partial<Rule> = {}): Rule {
+  return {
+    name: 'react',
+    description: 'React component guidelines',
+    content: '# React Component Standards\n\n- Use functional components',
+    type: 'always',
+    source: 'cursor',
+    ...fields
+  };
+}
+
+describe('cline adapter', () => {
+  const adapter = getAdapter('cline');
+
+  it('reads the title heading as the description', () => {
+    const [rule] = adapter.parse('# Testing\n\n- Write tests first\n', '.clinerules/testing.md');
+    expect(rule?.description).toBe('Testing');
+    expect(rule?.content).toBe('- Write tests first');
+  });
+
+  it('strips the heading and conversion note it serialized', () => {
+    const original = cursorRule();
+    const [parsed] = adapter.parse(adapter.serialize(original), '.clinerules/react.md');
+    expect(parsed?.content).toBe(original.content);
+    expect(parsed?.description).toBe(original.description);
+  });
+
+  it('keeps a round-tripped rule stable', () => {
+    const once = adapter.parse(adapter.serialize(cursorRule()), '.clinerules/react.md')[0] as Rule;
+    const twice = adapter.parse(adapter.serialize({ ...once, source: 'cursor' }), '.clinerules/react.md')[0] as Rule;
+    expect(twice.content).toBe(once.content);
+  });
+});
+
+describe('windsurf adapter', () => {
+  const adapter = getAdapter('windsurf');
+  const parse = (frontmatter: string) => adapter.parse(`---\n${frontmatter}\n---\n\n- Use tabs\n`, '.windsurf/rules/style.md')[0] as Rule;
+
+  it('reads the rule type from trigger', () => {
+    expect(parse('trigger: manual').type).toBe('manual');
+    expect(parse('trigger: model_decision\ndescription: Formatting').type).toBe('model-decision');
+    expect(parse('trigger: always_on').type).toBe('always');
+    expect(parse('trigger: glob\nglobs: "*.ts"')).toMatchObject({ type: 'glob-pattern', patterns: ['*.ts'] });
+  });
+
+  it('writes a trigger that reads back as the same type', () => {
+    for (const type of ['always', 'manual', 'model-decision', 'glob-pattern'] as const) {
+      const rule = cursorRule({ type, ...(type === 'glob-pattern' && { patterns: ['*.ts'] }) });
+      expect(adapter.parse(adapter.serialize(rule), '.windsurf/rules/react.md')[0]?.type).toBe(type);
+    }
+  });
+
+  it('leaves Cursor\'s alwaysApply out', () => {
+    const written = adapter.serialize(cursorRule({ type: 'always' }));
+    expect(written).toContain('trigger: always_on');
+    expect(written).not.toContain('alwaysApply');
+  });
+});
+
+describe('qoder adapter', () => {
+  const adapter = getAdapter('qoder');
+  const parse = (content: string) => adapter.parse(content, '.qoder/rules/style.md')[0] as Rule;
+  const mentions = '- Keep components in src/components\n- Name tests *.test.ts';
+
+  it('keeps the trigger when the content mentions files', () => {
+    expect(parse(`---\ntrigger: always_on\n---\n\n${mentions}\n`)).toMatchObject({ type: 'always' });
+    expect(parse(`---\ntrigger: manual\n---\n\n- Read src/ first\n`).type).toBe('manual');
+    expect(parse(`---\ntrigger: manual\n---\n\n- Read src/ first\n`).patterns).toBeUndefined();
+  });
+
+  it('reads several globs written as one string', () => {
+    expect(parse('---\ntrigger: glob\nglob: "**/*.ts,src/**/*.{js,jsx}"\n---\n\n- Use tabs\n'))
+      .toMatchObject({ type: 'specific-files', patterns: ['**/*.ts', 'src/**/*.{js,jsx}'] });
+  });
+
+  it('guesses patterns from the content only without a trigger or glob', () => {
+    expect(parse(`${mentions}\n`)).toMatchObject({ type: 'specific-files', patterns: ['*.test.ts'] });
+    expect(parse('- Read src/ first\n').type).toBe('always');
+  });
+});
+
+describe('single-file preamble', () => {
+  const adapter = getAdapter('claude-code');
+  const preamble = (content: string): Rule => cursorRule({ name: 'preamble', description: 'Introduction', content });
+  const write = (existing: string | null, rule: Rule) => upsertSection(adapter, existing, rule.name, adapter.serialize(rule));
+
+  it('writes the preamble in a managed region above the sections', () => {
+    const file = write(write(null, cursorRule()), preamble('Read this first.'));
+    expect(file.startsWith('<!-- crossrule:begin preamble -->\nRead this first.\n<!-- crossrule:end preamble -->')).toBe(true);
+    expect(adapter.parse(file, 'CLAUDE.md').map(rule => [rule.name, rule.content])).toEqual([
+      ['preamble', 'Read this first.'],
+      ['react', '# React Component Standards\n\n- Use functional components']
+    ]);
+  });
+
+  it('updates a preamble it wrote before', () => {
+    const first = write(write(null, preamble('Read this first.')), cursorRule());
+    const second = write(first, preamble('Read this second.'));
+    expect(second).toContain('Read this second.');
+    expect(second).not.toContain('Read this first.');
+    expect(adapter.parse(second, 'CLAUDE.md')[0]?.content).toBe('Read this second.');
+  });
+
+  it('leaves a hand-written introduction alone', () => {
+    const existing = '# Our project\n\nWe ship on Fridays.\n\n## Testing\n\n- Write tests\n';
+    expect(write(existing, preamble('Read this first.'))).toBe(existing);
+  });
+});
+
+describe('section heading level', () => {
+  const file = '# CLAUDE.md\n\n## Backend\n\n### Testing\n\n- Write tests\n\n### Style\n\n- Use tabs\n';
+
+  it('splits at level 2 by default', () => {
+    expect(getAdapter('claude-code').parse(file, 'CLAUDE.md').map(rule => rule.name)).toEqual(['Backend']);
+  });
+
+  it('splits at the level it is given', () => {
+    const adapter = getAdapter('claude-code', 3);
+    // Titles alone above the first section are no preamble
+    expect(adapter.parse(file, 'CLAUDE.md').map(rule => [rule.name, rule.content])).toEqual([
+      ['Testing', '- Write tests'],
+      ['Style', '- Use tabs']
+    ]);
+    expect(adapter.serialize(cursorRule({ name: 'Style', description: '' }))).toMatch(/^### Style\n/);
+  });
+
+  it('keeps the delimiter for new AGENTS.md sections', () => {
+    expect(getAdapter('codex', 3).serialize(cursorRule({ name: 'style', description: '' }))).toMatch(/^---- style ----\n/);
+  });
+});
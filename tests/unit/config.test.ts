@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { existsSync } from 'fs';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadConfig, mergeConfigs, validateConfig } from '../../src/config/index.js';
+import { convertCommand } from '../../src/commands/convert.js';
+
+describe('validateConfig', () => {
+  it('normalises editor names and keeps only the settings given', () => {
+    expect(validateConfig({
+      targets: ['Claude Code', 'windsurf'],
+      sourceOfTruth: 'Cursor',
+      exclude: { editors: ['codex'] },
+      policies: { backup: false }
+    }, 'crossrule.config.json')).toEqual({
+      targets: ['claude-code', 'windsurf'],
+      sourceOfTruth: 'cursor',
+      exclude: { editors: ['codex'] },
+      policies: { backup: false }
+    });
+  });
+
+  it('rejects unknown settings, editors and policy values with the file name', () => {
+    expect(() => validateConfig({ target: ['cursor'] }, 'crossrule.config.json'))
+      .toThrow('Invalid config in crossrule.config.json: unknown setting "target"');
+    expect(() => validateConfig({ targets: ['notepad'] }, 'crossrule.config.json'))
+      .toThrow('unknown editor "notepad" in targets');
+    expect(() => validateConfig({ policies: { onConflict: 'ask' } }, 'crossrule.config.json'))
+      .toThrow('policies.onConflict must be one of prompt, skip, overwrite, keep-both, fail');
+    expect(() => validateConfig({ headingLevel: 1 }, 'crossrule.config.json'))
+      .toThrow('headingLevel must be one of');
+  });
+});
+
+describe('mergeConfigs', () => {
+  it('lets the later layer win, merging sections key by key and adding up plugins', () => {
+    const user = validateConfig({
+      targets: ['cursor'],
+      author: 'user',
+      policies: { backup: false, onConflict: 'skip' },
+      plugins: ['/plugins/user.js']
+    }, '/home/crossrule.config.json');
+    const project = validateConfig({
+      targets: ['windsurf'],
+      policies: { onConflict: 'overwrite' },
+      plugins: ['/plugins/project.js']
+    }, '/project/crossrule.config.json');
+
+    expect(mergeConfigs(user, project)).toEqual({
+      targets: ['windsurf'],
+      author: 'user',
+      policies: { backup: false, onConflict: 'overwrite' },
+      plugins: ['/plugins/user.js', '/plugins/project.js']
+    });
+  });
+});
+
+describe('loadConfig', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-config-'));
+  });
+
+  afterEach(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  it('reads a YAML project config and resolves plugin paths next to it', async () => {
+    await writeFile(join(project, 'crossrule.config.yaml'), 'defaultRuleType: manual\nplugins:\n  - ./adapters/notes.js\n');
+
+    const { config, layers } = await loadConfig(project, { userConfig: false });
+
+    expect(layers.map(layer => layer.path)).toEqual([join(project, 'crossrule.config.yaml')]);
+    expect(config).toEqual({ defaultRuleType: 'manual', plugins: [join(project, 'adapters', 'notes.js')] });
+  });
+
+  it('prefers crossrule.config.json to the other formats', async () => {
+    await writeFile(join(project, 'crossrule.config.json'), JSON.stringify({ author: 'json' }));
+    await writeFile(join(project, 'crossrule.config.yaml'), 'author: yaml\n');
+
+    expect((await loadConfig(project, { userConfig: false })).config).toEqual({ author: 'json' });
+  });
+
+  it('contributes nothing without a config file', async () => {
+    expect(await loadConfig(project, { userConfig: false })).toEqual({ config: {}, layers: [] });
+  });
+});
+
+describe('convert options over crossrule.config', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-config-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await mkdir(join(project, '.cursor', 'rules'), { recursive: true });
+    await writeFile(join(project, '.cursor', 'rules', 'testing.mdc'), '---\nalwaysApply: true\n---\n\n- Write tests first\n');
+    await writeFile(join(project, 'crossrule.config.json'), JSON.stringify({
+      sourceOfTruth: 'cursor',
+      targets: ['claude-code'],
+      headingLevel: 3,
+      policies: { backup: false }
+    }));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(project, { recursive: true, force: true });
+  });
+
+  it('uses the config when no options are given', async () => {
+    await convertCommand({ project });
+
+    expect(await readFile(join(project, 'CLAUDE.md'), 'utf-8')).toContain('### testing');
+    expect(existsSync(join(project, '.windsurf'))).toBe(false);
+    expect(existsSync(join(project, '.crossrule', 'backups'))).toBe(false);
+  });
+
+  it('prefers --to and --heading-level to the config', async () => {
+    await convertCommand({ project, to: 'windsurf,claude-code', headingLevel: '2' });
+
+    const claude = await readFile(join(project, 'CLAUDE.md'), 'utf-8');
+    expect(claude).toContain('## testing');
+    expect(claude).not.toContain('### testing');
+    expect(existsSync(join(project, '.windsurf', 'rules', 'testing.md'))).toBe(true);
+  });
+
+  it('prefers --from to sourceOfTruth', async () => {
+    await expect(convertCommand({ project, from: 'windsurf' }))
+      .rejects.toThrow(`No Windsurf rules found in ${project}`);
+  });
+});
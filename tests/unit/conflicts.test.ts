@@ -0,0 +1,52 @@
+import { describe, expect, it } from '@jest/globals';
+import { findRuleConflicts } from '../../src/conflicts/index.js';
+import { EditorType, Rule } from '../../src/types/index.js';
+
+function rule(source: EditorType, content: string): Rule {
+  return { name: `${source}-rule`, description: '', content, type: 'always', source };
+}
+
+const conflictsBetween = (first: string, second: string) =>
+  findRuleConflicts([rule('cursor', first), rule('claude-code', second)]).conflicts.map(conflict => ({
+    topic: conflict.topic,
+    stances: conflict.directives.map(directive => directive.stance)
+  }));
+
+describe('findRuleConflicts', () => {
+  it('reports a rule ruling out what another asks for', () => {
+    expect(conflictsBetween('- Use enums for fixed sets', '- Never use enums')).toEqual([{ topic: 'enums', stances: ['enums', 'no enums'] }]);
+    expect(conflictsBetween('- Prefer default exports', '- Avoid default exports')).toEqual([
+      { topic: 'exports', stances: ['default exports', 'no default exports'] }
+    ]);
+    expect(conflictsBetween("- Don't use semicolons", '- Always end statements with semicolons')).toEqual([
+      { topic: 'semicolons', stances: ['no semicolons', 'semicolons'] }
+    ]);
+  });
+
+  it('reports different choices for one topic', () => {
+    expect(conflictsBetween('- Indent with tabs', '- Indent with 2 spaces, not tabs')).toEqual([
+      { topic: 'indentation', stances: ['tabs', 'no tabs'] }
+    ]);
+    expect(conflictsBetween('- Run scripts with pnpm', '- Run scripts with yarn')).toEqual([
+      { topic: 'package manager', stances: ['pnpm', 'yarn'] }
+    ]);
+  });
+
+  it('ignores negations of another verb', () => {
+    expect(conflictsBetween('- Use Jest for unit tests', '- Do not mock Jest timers')).toEqual([]);
+    expect(conflictsBetween('- Use Jest for unit tests', '- Avoid mocking Jest modules by hand')).toEqual([]);
+    expect(conflictsBetween('- Use semicolons', "- Don't forget semicolons")).toEqual([]);
+  });
+
+  it('ignores a bare no or not elsewhere in the sentence', () => {
+    expect(conflictsBetween('- Use enums', '- There is no need to convert enums')).toEqual([]);
+    expect(conflictsBetween('- Write tests with Jest', '- Tests that are not flaky run with Jest')).toEqual([]);
+    expect(conflictsBetween('- Use npm', '- If the lockfile is not committed, run npm install')).toEqual([]);
+  });
+
+  it('ignores rules whose patterns cannot overlap', () => {
+    const css = { ...rule('cursor', '- Indent with tabs'), type: 'glob-pattern' as const, patterns: ['src/**/*.css'] };
+    const ts = { ...rule('claude-code', '- Indent with 2 spaces'), type: 'glob-pattern' as const, patterns: ['src/**/*.ts'] };
+    expect(findRuleConflicts([css, ts]).conflicts).toEqual([]);
+  });
+});
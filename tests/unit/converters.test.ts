@@ -0,0 +1,71 @@
+import { describe, expect, it } from '@jest/globals';
+import { degradeRule, embedActivation, extractEmbeddedActivation } from '../../src/converters/degrade.js';
+import { Rule } from '../../src/types/index.js';
+
+describe('embedded activation', () => {
+  it('round-trips brace globs without splitting them', () => {
+    const patterns = ['src/**/*.{ts,tsx}', 'tests/**'];
+    const embedded = embedActivation('- Use strict types', 'glob-pattern', patterns);
+    expect(extractEmbeddedActivation(embedded)).toEqual({ content: '- Use strict types', type: 'glob-pattern', patterns });
+  });
+
+  it('keeps quotes in patterns', () => {
+    const patterns = ["docs/it's/*.md"];
+    const embedded = embedActivation('- Keep it short', 'auto-attached', patterns);
+    expect(extractEmbeddedActivation(embedded)?.patterns).toEqual(patterns);
+  });
+
+  it('reads comma-separated patterns from older files', () => {
+    const content = '<!-- crossrule:activation type="glob-pattern" patterns="*.ts, *.tsx" -->\nOnly apply this rule when working with files matching: *.ts, *.tsx\n<!-- /crossrule:activation -->\n\n- Use strict types';
+    expect(extractEmbeddedActivation(content)).toEqual({ content: '- Use strict types', type: 'glob-pattern', patterns: ['*.ts', '*.tsx'] });
+  });
+
+  it('leaves rules without activation alone', () => {
+    expect(extractEmbeddedActivation('- Use strict types')).toBeNull();
+  });
+});
+
+describe('degradeRule', () => {
+  const react: Rule = {
+    name: 'react',
+    description: 'React components',
+    content: '- Use function components',
+    type: 'auto-attached',
+    patterns: ['**/*.tsx'],
+    source: 'cursor'
+  };
+
+  it('passes rules the editor supports through', () => {
+    expect(degradeRule(react, 'windsurf', 'error')).toEqual({ rule: react, warnings: [] });
+  });
+
+  it('drops the rule with skip', () => {
+    const { rule, warnings } = degradeRule(react, 'cline', 'skip');
+    expect(rule).toBeNull();
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('makes the rule always-on and drops its patterns with downgrade-to-always', () => {
+    const { rule, warnings } = degradeRule(react, 'cline', 'downgrade-to-always');
+    expect(rule).toEqual({ name: 'react', description: 'React components', content: '- Use function components', type: 'always', source: 'cursor' });
+    expect(warnings.map(warning => warning.rule)).toEqual(['react']);
+  });
+
+  it('describes the activation in the content with embed-as-text', () => {
+    const { rule } = degradeRule(react, 'cline', 'embed-as-text');
+    expect(rule?.type).toBe('always');
+    expect(extractEmbeddedActivation(rule?.content ?? '')).toEqual({ content: '- Use function components', type: 'auto-attached', patterns: ['**/*.tsx'] });
+  });
+
+  it('throws with error', () => {
+    expect(() => degradeRule(react, 'cline', 'error')).toThrow('Cline has no "auto-attached" rules');
+  });
+
+  it('scopes a rule for one directory to that directory in editors with nested rule files', () => {
+    const api: Rule = { ...react, name: 'api', patterns: ['packages/api/**'] };
+    const { rule, warnings } = degradeRule(api, 'claude-code', 'skip');
+    expect(rule).toEqual(expect.objectContaining({ type: 'always', metadata: { directory: 'packages/api' } }));
+    expect(rule?.patterns).toBeUndefined();
+    expect(warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runDoctor } from '../../src/doctor/index.js';
+
+describe('runDoctor', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-doctor-'));
+    await mkdir(join(project, '.windsurf', 'rules'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  const diagnose = async (frontmatter: string) => {
+    await writeFile(join(project, '.windsurf', 'rules', 'style.md'), `---\n${frontmatter}\n---\n\n- Use tabs\n`);
+    return (await runDoctor(project, ['windsurf'])).diagnostics.map(({ severity, kind, line }) => ({ severity, kind, line }));
+  };
+
+  it('reports a Windsurf glob trigger without globs', async () => {
+    expect(await diagnose('description: Style\ntrigger: glob')).toEqual([{ severity: 'error', kind: 'missing-patterns', line: 3 }]);
+  });
+
+  it('reports a Windsurf model_decision trigger without a description', async () => {
+    expect(await diagnose('trigger: model_decision')).toEqual([{ severity: 'error', kind: 'missing-description', line: 2 }]);
+  });
+
+  it('accepts complete Windsurf triggers', async () => {
+    expect(await diagnose('trigger: glob\nglobs: "*.ts"')).toEqual([]);
+    expect(await diagnose('trigger: model_decision\ndescription: When formatting code')).toEqual([]);
+  });
+
+  it('reports Cursor\'s alwaysApply as a key Windsurf ignores', async () => {
+    expect(await diagnose('trigger: always_on\nalwaysApply: true')).toEqual([{ severity: 'warning', kind: 'unknown-key', line: 3 }]);
+  });
+
+  it('reports an unknown trigger', async () => {
+    expect(await diagnose('trigger: sometimes')).toEqual([{ severity: 'error', kind: 'invalid-value', line: 2 }]);
+  });
+
+  it('checks the rules at a configured output location', async () => {
+    await mkdir(join(project, 'custom', 'ws'), { recursive: true });
+    await writeFile(join(project, 'custom', 'ws', 'style.md'), '---\ntrigger: glob\n---\n\n- Use tabs\n');
+
+    const result = await runDoctor(project, ['windsurf'], { outputs: { windsurf: 'custom/ws/' } });
+    expect(result.diagnostics.map(({ file, kind }) => ({ file, kind })))
+      .toEqual([{ file: join(project, 'custom', 'ws', 'style.md'), kind: 'missing-patterns' }]);
+  });
+
+  it('finds sections at the configured heading level', async () => {
+    await writeFile(join(project, 'CLAUDE.md'), [
+      '# CLAUDE.md',
+      '',
+      '### Style',
+      '',
+      '<!-- crossrule:activation type="auto-attached" -->',
+      'Applies to matching files.',
+      '<!-- /crossrule:activation -->',
+      '',
+      '- Use tabs',
+      ''
+    ].join('\n'));
+
+    const result = await runDoctor(project, ['claude-code'], { headingLevel: 3 });
+    expect(result.diagnostics.map(({ kind, line, message }) => ({ kind, line, message }))).toEqual([{
+      kind: 'missing-patterns',
+      line: 3,
+      message: 'Section "Style" only applies to matching files but lists no patterns, so it never applies'
+    }]);
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { existsSync } from 'fs';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { convertRules } from '../../src/converters/index.js';
+import { detectRulesForEditor } from '../../src/parsers/index.js';
+import { Rule } from '../../src/types/index.js';
+
+describe('@path imports in CLAUDE.md', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-imports-'));
+    await mkdir(join(project, 'docs'), { recursive: true });
+    await writeFile(join(project, 'docs', 'style.md'), '- Use tabs\n');
+    await writeFile(join(project, 'docs', 'naming.md'), '- Name files in kebab-case\n');
+  });
+
+  afterEach(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  const claude = (content: string) => writeFile(join(project, 'CLAUDE.md'), `# CLAUDE.md\n\n${content}`);
+
+  it('inlines imports on their own line and appends files mentioned in a sentence', async () => {
+    await claude('## Style\n\n@docs/style.md\n\nSee @docs/naming.md for names.\n');
+
+    const { rules, warnings } = await detectRulesForEditor('claude-code', project, { imports: 'inline' });
+
+    expect(rules.map(rule => rule.content.trim())).toEqual([
+      '- Use tabs\n\nSee docs/naming.md for names.\n\n- Name files in kebab-case'
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('leaves code, e-mail addresses and missing files alone, and reports missing imports', async () => {
+    await claude('## Style\n\n`@docs/style.md` and mail@example.com\n\n```\n@docs/naming.md\n```\n\n@docs/missing.md\n');
+
+    const { rules, warnings } = await detectRulesForEditor('claude-code', project, { imports: 'inline' });
+
+    expect(rules[0]?.content).toContain('`@docs/style.md` and mail@example.com');
+    expect(rules[0]?.content).toContain('```\n@docs/naming.md\n```');
+    expect(rules[0]?.content).toContain('@docs/missing.md');
+    expect(warnings).toEqual([`Import @docs/missing.md in ${join(project, 'CLAUDE.md')} not found`]);
+  });
+
+  it('stops at a cycle and reports it', async () => {
+    await writeFile(join(project, 'docs', 'a.md'), '- From a\n\n@b.md\n');
+    await writeFile(join(project, 'docs', 'b.md'), '- From b\n\n@a.md\n');
+    await claude('## Cycle\n\n@docs/a.md\n');
+
+    const { rules, warnings } = await detectRulesForEditor('claude-code', project, { imports: 'inline' });
+
+    expect(rules[0]?.content.trim()).toBe('- From a\n\n- From b\n\n@a.md');
+    expect(warnings).toEqual([`Import @a.md in ${join(project, 'docs', 'b.md')} creates a cycle; left as written`]);
+  });
+
+  it('turns imported files into rules of their own with separate', async () => {
+    await claude('## Style\n\n- Keep lines short\n\n@docs/style.md\n\n## Names\n\n@docs/naming.md\n');
+
+    const { rules } = await detectRulesForEditor('claude-code', project, { imports: 'separate' });
+
+    expect(rules.map(rule => [rule.name, rule.content.trim()])).toEqual([
+      ['Style', '- Keep lines short'],
+      ['docs/style', '- Use tabs'],
+      ['docs/naming', '- Name files in kebab-case']
+    ]);
+    expect(rules[1]?.metadata?.importedFrom).toBe(join(project, 'CLAUDE.md'));
+  });
+
+  it('makes one rule per file of a cycle with separate', async () => {
+    await writeFile(join(project, 'docs', 'a.md'), '- From a\n\n@b.md\n');
+    await writeFile(join(project, 'docs', 'b.md'), '- From b\n\n@a.md\n');
+    await claude('## Cycle\n\n@docs/a.md\n');
+
+    const { rules } = await detectRulesForEditor('claude-code', project, { imports: 'separate' });
+
+    expect(rules.map(rule => [rule.name, rule.content.trim()])).toEqual([
+      ['docs/a', '- From a'],
+      ['docs/b', '- From b']
+    ]);
+  });
+
+  it('reads back rules emitted as imports', async () => {
+    const rule: Rule = { name: 'Style', content: `- ${'Use tabs. '.repeat(10).trim()}\n`, type: 'always', source: 'cursor' };
+
+    await convertRules([rule], ['Claude Code'], project, { createBackup: false, emitImportsAbove: 50 });
+
+    const importFile = join(project, '.claude', 'imports', 'style.md');
+    expect(existsSync(importFile)).toBe(true);
+    expect(await readFile(join(project, 'CLAUDE.md'), 'utf-8')).toContain('@.claude/imports/style.md');
+    const { rules } = await detectRulesForEditor('claude-code', project, { imports: 'inline' });
+    expect(rules.map(detected => detected.content.trim())).toEqual([rule.content.trim()]);
+  });
+});
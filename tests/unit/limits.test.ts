@@ -0,0 +1,33 @@
+import { describe, expect, it } from '@jest/globals';
+import { splitOversizedRule } from '../../src/converters/limits.js';
+import { Rule } from '../../src/types/index.js';
+
+const rule = (content: string): Rule => ({
+  name: 'style',
+  content,
+  type: 'always',
+  source: 'cursor'
+});
+
+const render = (part: Rule) => part.content;
+
+describe('splitOversizedRule', () => {
+  it('leaves a rule that fits alone', () => {
+    const fits = rule('## Naming\n\nUse camelCase.\n');
+    expect(splitOversizedRule(fits, 100, render)).toEqual([fits]);
+  });
+
+  it('cuts at headings and numbers the parts', () => {
+    const parts = splitOversizedRule(rule('## Naming\n\nUse camelCase.\n\n## Layout\n\nOne component per file.\n'), 40, render);
+
+    expect(parts.map(part => part.name)).toEqual(['style part 1', 'style part 2']);
+    expect(parts.map(part => part.description)).toEqual(['style (part 1 of 2)', 'style (part 2 of 2)']);
+    expect(parts[1]?.content).toBe('## Layout\n\nOne component per file.');
+    expect(parts.every(part => part.metadata?.splitFrom === 'style')).toBe(true);
+  });
+
+  it('does not cut at headings inside code blocks', () => {
+    const content = '## Example\n\n```md\n## Not a heading\n```\n';
+    expect(splitOversizedRule(rule(content), 10, render)).toHaveLength(1);
+  });
+});
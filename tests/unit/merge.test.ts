@@ -0,0 +1,105 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { mergeDetections } from '../../src/merge/index.js';
+import { DetectionResult, DuplicateResolver, EditorType, Rule } from '../../src/types/index.js';
+
+const rule = (source: EditorType, name: string, content: string, extra: Partial<Rule> = {}): Rule => ({
+  name,
+  content,
+  type: 'always',
+  source,
+  metadata: { filePath: `/project/${source}/${name}.md` },
+  ...extra
+});
+
+const detection = (editor: EditorType, ...rules: Rule[]): DetectionResult => ({
+  editor,
+  rules,
+  location: `/project/${editor}`,
+  ruleCount: rules.length,
+  warnings: []
+});
+
+const cursor = detection('cursor',
+  rule('cursor', 'testing', '- Write tests first', { patterns: ['src/**'] }),
+  rule('cursor', 'style', '- Use tabs for indentation in every source file')
+);
+const windsurf = detection('windsurf',
+  rule('windsurf', 'testing', '- Run the tests before pushing', { patterns: ['tests/**'] }),
+  rule('windsurf', 'indentation', '- Use tabs for indentation in every file'),
+  rule('windsurf', 'commits', '- Keep commits small')
+);
+
+const provenance = (editor: EditorType, name: string) => ({ editor, name, filePath: `/project/${editor}/${name}.md` });
+
+describe('mergeDetections', () => {
+  it('keeps the first rule of each duplicate by default and records both sources', async () => {
+    const { rules, duplicates } = await mergeDetections([cursor, windsurf]);
+
+    expect(rules.map(({ name, source }) => `${source}:${name}`)).toEqual(['cursor:testing', 'cursor:style', 'windsurf:commits']);
+    expect(rules[0]?.metadata?.mergedFrom).toEqual([provenance('cursor', 'testing'), provenance('windsurf', 'testing')]);
+    expect(rules[2]?.metadata?.mergedFrom).toEqual([provenance('windsurf', 'commits')]);
+    expect(duplicates.map(({ match, decision }) => ({ match, decision }))).toEqual([
+      { match: 'same-name', decision: 'keep-first' },
+      { match: 'similar-content', decision: 'keep-first' }
+    ]);
+  });
+
+  it('renames the second rule after its editor with keep-both', async () => {
+    const { rules } = await mergeDetections([cursor, windsurf], { onDuplicate: 'keep-both' });
+
+    expect(rules.map(rule => rule.name)).toEqual(['testing', 'style', 'testing-windsurf', 'indentation', 'commits']);
+  });
+
+  it('joins the bodies and patterns with combine', async () => {
+    const { rules } = await mergeDetections([cursor, windsurf], { onDuplicate: 'combine' });
+
+    expect(rules[0]).toEqual(expect.objectContaining({
+      name: 'testing',
+      content: '- Write tests first\n\n- Run the tests before pushing',
+      patterns: ['src/**', 'tests/**']
+    }));
+    expect(rules[0]?.metadata?.mergedFrom).toEqual([provenance('cursor', 'testing'), provenance('windsurf', 'testing')]);
+  });
+
+  it('asks the resolver with prompt and follows its decision', async () => {
+    const resolveDuplicate = jest.fn<DuplicateResolver>(async duplicate => duplicate.match === 'same-name' ? 'keep-second' : 'keep-both');
+
+    const { rules, duplicates } = await mergeDetections([cursor, windsurf], { onDuplicate: 'prompt', resolveDuplicate });
+
+    expect(resolveDuplicate).toHaveBeenCalledTimes(2);
+    expect(resolveDuplicate.mock.calls[0]?.[0]).toEqual(expect.objectContaining({
+      first: expect.objectContaining({ source: 'cursor', name: 'testing' }),
+      second: expect.objectContaining({ source: 'windsurf', name: 'testing' })
+    }));
+    expect(rules.map(({ name, source }) => `${source}:${name}`)).toEqual(['windsurf:testing', 'cursor:style', 'windsurf:indentation', 'windsurf:commits']);
+    expect(rules[0]?.metadata?.mergedFrom).toEqual([provenance('cursor', 'testing'), provenance('windsurf', 'testing')]);
+    expect(duplicates.map(duplicate => duplicate.decision)).toEqual(['keep-second', 'keep-both']);
+  });
+
+  it('needs a resolver for prompt', async () => {
+    await expect(mergeDetections([cursor, windsurf], { onDuplicate: 'prompt' }))
+      .rejects.toThrow('Merging with onDuplicate "prompt" needs a resolveDuplicate callback');
+  });
+
+  it('merges identical rules without asking', async () => {
+    const resolveDuplicate = jest.fn<DuplicateResolver>(async () => 'keep-both');
+    const copy = detection('cline', rule('cline', 'Style', '- use tabs for indentation   in every source file'));
+
+    const { rules, duplicates } = await mergeDetections([cursor, copy], { onDuplicate: 'prompt', resolveDuplicate });
+
+    expect(resolveDuplicate).not.toHaveBeenCalled();
+    expect(rules).toHaveLength(2);
+    expect(duplicates).toEqual([{
+      rules: [provenance('cursor', 'style'), provenance('cline', 'Style')],
+      match: 'same-content',
+      similarity: 1,
+      decision: 'keep-first'
+    }]);
+  });
+
+  it('leaves duplicates within one editor alone', async () => {
+    const twice = detection('cursor', rule('cursor', 'a', '- Keep commits small'), rule('cursor', 'b', '- Keep commits small'));
+
+    expect((await mergeDetections([twice])).rules.map(rule => rule.name)).toEqual(['a', 'b']);
+  });
+});
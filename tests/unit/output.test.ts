@@ -0,0 +1,20 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { requireInteractive } from '../../src/commands/output.js';
+
+describe('requireInteractive', () => {
+  const isTTY = process.stdin.isTTY;
+
+  afterEach(() => {
+    process.stdin.isTTY = isTTY;
+  });
+
+  it('fails with the hint when stdin is not a terminal', () => {
+    process.stdin.isTTY = false;
+    expect(() => requireInteractive('Pass --yes to confirm')).toThrow(/^Pass --yes to confirm \(stdin is not a terminal/);
+  });
+
+  it('lets a terminal prompt', () => {
+    process.stdin.isTTY = true;
+    expect(() => requireInteractive('Pass --yes to confirm')).not.toThrow();
+  });
+});
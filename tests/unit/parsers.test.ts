@@ -0,0 +1,33 @@
+import { describe, expect, it } from '@jest/globals';
+import { join } from 'path';
+import { parseRulesFromFile } from '../../src/parsers/index.js';
+
+const FIXTURES = join('tests', 'fixtures');
+
+describe('parseRulesFromFile', () => {
+  it('reads Cursor globs as an auto-attached rule', async () => {
+    const [rule] = await parseRulesFromFile('cursor', join(FIXTURES, 'cursor-rules', 'react.mdc'));
+    expect(rule).toEqual(expect.objectContaining({
+      name: 'react',
+      description: 'React component development guidelines',
+      type: 'auto-attached',
+      patterns: ['**/*.tsx', '**/*.jsx'],
+      source: 'cursor'
+    }));
+    expect(rule?.content.startsWith('# React Component Standards')).toBe(true);
+  });
+
+  it('reads alwaysApply as an always-on rule', async () => {
+    const [rule] = await parseRulesFromFile('cursor', join(FIXTURES, 'cursor-rules', 'typescript.mdc'));
+    expect(rule?.type).toBe('always');
+    expect(rule?.patterns).toBeUndefined();
+  });
+
+  it('reads Qoder triggers', async () => {
+    const [always] = await parseRulesFromFile('qoder', join(FIXTURES, 'qoder-rules', 'always-active.md'));
+    const [files] = await parseRulesFromFile('qoder', join(FIXTURES, 'qoder-rules', 'typescript-files.md'));
+    expect(always?.type).toBe('always');
+    expect(files?.type).toBe('specific-files');
+    expect(files?.patterns).toEqual(['**/*.ts', '**/*.tsx']);
+  });
+});
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { existsSync } from 'fs';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { applyConflictPolicy, applyWritePlan, createPlannedFileDiff, createWritePlan } from '../../src/plan/index.js';
+import { convertRules } from '../../src/converters/index.js';
+import { parseRuleContent } from '../../src/parsers/index.js';
+
+describe('write plan', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-plan-'));
+  });
+
+  afterEach(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  it('reports created, modified, unchanged and deleted files against the disk', async () => {
+    await writeFile(join(project, 'same.md'), 'same\n');
+    await writeFile(join(project, 'changed.md'), 'before\n');
+    await writeFile(join(project, 'gone.md'), 'gone\n');
+    const plan = createWritePlan();
+
+    plan.write(join(project, 'new.md'), 'new\n');
+    plan.write(join(project, 'same.md'), 'same\n');
+    plan.write(join(project, 'changed.md'), 'after\n');
+    plan.delete(join(project, 'gone.md'));
+    plan.delete(join(project, 'never-existed.md'));
+
+    expect(plan.files().map(({ path, status, previousContent }) => ({ path, status, previousContent }))).toEqual([
+      { path: join(project, 'new.md'), status: 'create', previousContent: null },
+      { path: join(project, 'same.md'), status: 'unchanged', previousContent: 'same\n' },
+      { path: join(project, 'changed.md'), status: 'modify', previousContent: 'before\n' },
+      { path: join(project, 'gone.md'), status: 'delete', previousContent: 'gone\n' }
+    ]);
+  });
+
+  it('reads staged content before the disk and keeps the original as previous content', async () => {
+    await writeFile(join(project, 'rules.md'), 'one\n');
+    const plan = createWritePlan();
+
+    plan.write(join(project, 'rules.md'), 'two\n');
+    plan.write(join(project, '.', 'rules.md'), 'three\n');
+    expect(plan.read(join(project, 'rules.md'))).toBe('three\n');
+
+    plan.delete(join(project, 'rules.md'));
+    expect(plan.read(join(project, 'rules.md'))).toBeNull();
+    expect(plan.files()).toEqual([expect.objectContaining({ status: 'delete', previousContent: 'one\n' })]);
+  });
+
+  it('writes nothing until the plan is applied', async () => {
+    const plan = createWritePlan();
+    plan.write(join(project, 'nested', 'rules.md'), 'rule\n');
+    expect(existsSync(join(project, 'nested'))).toBe(false);
+
+    const { written, backup } = await applyWritePlan(plan, { createBackup: false, projectPath: project });
+
+    expect(written).toEqual([join(project, 'nested', 'rules.md')]);
+    expect(backup).toBeNull();
+    expect(await readFile(join(project, 'nested', 'rules.md'), 'utf-8')).toBe('rule\n');
+  });
+
+  it('diffs a planned file against what is on disk', async () => {
+    await writeFile(join(project, 'rules.md'), '- Use tabs\n');
+    const plan = createWritePlan();
+    plan.write(join(project, 'rules.md'), '- Use spaces\n');
+
+    const diff = plan.files().map(createPlannedFileDiff).join('');
+    expect(diff).toContain('-- Use tabs');
+    expect(diff).toContain('+- Use spaces');
+  });
+
+  it('fails on a hand-edited file unless a conflict policy decides', async () => {
+    const rules = parseRuleContent('cursor', '---\nalwaysApply: true\n---\n\n- Write tests first\n', join(project, '.cursor', 'rules', 'testing.mdc'));
+    await convertRules(rules, ['Cline'], project, { createBackup: false });
+    const clineFile = join(project, '.clinerules', 'testing.md');
+    await writeFile(clineFile, (await readFile(clineFile, 'utf-8')) + '\n- Hand-written\n');
+
+    const stage = () => {
+      const plan = createWritePlan();
+      plan.write(clineFile, '# testing\n\n- Write tests first\n');
+      return plan;
+    };
+
+    await expect(applyConflictPolicy(stage(), { projectPath: project })).rejects.toThrow('edited by hand');
+
+    const skipped = stage();
+    expect(await applyConflictPolicy(skipped, { onConflict: 'skip', projectPath: project }))
+      .toEqual([{ path: clineFile, decision: 'skipped', handEdited: true }]);
+    expect(skipped.files()).toEqual([]);
+  });
+});
+
+describe('convert with --dry-run', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-plan-'));
+  });
+
+  afterEach(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  it('returns the planned files and leaves the project untouched', async () => {
+    const rules = parseRuleContent('cursor', '---\nalwaysApply: true\n---\n\n- Write tests first\n', join(project, '.cursor', 'rules', 'testing.mdc'));
+
+    const result = await convertRules(rules, ['Windsurf', 'Claude Code'], project, { dryRun: true });
+
+    expect(result.plannedFiles?.map(({ path, status }) => ({ path, status }))).toEqual([
+      { path: join(project, '.windsurf', 'rules', 'testing.md'), status: 'create' },
+      { path: join(project, 'CLAUDE.md'), status: 'create' }
+    ]);
+    expect(result.backupId).toBeUndefined();
+    expect(existsSync(join(project, '.windsurf'))).toBe(false);
+    expect(existsSync(join(project, 'CLAUDE.md'))).toBe(false);
+    expect(existsSync(join(project, '.crossrule'))).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createPluginAdapter, loadPlugins } from '../../src/plugins/index.js';
+import { detectRulesForEditor } from '../../src/parsers/index.js';
+import { resolveEditorName } from '../../src/utils/index.js';
+import { AdapterDefinition } from '../../src/types/index.js';
+
+const definition = (overrides: Record<string, unknown> = {}) => ({
+  editor: 'zed',
+  config: {
+    displayName: 'Zed',
+    fileFormats: ['.md'],
+    locations: ['.zed/rules'],
+    supportedRuleTypes: ['always']
+  },
+  parse: (content: string) => [{ name: 'style', content, type: 'always', source: 'zed' }],
+  serialize: (rule: { content: string }) => rule.content,
+  ...overrides
+}) as unknown as AdapterDefinition;
+
+describe('createPluginAdapter', () => {
+  it('fills in what a plugin may leave out', () => {
+    const adapter = createPluginAdapter(definition());
+
+    expect(adapter.singleFile).toBe(false);
+    expect(adapter.config).toEqual(expect.objectContaining({ name: 'zed', hasGlobSupport: false, hasYamlFrontmatter: false }));
+    expect(adapter.fileName({ name: 'Code Style', content: '', type: 'always', source: 'zed' })).toBe('code-style.md');
+    expect(adapter.serializeUniversal).toEqual(expect.any(Function));
+  });
+
+  it('rejects adapters that are missing required parts', () => {
+    expect(() => createPluginAdapter(definition({ editor: 'Zed Editor' })))
+      .toThrow('Adapter "Zed Editor": editor must be a lowercase id such as "my-editor"');
+    expect(() => createPluginAdapter(definition({ parse: undefined })))
+      .toThrow('Adapter "zed": parse and serialize must be functions');
+    expect(() => createPluginAdapter(definition({ singleFile: true })))
+      .toThrow('single-file adapters need findSections and sectionHeading');
+    expect(() => createPluginAdapter(definition({ config: { displayName: 'Zed', fileFormats: ['.md'], supportedRuleTypes: ['always'] } })))
+      .toThrow('config.locations must list where rules live');
+  });
+
+  it('refuses a display name a built-in editor already uses', () => {
+    expect(() => createPluginAdapter(definition({ config: { ...definition().config, displayName: 'Cursor' } })))
+      .toThrow('display name "Cursor" is already used');
+  });
+});
+
+describe('loadPlugins', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-plugins-'));
+    await writeFile(join(project, 'package.json'), JSON.stringify({ type: 'module' }));
+  });
+
+  afterEach(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  it('registers editors from config paths and packages, and records plugins that fail', async () => {
+    await writeFile(join(project, 'zed-adapter.js'), `export default {
+  editor: 'zed',
+  config: { displayName: 'Zed', fileFormats: ['.md'], locations: ['.zed/rules'], supportedRuleTypes: ['always'] },
+  parse: (content, filePath) => [{ name: 'style', content, type: 'always', source: 'zed', metadata: { filePath } }],
+  serialize: rule => rule.content
+};
+`);
+    await writeFile(join(project, 'broken-adapter.js'), 'export default {};\n');
+    await writeFile(join(project, 'crossrule.config.json'), JSON.stringify({ plugins: ['./zed-adapter.js', './broken-adapter.js'] }));
+
+    const packageDir = join(project, 'node_modules', 'crossrule-adapter-helix');
+    await mkdir(join(packageDir, 'lib'), { recursive: true });
+    await writeFile(join(packageDir, 'package.json'), JSON.stringify({ type: 'module', exports: { '.': { import: './lib/index.js' } } }));
+    await writeFile(join(packageDir, 'lib', 'index.js'), `export const adapters = [{
+  editor: 'helix',
+  config: { displayName: 'Helix', fileFormats: ['.md'], locations: ['.helix/rules'], supportedRuleTypes: ['always'] },
+  parse: () => [],
+  serialize: rule => rule.content
+}];
+`);
+
+    const plugins = await loadPlugins(project);
+
+    expect(plugins).toEqual([
+      { source: 'package', from: 'crossrule-adapter-helix', editors: ['helix'] },
+      { source: 'path', from: join(project, 'zed-adapter.js'), editors: ['zed'] },
+      {
+        source: 'path',
+        from: join(project, 'broken-adapter.js'),
+        editors: [],
+        error: 'Adapter "undefined": editor must be a lowercase id such as "my-editor"'
+      }
+    ]);
+    expect(resolveEditorName('Zed')).toBe('zed');
+
+    await mkdir(join(project, '.zed', 'rules'), { recursive: true });
+    await writeFile(join(project, '.zed', 'rules', 'style.md'), '- Use tabs\n');
+    const detection = await detectRulesForEditor('zed', project);
+    expect(detection.rules.map(rule => rule.content)).toEqual(['- Use tabs\n']);
+
+    // Loading again leaves the registered editors alone
+    expect(await loadPlugins(project)).toEqual(plugins);
+  });
+});
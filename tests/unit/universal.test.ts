@@ -0,0 +1,30 @@
+import { describe, expect, it } from '@jest/globals';
+import { createUniversalRule } from '../../src/converters/universal.js';
+
+describe('createUniversalRule', () => {
+  const create = (content: string, name?: string) => createUniversalRule({
+    type: 'always',
+    content,
+    targetEditors: ['cline'],
+    ...(name && { name })
+  });
+
+  it('counts the lines of the content', () => {
+    expect(create('# Style\n\n- Use tabs\n- Use single quotes', 'style').metadata.lineCount).toBe(4);
+  });
+
+  it('names a rule after the heading on its first line', () => {
+    expect(create('# Style guide\n\n- Use tabs').name).toBe('Style guide');
+  });
+
+  it('falls back to a generated name when the first line is long', () => {
+    expect(create(`${'Always '.repeat(10)}\n- Use tabs`).name).toMatch(/^always-rule-\d{6}$/);
+  });
+
+  it('keeps the id and bumps the version of a rule added again', () => {
+    const first = create('- Use tabs', 'style');
+    const second = createUniversalRule({ type: 'always', name: 'Style', content: '- Use spaces', targetEditors: ['cline'] }, [first]);
+    expect(second.id).toBe(first.id);
+    expect(second.metadata.version).toBe(2);
+  });
+});
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getConversionWarnings, getUniversalRuleWarnings } from '../../src/converters/warnings.js';
+import { convertRules } from '../../src/converters/index.js';
+import { addUniversalRule, createUniversalRule } from '../../src/converters/universal.js';
+import { Rule } from '../../src/types/index.js';
+
+const react: Rule = {
+  name: 'react',
+  content: '- Use function components',
+  type: 'auto-attached',
+  patterns: ['**/*.tsx'],
+  source: 'cursor'
+};
+
+describe('getConversionWarnings', () => {
+  it('reports an unsupported type and dropped patterns', () => {
+    expect(getConversionWarnings(react, 'cline')).toEqual([
+      {
+        rule: 'react',
+        editor: 'cline',
+        kind: 'type-unsupported',
+        message: 'Cline has no "auto-attached" rules; this rule will apply like an always-on rule'
+      },
+      {
+        rule: 'react',
+        editor: 'cline',
+        kind: 'patterns-dropped',
+        message: "Cline can't scope rules to files; patterns **/*.tsx were dropped"
+      }
+    ]);
+  });
+
+  it('counts an equivalent type as support', () => {
+    expect(getConversionWarnings(react, 'windsurf')).toEqual([]);
+    expect(getConversionWarnings({ ...react, type: 'model-decision' }, 'cursor')).toEqual([]);
+  });
+
+  it('names universal rule types as add knows them', () => {
+    const rule = createUniversalRule({ name: 'Review', type: 'ai-decision', content: '- Review carefully', targetEditors: ['codex'] });
+    expect(getUniversalRuleWarnings(rule, 'codex').map(warning => warning.message))
+      .toEqual(['Codex CLI has no "ai-decision" rules; this rule will apply like an always-on rule']);
+  });
+});
+
+describe('warnings on conversion results', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = await mkdtemp(join(tmpdir(), 'crossrule-warnings-'));
+  });
+
+  afterEach(async () => {
+    await rm(project, { recursive: true, force: true });
+  });
+
+  it('lists only the rules and editors that lose something', async () => {
+    const testing: Rule = { name: 'testing', content: '- Write tests first', type: 'always', source: 'cursor' };
+
+    const result = await convertRules([testing, react], ['Windsurf', 'Cline'], project, { dryRun: true });
+
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ rule: 'react', editor: 'cline', kind: 'type-unsupported' })
+    ]);
+  });
+
+  it('reports what add drops per target editor', async () => {
+    const rule = createUniversalRule({
+      name: 'Components',
+      type: 'pattern',
+      patterns: ['src/**/*.tsx'],
+      content: '- Use function components',
+      targetEditors: ['cursor', 'claude-code']
+    });
+
+    const result = await addUniversalRule(rule, { projectPath: project, dryRun: true });
+
+    expect(result.warnings.map(({ rule, editor, kind }) => ({ rule, editor, kind }))).toEqual([
+      { rule: 'Components', editor: 'claude-code', kind: 'type-unsupported' }
+    ]);
+  });
+});